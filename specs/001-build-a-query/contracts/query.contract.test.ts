@@ -301,31 +301,13 @@ describe('Authentication Flow Integration', () => {
     // Reset the current session to ensure clean state
     authService.signOut();
 
-    const mockGoogleUser = {
-      isSignedIn: vi.fn().mockReturnValue(true),
-      getAuthResponse: vi.fn().mockReturnValue({
-        access_token: 'mock-token',
-        expires_in: 3600
-      }),
-      getBasicProfile: vi.fn().mockReturnValue({
-        getId: () => 'mock-user-id'
-      })
-    };
-
-    const mockAuthInstance = {
-      signIn: vi.fn().mockResolvedValue(mockGoogleUser)
-    };
-
-    // Mock Google Auth initialization properly
-    global.gapi = {
-      load: vi.fn().mockImplementation((_api: string, options: { callback: () => void }) => {
-        options.callback();
-      }),
-      auth2: {
-        init: vi.fn().mockResolvedValue(undefined),
-        getAuthInstance: vi.fn().mockReturnValue(mockAuthInstance)
-      }
+    // A local fake identity provider stands in for Google Identity Services
+    const fakeGoogle = {
+      requestAccessToken: vi.fn().mockResolvedValue({ accessToken: 'mock-token', expiresIn: 3600, scope: 'bigquery' }),
+      getProfile: vi.fn().mockResolvedValue({ id: 'mock-user-id' }),
+      revoke: vi.fn().mockResolvedValue(undefined)
     };
+    authService.setGoogleIdentityProvider(fakeGoogle);
 
     const wrapper = mount({
       template: '<button @click="login">Login</button>',
@@ -341,16 +323,13 @@ describe('Authentication Flow Integration', () => {
     await wrapper.get('button').trigger('click');
     await flushPromises();
 
-    // Verify Google Auth was properly initialized
-    expect(global.gapi.load).toHaveBeenCalledWith('auth2', expect.any(Object));
-    expect(global.gapi.auth2.init).toHaveBeenCalled();
-    expect(global.gapi.auth2.getAuthInstance).toHaveBeenCalled();
-
-    // Verify Google sign-in was called
-    expect(mockAuthInstance.signIn).toHaveBeenCalled();
+    // Verify Google sign-in was called and the user looked up
+    expect(fakeGoogle.requestAccessToken).toHaveBeenCalledWith({ prompt: 'select_account' });
+    expect(fakeGoogle.getProfile).toHaveBeenCalledWith('mock-token');
 
     // Verify token was stored
     expect(authService.getAuthToken()).toBe('mock-token');
+    expect(authService.getSession().userId).toBe('mock-user-id');
   });
 });
 
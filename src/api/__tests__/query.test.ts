@@ -4,12 +4,8 @@ import { executeEndpoint } from '../query';
 // Mock gapi globally for API tests
 const mockGapi = {
   client: {
-    bigquery: {
-      jobs: {
-        query: vi.fn()
-      }
-    },
-    load: vi.fn()
+    // every BigQuery call goes through gapi.client.request
+    request: vi.fn()
   },
   load: vi.fn()
 };
@@ -32,7 +28,6 @@ describe('executeEndpoint', () => {
         config.callback();
       }
     });
-    mockGapi.client.load = vi.fn().mockResolvedValue(undefined);
   });
 
   it('returns 400 when query missing', async () => {
@@ -47,6 +42,13 @@ describe('executeEndpoint', () => {
     expect(res.body.status).toBe('error');
   });
 
+  it('returns 400 when no billing project is selected', async () => {
+    const res = await executeEndpoint({ query: 'SELECT 1', authToken: 'valid-token' });
+    expect(res.statusCode).toBe(400);
+    expect(res.body.error).toMatch(/No billing project selected/);
+    expect(mockGapi.client.request).not.toHaveBeenCalled();
+  });
+
   it('returns success for valid query', async () => {
     // Mock BigQuery API response
     const mockResponse = {
@@ -63,9 +65,13 @@ describe('executeEndpoint', () => {
       }
     };
 
-    mockGapi.client.bigquery.jobs.query.mockResolvedValue(mockResponse);
+    mockGapi.client.request.mockResolvedValue(mockResponse);
 
-    const res = await executeEndpoint({ query: 'SELECT 1', authToken: 'valid-token' });
+    const res = await executeEndpoint({ query: 'SELECT 1', authToken: 'valid-token', projectId: 'billing' });
+    expect(mockGapi.client.request).toHaveBeenCalledWith(expect.objectContaining({
+      path: 'https://bigquery.googleapis.com/bigquery/v2/projects/billing/queries',
+      headers: { Authorization: 'Bearer valid-token' }
+    }));
     expect(res.statusCode).toBe(200);
     expect(res.body.status).toBe('success');
     expect(Array.isArray(res.body.results)).toBe(true);
@@ -1,6 +1,7 @@
 import type { QueryPayload } from '../models/Query';
 import type UserSession from '../models/UserSession';
-import { executeQuery } from '../services/queryService';
+import type { ResultField } from '../services/bigqueryDecoder';
+import { executeQuery, NoProjectSelectedError } from '../services/queryService';
 import * as authService from '../services/authService';
 
 export interface ExecuteRequest {
@@ -8,11 +9,15 @@ export interface ExecuteRequest {
   authToken?: string | null;
   id?: string;
   name?: string;
+  // query context of the run; defaults to the one stored with the session
+  projectId?: string;
+  datasetId?: string;
+  location?: string;
 }
 
 export interface ExecuteResponse {
   results: Record<string, unknown>[];
-  schema?: { name: string; type: string }[];
+  schema?: ResultField[];
   status: 'success' | 'error';
   error: string | null;
   jobId?: string;
@@ -22,7 +27,8 @@ export interface ExecuteResponse {
  * Minimal POST /api/query/execute handler logic exposed for use in tests and dev middleware.
  * - Validates input
  * - Performs a very small token check (rejects 'invalid-token')
- * - Uses authService.signInWithToken to create a session when token provided
+ * - Uses authService.signInWithToken to create a session when token provided, in the
+ *   requested project, dataset and location
  * - Calls queryService.executeQuery and returns normalized response
  */
 export async function executeEndpoint(
@@ -52,6 +58,10 @@ export async function executeEndpoint(
     if (body.authToken) {
       // create a simple session using the token as accessToken
       session = await authService.signInWithToken({ accessToken: body.authToken });
+      const context = (['projectId', 'datasetId', 'location'] as const)
+        .filter((key) => body[key])
+        .map((key) => [key, body[key]]);
+      if (context.length) session = authService.updateQueryContext(Object.fromEntries(context));
     }
 
     const qpayload: QueryPayload = {
@@ -77,6 +87,12 @@ export async function executeEndpoint(
       err && typeof err === 'object' && 'message' in err
         ? (err as { message?: unknown }).message
         : String(err);
+    if (err instanceof NoProjectSelectedError) {
+      return {
+        statusCode: 400,
+        body: { results: [], status: 'error', error: err.message },
+      };
+    }
     // If the service threw an authentication-related error, surface as 401
     if (String(message) === 'User not authenticated') {
       return {
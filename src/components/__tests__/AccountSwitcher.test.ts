@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { mount } from '@vue/test-utils'
+import AccountSwitcher from '../AccountSwitcher.vue'
+
+const accounts = [
+  { id: 'google:1', label: 'Google account one@example.com' },
+  { id: 'service-account:ci@example.com', label: 'Service account ci@example.com' }
+]
+
+describe('AccountSwitcher', () => {
+  it('shows a single account as a label', () => {
+    const wrapper = mount(AccountSwitcher, { props: { accounts: accounts.slice(0, 1), activeId: 'google:1' } })
+
+    expect(wrapper.find('[data-test="account-label"]').text()).toBe('Google account one@example.com')
+    expect(wrapper.find('[data-test="account-select"]').exists()).toBe(false)
+    expect(wrapper.find('[data-test="sign-out-all-button"]').exists()).toBe(false)
+  })
+
+  it('switches between several accounts', async () => {
+    const wrapper = mount(AccountSwitcher, { props: { accounts, activeId: 'google:1' } })
+    const select = wrapper.find('[data-test="account-select"]')
+
+    expect((select.element as HTMLSelectElement).value).toBe('google:1')
+    await select.setValue('service-account:ci@example.com')
+
+    expect(wrapper.emitted('switch')).toEqual([['service-account:ci@example.com']])
+  })
+
+  it('adds accounts and signs out of one or all of them', async () => {
+    const wrapper = mount(AccountSwitcher, { props: { accounts, activeId: 'google:1' } })
+
+    await wrapper.find('[data-test="add-account"]').trigger('click')
+    await wrapper.find('[data-test="sign-out-button"]').trigger('click')
+    await wrapper.find('[data-test="sign-out-all-button"]').trigger('click')
+
+    expect(wrapper.emitted('add')).toHaveLength(1)
+    expect(wrapper.emitted('sign-out')).toEqual([['google:1']])
+    expect(wrapper.emitted('sign-out-all')).toHaveLength(1)
+  })
+
+  it('asks for an account once the active one signed out', async () => {
+    const wrapper = mount(AccountSwitcher, { props: { accounts: accounts.slice(0, 1), activeId: 'token:' } })
+    const select = wrapper.find('[data-test="account-select"]')
+
+    expect((select.element as HTMLSelectElement).value).toBe('')
+    expect(select.find('option[disabled]').text()).toBe('Choose an account')
+    expect(wrapper.find('[data-test="sign-out-button"]').exists()).toBe(false)
+    expect(wrapper.find('[data-test="sign-out-all-button"]').exists()).toBe(true)
+
+    await select.setValue('google:1')
+    expect(wrapper.emitted('switch')).toEqual([['google:1']])
+  })
+})
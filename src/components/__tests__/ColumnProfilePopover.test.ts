@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import { mount } from '@vue/test-utils'
+import ColumnProfilePopover from '../ColumnProfilePopover.vue'
+import { flattenColumns } from '../../utils/resultFormat'
+import { profileColumn } from '../../utils/resultTransform'
+
+const [column] = flattenColumns([{ name: 'amount', type: 'FLOAT64' }])
+const rows = [1, 2, 2, null, 10].map((amount) => ({ amount }))
+
+function mountProfile(props: Record<string, unknown> = {}) {
+  return mount(ColumnProfilePopover, {
+    props: { column, profile: profileColumn(rows, column), ...props },
+    // attached so that the filter form submits
+    attachTo: document.body
+  })
+}
+
+describe('ColumnProfilePopover', () => {
+  it('shows the column statistics and histogram', () => {
+    const wrapper = mountProfile()
+    expect(wrapper.find('[data-test="profile-count"]').text()).toBe('5')
+    expect(wrapper.find('[data-test="profile-distinct"]').text()).toBe('3')
+    expect(wrapper.find('[data-test="profile-nulls"]').text()).toBe('1 (20%)')
+    expect(wrapper.find('[data-test="profile-min"]').text()).toBe('1')
+    expect(wrapper.find('[data-test="profile-max"]').text()).toBe('10')
+
+    const bins = wrapper.findAll('[data-test="histogram-bin"]')
+    expect(bins).toHaveLength(10)
+    expect(bins[0].attributes('title')).toBe('1 – 1.9: 1')
+    expect(bins[1].attributes('title')).toBe('1.9 – 2.8: 2')
+    expect((bins[0].find('.bin-bar span').element as HTMLElement).style.width).toBe('50%')
+    wrapper.unmount()
+  })
+
+  it('emits the filter built from the form', async () => {
+    const wrapper = mountProfile()
+    await wrapper.find('[data-test="filter-kind"]').setValue('contains')
+    await wrapper.find('[data-test="filter-text"]').setValue('2')
+    await wrapper.find('[data-test="filter-apply"]').trigger('click')
+    expect(wrapper.emitted('update:filter')?.[0]).toEqual([{ kind: 'contains', text: '2' }])
+
+    await wrapper.find('[data-test="filter-kind"]').setValue('notNull')
+    await wrapper.find('[data-test="filter-apply"]').trigger('click')
+    expect(wrapper.emitted('update:filter')?.[1]).toEqual([{ kind: 'notNull' }])
+    wrapper.unmount()
+  })
+
+  it('starts from the applied filter and clears it', async () => {
+    const wrapper = mountProfile({ filter: { kind: 'range', min: '2', max: '' } })
+    expect((wrapper.find('[data-test="filter-min"]').element as HTMLInputElement).value).toBe('2')
+
+    await wrapper.find('[data-test="filter-clear"]').trigger('click')
+    expect(wrapper.emitted('update:filter')?.[0]).toEqual([null])
+    wrapper.unmount()
+  })
+
+  it('emits sort and close', async () => {
+    const wrapper = mountProfile({ sortDirection: 'desc' })
+    expect(wrapper.find('[data-test="profile-sort-desc"]').classes()).toContain('active')
+
+    await wrapper.find('[data-test="profile-sort-asc"]').trigger('click')
+    expect(wrapper.emitted('sort')?.[0]).toEqual(['asc'])
+
+    await wrapper.find('[data-test="column-profile"]').trigger('keydown', { key: 'Escape' })
+    await wrapper.find('[data-test="profile-close"]').trigger('click')
+    expect(wrapper.emitted('close')).toHaveLength(2)
+    wrapper.unmount()
+  })
+})
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import { mount } from '@vue/test-utils'
+import CommandPalette from '../CommandPalette.vue'
+import type { PaletteItem } from '../CommandPalette.vue'
+
+const items: PaletteItem[] = [
+  { id: 'panels.toggleResults', title: 'Toggle Results Panel', category: 'Panels', binding: 'Alt+R' },
+  { id: 'panels.toggleSchema', title: 'Toggle Schema Panel', category: 'Panels', binding: 'Alt+S' },
+  { id: 'query.execute', title: 'Execute Query', category: 'Query', binding: 'Ctrl+E' },
+  { id: 'view.toggleTheme', title: 'Toggle Dark Mode', category: 'View' }
+]
+
+const ids = (wrapper: ReturnType<typeof mount>) =>
+  wrapper.findAll('.palette-item').map((item) => item.attributes('data-test')!.replace('palette-item-', ''))
+
+describe('CommandPalette', () => {
+  it('lists every item with recently used ones first', () => {
+    const wrapper = mount(CommandPalette, { props: { items, recentIds: ['view.toggleTheme', 'query.execute'] } })
+
+    expect(ids(wrapper)).toEqual(['view.toggleTheme', 'query.execute', 'panels.toggleResults', 'panels.toggleSchema'])
+    expect(wrapper.find('[data-test="palette-item-view.toggleTheme"] .recent').exists()).toBe(true)
+    expect(wrapper.find('[data-test="palette-item-query.execute"] kbd').text()).toBe('Ctrl+E')
+  })
+
+  it('filters with fuzzy search and highlights the matches', async () => {
+    const wrapper = mount(CommandPalette, { props: { items } })
+
+    await wrapper.find('[data-test="palette-input"]').setValue('tgsch')
+
+    expect(ids(wrapper)).toEqual(['panels.toggleSchema'])
+    expect(wrapper.findAll('.palette-item mark').map((m) => m.text()).join('')).toBe('TgSch')
+
+    await wrapper.find('[data-test="palette-input"]').setValue('zzz')
+    expect(wrapper.find('[data-test="palette-empty"]').exists()).toBe(true)
+  })
+
+  it('ranks recently used matches higher', async () => {
+    const wrapper = mount(CommandPalette, { props: { items, recentIds: ['panels.toggleSchema'] } })
+
+    await wrapper.find('[data-test="palette-input"]').setValue('toggle')
+
+    expect(ids(wrapper)[0]).toBe('panels.toggleSchema')
+  })
+
+  it('runs the selected item from the keyboard', async () => {
+    const wrapper = mount(CommandPalette, { props: { items } })
+    const input = wrapper.find('[data-test="palette-input"]')
+
+    await input.trigger('keydown', { key: 'ArrowDown' })
+    await input.trigger('keydown', { key: 'ArrowDown' })
+    await input.trigger('keydown', { key: 'ArrowUp' })
+    await input.trigger('keydown', { key: 'Enter' })
+
+    expect(wrapper.emitted('run')).toEqual([['panels.toggleSchema']])
+  })
+
+  it('runs an item on click', async () => {
+    const wrapper = mount(CommandPalette, { props: { items } })
+
+    await wrapper.find('[data-test="palette-item-query.execute"]').trigger('click')
+
+    expect(wrapper.emitted('run')).toEqual([['query.execute']])
+  })
+
+  it('closes with Escape or a click outside, without letting keys reach the app', async () => {
+    const outer = mount({
+      components: { CommandPalette },
+      data: () => ({ items, keys: [] as string[] }),
+      template: '<div @keydown="keys.push($event.key)"><CommandPalette :items="items" /></div>'
+    })
+    const wrapper = outer.findComponent(CommandPalette)
+
+    await wrapper.find('[data-test="palette-input"]').trigger('keydown', { key: 'Escape' })
+    await wrapper.find('[data-test="command-palette"]').trigger('click')
+
+    expect(wrapper.emitted('close')).toHaveLength(2)
+    expect((outer.vm as unknown as { keys: string[] }).keys).toEqual([])
+  })
+})
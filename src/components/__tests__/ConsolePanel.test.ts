@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mount, flushPromises } from '@vue/test-utils'
+import ConsolePanel from '../ConsolePanel.vue'
+import { clearLog, getLogEvents, logger } from '../../services/logService'
+
+describe('ConsolePanel', () => {
+  const writeText = vi.fn()
+
+  beforeEach(() => {
+    clearLog()
+    for (const level of ['debug', 'info', 'warn', 'error'] as const) {
+      vi.spyOn(console, level).mockImplementation(() => {})
+    }
+    writeText.mockReset().mockResolvedValue(undefined)
+    Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true })
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('shows an empty state', () => {
+    const wrapper = mount(ConsolePanel)
+    expect(wrapper.find('[data-test="console-empty"]').exists()).toBe(true)
+    expect(wrapper.find('[data-test="console-copy"]').attributes('disabled')).toBeDefined()
+  })
+
+  it('streams new events', async () => {
+    logger.info('query', 'Executing query')
+    const wrapper = mount(ConsolePanel)
+
+    logger.error('auth', 'Sign-in failed', { error: 'popup closed' })
+    await flushPromises()
+
+    const events = wrapper.findAll('[data-test="console-event"]')
+    expect(events).toHaveLength(2)
+    expect(events[1].text()).toContain('Sign-in failed')
+    expect(events[1].text()).toContain('error=popup closed')
+    expect(events[1].classes()).toContain('error')
+    wrapper.unmount()
+  })
+
+  it('filters by severity and source', async () => {
+    logger.debug('query', 'Polling')
+    logger.info('query', 'Query completed')
+    logger.warn('auth', 'Token expiring')
+    const wrapper = mount(ConsolePanel)
+
+    // Debug events are hidden by default
+    expect(wrapper.findAll('[data-test="console-event"]')).toHaveLength(2)
+
+    await wrapper.find('[data-test="console-level"]').setValue('debug')
+    expect(wrapper.findAll('[data-test="console-event"]')).toHaveLength(3)
+
+    await wrapper.find('[data-test="console-level"]').setValue('warn')
+    expect(wrapper.findAll('[data-test="console-event"]').map((e) => e.find('.message').text())).toEqual(['Token expiring'])
+
+    await wrapper.find('[data-test="console-level"]').setValue('debug')
+    await wrapper.find('[data-test="console-source"]').setValue('query')
+    expect(wrapper.findAll('[data-test="console-event"]')).toHaveLength(2)
+  })
+
+  it('copies the visible events to the clipboard', async () => {
+    logger.debug('query', 'Polling')
+    logger.info('query', 'Query completed', { jobId: 'job-1' })
+    const wrapper = mount(ConsolePanel)
+
+    await wrapper.find('[data-test="console-copy"]').trigger('click')
+    await flushPromises()
+
+    expect(writeText).toHaveBeenCalledTimes(1)
+    const text = writeText.mock.calls[0][0] as string
+    expect(text).toContain('INFO [query] Query completed {"jobId":"job-1"}')
+    expect(text).not.toContain('Polling')
+    expect(wrapper.find('[data-test="console-copy-status"]').text()).toBe('Copied 1 events')
+  })
+
+  it('reports clipboard failures', async () => {
+    writeText.mockRejectedValue(new Error('denied'))
+    logger.info('query', 'Query completed')
+    const wrapper = mount(ConsolePanel)
+
+    await wrapper.find('[data-test="console-copy"]').trigger('click')
+    await flushPromises()
+
+    expect(wrapper.find('[data-test="console-copy-status"]').text()).toBe('Copy failed: denied')
+  })
+
+  it('clears the log', async () => {
+    logger.info('query', 'Query completed')
+    const wrapper = mount(ConsolePanel)
+
+    await wrapper.find('[data-test="console-clear"]').trigger('click')
+
+    expect(getLogEvents()).toEqual([])
+    expect(wrapper.find('[data-test="console-empty"]').exists()).toBe(true)
+  })
+})
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterAll } from 'vitest'
+import { mount, flushPromises } from '@vue/test-utils'
+import HistoryPanel from '../HistoryPanel.vue'
+import { localStorageHistoryStore, recordExecution, setHistoryStore } from '../../services/historyService'
+import type { HistoryEntry } from '../../services/historyService'
+
+let stored: HistoryEntry[] = []
+
+function entry(id: string, queryId: string, sql: string, startedAt: string, extra: Partial<HistoryEntry> = {}): HistoryEntry {
+  return {
+    id,
+    queryId,
+    sql,
+    startedAt,
+    endedAt: startedAt,
+    durationMs: 1500,
+    jobId: `job-${id}`,
+    bytesProcessed: 2048,
+    rowCount: 10,
+    status: 'completed',
+    error: null,
+    ...extra
+  }
+}
+
+async function mountPanel(props: Record<string, unknown> = {}) {
+  const wrapper = mount(HistoryPanel, { props })
+  await flushPromises()
+  return wrapper
+}
+
+describe('HistoryPanel', () => {
+  beforeEach(() => {
+    stored = [
+      entry('r3', 'q2', 'SELECT * FROM users', '2024-01-03T00:00:00.000Z', { status: 'failed', error: 'Not found' }),
+      entry('r2', 'q1', 'SELECT a,\n  b\nFROM t', '2024-01-02T00:00:00.000Z', { queryName: 'Report' }),
+      entry('r1', 'q1', 'SELECT a\nFROM t', '2024-01-01T00:00:00.000Z', { queryName: 'Report' })
+    ]
+    setHistoryStore({
+      load: async () => [...stored],
+      persist: async (entries) => { stored = entries }
+    })
+  })
+
+  afterAll(() => {
+    setHistoryStore(localStorageHistoryStore)
+  })
+
+  const ids = (wrapper: Awaited<ReturnType<typeof mountPanel>>) =>
+    wrapper.findAll('li').map((li) => li.attributes('data-test'))
+
+  it('lists runs with their details', async () => {
+    const wrapper = await mountPanel()
+
+    expect(ids(wrapper)).toEqual(['history-entry-r3', 'history-entry-r2', 'history-entry-r1'])
+    const failed = wrapper.find('[data-test="history-entry-r3"]')
+    expect(failed.text()).toContain('failed')
+    expect(failed.text()).toContain('Not found')
+    expect(failed.find('.meta').text()).toContain('1.5 s · 10 rows · 2.0 KB · job-r3')
+  })
+
+  it('filters by text, status and the current query', async () => {
+    const wrapper = await mountPanel({ currentQueryId: 'q1' })
+
+    await wrapper.find('[data-test="history-search"]').setValue('users')
+    await flushPromises()
+    expect(ids(wrapper)).toEqual(['history-entry-r3'])
+
+    await wrapper.find('[data-test="history-search"]').setValue('')
+    await wrapper.find('[data-test="history-status"]').setValue('completed')
+    await flushPromises()
+    expect(ids(wrapper)).toEqual(['history-entry-r2', 'history-entry-r1'])
+
+    await wrapper.find('[data-test="history-status"]').setValue('')
+    await wrapper.find('[data-test="history-current-only"]').setValue(true)
+    await flushPromises()
+    expect(ids(wrapper)).toEqual(['history-entry-r2', 'history-entry-r1'])
+  })
+
+  it('emits restore with the entry', async () => {
+    const wrapper = await mountPanel()
+    await wrapper.find('[data-test="history-entry-r1"] [data-test="history-restore"]').trigger('click')
+
+    expect((wrapper.emitted('restore')?.[0][0] as HistoryEntry).sql).toBe('SELECT a\nFROM t')
+  })
+
+  it('diffs two runs of the same query, oldest first', async () => {
+    const wrapper = await mountPanel()
+    await wrapper.find('[data-test="history-entry-r2"] [data-test="history-compare"]').trigger('click')
+
+    expect(wrapper.find('[data-test="history-compare-hint"]').exists()).toBe(true)
+    expect(wrapper.find('[data-test="history-entry-r3"] [data-test="history-compare"]').attributes('disabled'))
+      .toBeDefined()
+
+    await wrapper.find('[data-test="history-entry-r1"] [data-test="history-compare"]').trigger('click')
+
+    const lines = wrapper.findAll('.diff-line').map((line) => [line.classes()[1], line.text()])
+    expect(lines).toEqual([
+      ['removed', '- SELECT a'],
+      ['added', '+ SELECT a,'],
+      ['added', '+   b'],
+      ['same', 'FROM t']
+    ])
+
+    await wrapper.find('[data-test="history-diff-close"]').trigger('click')
+    expect(wrapper.find('[data-test="history-diff"]').exists()).toBe(false)
+  })
+
+  it('refreshes when a run is recorded and when cleared', async () => {
+    const wrapper = await mountPanel()
+
+    await recordExecution({ ...entry('x', 'q3', 'SELECT 3', '2024-02-01T00:00:00.000Z') })
+    await flushPromises()
+    expect(wrapper.findAll('li')).toHaveLength(4)
+
+    await wrapper.find('[data-test="history-clear"]').trigger('click')
+    await flushPromises()
+    expect(wrapper.find('[data-test="history-empty"]').exists()).toBe(true)
+    wrapper.unmount()
+  })
+})
@@ -1,13 +1,27 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest'
-import { mount } from '@vue/test-utils'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mount, flushPromises } from '@vue/test-utils'
 import { nextTick } from 'vue'
 import PanelManager from '../PanelManager.vue'
+import Query from '../../models/Query'
+import authService from '../../services/authService'
+import schemaService from '../../services/schemaService'
+import { executeQuery, fetchResultsPage } from '../../services/queryService'
+import { getCommands, resetAllKeybindings } from '../../services/commandService'
+import { EDITOR_KEYBINDINGS } from '../../editor/keybindings'
+import { normalizeBinding } from '../../utils/keybinding'
+import { localStorageStore, setSavedQueryStore } from '../../services/savedQueryService'
+
+// Spied on, but runs the real service (its local mock while signed out)
+vi.mock('../../services/queryService', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../services/queryService')>()
+  return { ...actual, executeQuery: vi.fn(actual.executeQuery), fetchResultsPage: vi.fn(actual.fetchResultsPage) }
+})
 
 // Mock the child components
 vi.mock('../QueryEditor.vue', () => ({
   default: {
     name: 'QueryEditor',
-    props: ['modelValue'],
+    props: ['modelValue', 'session', 'formatOptions'],
     emits: ['update:modelValue', 'execute'],
     template: '<div><button data-test="execute-button" @click="$emit(\'execute\')">Execute</button></div>'
   }
@@ -16,7 +30,9 @@ vi.mock('../QueryEditor.vue', () => ({
 vi.mock('../ResultsPanel.vue', () => ({
   default: {
     name: 'ResultsPanel',
-    props: ['results', 'loading'],
+    props: ['results', 'schema', 'jobId', 'error', 'loading', 'pageSize', 'totalRows', 'rowOffset', 'pageLoading', 'pageError',
+      'exporting', 'exportStatus'],
+    emits: ['cancel', 'request-rows', 'export', 'cancel-export'],
     template: '<div><div v-if="loading" data-test="loading-indicator">Loading...</div><div v-else data-test="results-table">Results</div></div>'
   }
 }))
@@ -24,7 +40,7 @@ vi.mock('../ResultsPanel.vue', () => ({
 vi.mock('../SchemaPanel.vue', () => ({
   default: {
     name: 'SchemaPanel',
-    props: ['schema'],
+    props: ['schema', 'session'],
     template: '<div>Schema</div>'
   }
 }))
@@ -38,6 +54,31 @@ vi.mock('../SettingsPanel.vue', () => ({
   }
 }))
 
+vi.mock('../SavedQueriesPanel.vue', () => ({
+  default: {
+    name: 'SavedQueriesPanel',
+    props: ['sql', 'currentId'],
+    emits: ['open', 'saved'],
+    template: '<div>Saved queries</div>'
+  }
+}))
+
+vi.mock('../HistoryPanel.vue', () => ({
+  default: {
+    name: 'HistoryPanel',
+    props: ['currentQueryId'],
+    emits: ['restore'],
+    template: '<div>History</div>'
+  }
+}))
+
+vi.mock('../ConsolePanel.vue', () => ({
+  default: {
+    name: 'ConsolePanel',
+    template: '<div>Console</div>'
+  }
+}))
+
 describe('PanelManager', () => {
   let wrapper: ReturnType<typeof mount>
 
@@ -54,27 +95,27 @@ describe('PanelManager', () => {
   })
 
   describe('Keyboard Shortcuts', () => {
-    it('should toggle results panel with Ctrl+R', async () => {
-      await wrapper.trigger('keydown', { key: 'r', ctrlKey: true })
+    it('should toggle results panel with Alt+R', async () => {
+      await wrapper.trigger('keydown', { key: 'r', code: 'KeyR', altKey: true })
       await nextTick()
 
       expect(wrapper.find('[data-test="results-panel"]').classes()).toContain('visible')
 
       // Toggle again to hide
-      await wrapper.trigger('keydown', { key: 'r', ctrlKey: true })
+      await wrapper.trigger('keydown', { key: 'r', code: 'KeyR', altKey: true })
       await nextTick()
 
       expect(wrapper.find('[data-test="results-panel"]').classes()).not.toContain('visible')
     })
 
-    it('should toggle schema panel with Ctrl+S', async () => {
-      await wrapper.trigger('keydown', { key: 's', ctrlKey: true })
+    it('should toggle schema panel with Alt+S', async () => {
+      await wrapper.trigger('keydown', { key: 's', code: 'KeyS', altKey: true })
       await nextTick()
 
       expect(wrapper.find('[data-test="schema-panel"]').classes()).toContain('visible')
 
       // Toggle again to hide
-      await wrapper.trigger('keydown', { key: 's', ctrlKey: true })
+      await wrapper.trigger('keydown', { key: 's', code: 'KeyS', altKey: true })
       await nextTick()
 
       expect(wrapper.find('[data-test="schema-panel"]').classes()).not.toContain('visible')
@@ -93,14 +134,50 @@ describe('PanelManager', () => {
       expect(wrapper.find('[data-test="settings-panel"]').classes()).not.toContain('visible')
     })
 
-    it('should toggle keyboard help with Ctrl+/', async () => {
-      await wrapper.trigger('keydown', { key: '/', ctrlKey: true })
+    it('should toggle saved queries panel with Ctrl+O', async () => {
+      await wrapper.trigger('keydown', { key: 'o', ctrlKey: true })
+      await nextTick()
+
+      expect(wrapper.find('[data-test="saved-queries-panel"]').classes()).toContain('visible')
+
+      await wrapper.trigger('keydown', { key: 'o', ctrlKey: true })
+      await nextTick()
+
+      expect(wrapper.find('[data-test="saved-queries-panel"]').classes()).not.toContain('visible')
+    })
+
+    it('should toggle history panel with Alt+H', async () => {
+      await wrapper.trigger('keydown', { key: 'h', code: 'KeyH', altKey: true })
+      await nextTick()
+
+      expect(wrapper.find('[data-test="history-panel"]').classes()).toContain('visible')
+
+      await wrapper.trigger('keydown', { key: 'h', code: 'KeyH', altKey: true })
+      await nextTick()
+
+      expect(wrapper.find('[data-test="history-panel"]').classes()).not.toContain('visible')
+    })
+
+    it('should toggle console panel with Ctrl+`', async () => {
+      await wrapper.trigger('keydown', { key: '`', ctrlKey: true })
+      await nextTick()
+
+      expect(wrapper.find('[data-test="console-panel"]').classes()).toContain('visible')
+
+      await wrapper.trigger('keydown', { key: '`', ctrlKey: true })
+      await nextTick()
+
+      expect(wrapper.find('[data-test="console-panel"]').classes()).not.toContain('visible')
+    })
+
+    it('should toggle keyboard help with Alt+/', async () => {
+      await wrapper.trigger('keydown', { key: '/', code: 'Slash', altKey: true })
       await nextTick()
 
       expect(wrapper.find('[data-test="keyboard-help"]').exists()).toBe(true)
 
       // Toggle again to hide
-      await wrapper.trigger('keydown', { key: '/', ctrlKey: true })
+      await wrapper.trigger('keydown', { key: '/', code: 'Slash', altKey: true })
       await nextTick()
 
       expect(wrapper.find('[data-test="keyboard-help"]').exists()).toBe(false)
@@ -108,10 +185,10 @@ describe('PanelManager', () => {
 
     it('should close all panels with Escape key', async () => {
       // Open all panels first
-      await wrapper.trigger('keydown', { key: 'r', ctrlKey: true })
-      await wrapper.trigger('keydown', { key: 's', ctrlKey: true })
+      await wrapper.trigger('keydown', { key: 'r', code: 'KeyR', altKey: true })
+      await wrapper.trigger('keydown', { key: 's', code: 'KeyS', altKey: true })
       await wrapper.trigger('keydown', { key: ',', ctrlKey: true })
-      await wrapper.trigger('keydown', { key: '/', ctrlKey: true })
+      await wrapper.trigger('keydown', { key: '/', code: 'Slash', altKey: true })
       await nextTick()
 
       // Verify all panels are open
@@ -150,17 +227,392 @@ describe('PanelManager', () => {
 
     it('should prevent default behavior for keyboard shortcuts', () => {
       // This test verifies the component handles keyboard events properly
-      // by checking that preventDefault is called when Ctrl+R is pressed
+      // by checking that preventDefault is called when Alt+R is pressed
       const element = wrapper.find('.panel-manager')
       expect(element.exists()).toBe(true)
     })
   })
 
+  describe('Command Palette', () => {
+    const openPalette = async () => {
+      await wrapper.trigger('keydown', { key: 'P', code: 'KeyP', ctrlKey: true, shiftKey: true })
+      await flushPromises()
+    }
+
+    it('should open with Ctrl+Shift+P and run the chosen command', async () => {
+      await openPalette()
+      expect(wrapper.find('[data-test="command-palette"]').exists()).toBe(true)
+
+      await wrapper.find('[data-test="palette-input"]').setValue('console')
+      await wrapper.find('[data-test="palette-input"]').trigger('keydown', { key: 'Enter' })
+
+      expect(wrapper.find('[data-test="command-palette"]').exists()).toBe(false)
+      expect(wrapper.find('[data-test="console-panel"]').classes()).toContain('visible')
+      expect(localStorage.setItem).toHaveBeenCalledWith('smolquery.recentCommands', '["panels.toggleConsole"]')
+    })
+
+    it('should offer actions without a shortcut', async () => {
+      await wrapper.find('[data-test="open-palette"]').trigger('click')
+      await flushPromises()
+
+      await wrapper.find('[data-test="palette-item-view.toggleTheme"]').trigger('click')
+
+      expect(wrapper.findComponent({ name: 'ThemeToggle' }).props('modelValue')).toBe(true)
+    })
+
+    it('should format the active query', async () => {
+      await wrapper.findComponent({ name: 'QueryEditor' }).vm.$emit('update:modelValue', 'select a from t')
+      await openPalette()
+
+      await wrapper.find('[data-test="palette-item-query.format"]').trigger('click')
+
+      expect(wrapper.findComponent({ name: 'QueryEditor' }).props('modelValue')).toBe('SELECT\n  a\nFROM\n  t')
+    })
+
+    it('should open saved queries', async () => {
+      setSavedQueryStore({
+        load: async () => [new Query({ id: 'saved-1', name: 'Daily', sql: 'SELECT 42' }).toJSON()],
+        persist: async () => {}
+      })
+      await openPalette()
+      setSavedQueryStore(localStorageStore)
+
+      await wrapper.find('[data-test="palette-item-savedQuery:saved-1"]').trigger('click')
+
+      expect(wrapper.findComponent({ name: 'QueryEditor' }).props('modelValue')).toBe('SELECT 42')
+    })
+
+    it('should switch the billing project', async () => {
+      const listProjects = vi.spyOn(schemaService, 'listProjects')
+        .mockResolvedValue([{ id: 'alpha' }, { id: 'beta', name: 'Beta' }])
+      await authService.signInWithToken({ userId: 'u1', accessToken: 'token' })
+      authService.updateQueryContext({ projectId: 'alpha', datasetId: 'sales' })
+      wrapper.unmount()
+      wrapper = mount(PanelManager)
+      await openPalette()
+
+      expect(wrapper.find('[data-test="palette-item-project:alpha"]').exists()).toBe(false)
+      await wrapper.find('[data-test="palette-item-project:beta"]').trigger('click')
+
+      expect(authService.getSession().context).toEqual({ projectId: 'beta', datasetId: null, location: null })
+      expect((wrapper.find('[data-test="project-select"]').element as HTMLSelectElement).value).toBe('beta')
+      authService.signOut()
+      listProjects.mockRestore()
+    })
+  })
+
+  describe('Account', () => {
+    const signInAs = async (...userIds: string[]) => {
+      for (const userId of userIds) await authService.signInWithToken({ userId, accessToken: `${userId}-token` })
+      wrapper.unmount()
+      wrapper = mount(PanelManager)
+    }
+
+    afterEach(() => {
+      authService.signOutAll()
+      vi.restoreAllMocks()
+    })
+
+    it('should offer to sign in while signed out', async () => {
+      expect(wrapper.find('[data-test="account-label"]').exists()).toBe(false)
+
+      await wrapper.find('[data-test="sign-in-button"]').trigger('click')
+
+      expect(wrapper.find('[data-test="sign-in-dialog"]').exists()).toBe(true)
+    })
+
+    it('should show the account once signed in through the dialog', async () => {
+      vi.spyOn(authService, 'signInWithProvider').mockImplementation((provider) =>
+        authService.signInWithToken({ provider, userId: 'ci@project.iam.gserviceaccount.com', accessToken: 'sa-token' }))
+      await wrapper.find('[data-test="sign-in-button"]').trigger('click')
+      await wrapper.find('[data-test="sign-in-method-service-account"]').setValue(true)
+      await wrapper.find('[data-test="sign-in-credentials"]').setValue('{}')
+      await wrapper.find('[data-test="sign-in-dialog"] form').trigger('submit')
+      await flushPromises()
+
+      expect(wrapper.find('[data-test="sign-in-dialog"]').exists()).toBe(false)
+      expect(wrapper.find('[data-test="account-label"]').text()).toBe('Service account ci@project.iam.gserviceaccount.com')
+    })
+
+    it('should sign out', async () => {
+      await authService.signInWithToken({ accessToken: 'token' })
+      wrapper.unmount()
+      wrapper = mount(PanelManager)
+
+      await wrapper.find('[data-test="sign-out-button"]').trigger('click')
+      await flushPromises()
+
+      expect(authService.getSession().hasCredentials()).toBe(false)
+      expect(wrapper.find('[data-test="sign-in-button"]').exists()).toBe(true)
+    })
+
+    it('should switch between signed-in accounts', async () => {
+      await signInAs('one', 'two')
+
+      await wrapper.find('[data-test="account-select"]').setValue('token:one')
+
+      expect(authService.getSession().userId).toBe('one')
+      expect(wrapper.findComponent({ name: 'QueryEditor' }).props('session')).toBe(authService.getAccount('token:one'))
+    })
+
+    it('should run a tab as the account chosen for it', async () => {
+      await signInAs('one', 'two')
+      const editor = () => wrapper.findComponent({ name: 'QueryEditor' })
+
+      await wrapper.find('[data-test="tab-account"]').setValue('token:one')
+      expect(editor().props('session')).toBe(authService.getAccount('token:one'))
+      expect(authService.getSession().userId).toBe('two')
+
+      await wrapper.find('[data-test="new-tab"]').trigger('click')
+      expect(editor().props('session')).toBe(authService.getSession())
+    })
+
+    it('should browse the schema of the account the tab runs as', async () => {
+      await signInAs('one', 'two')
+      await wrapper.find('[data-test="tab-account"]').setValue('token:one')
+
+      expect(wrapper.findComponent({ name: 'SchemaPanel' }).props('session')).toBe(authService.getAccount('token:one'))
+      expect(authService.getSession().userId).toBe('two')
+    })
+
+    it('should pick the project of the account the tab runs as', async () => {
+      await signInAs('one', 'two')
+      await wrapper.find('[data-test="tab-account"]').setValue('token:one')
+      const picker = wrapper.findComponent({ name: 'ProjectPicker' })
+
+      expect(picker.props('session')).toBe(authService.getAccount('token:one'))
+      picker.vm.$emit('update:context', { projectId: 'alpha' })
+      await flushPromises()
+
+      expect(authService.getAccount('token:one')!.projectId).toBe('alpha')
+      expect(authService.getSession().projectId).toBeNull()
+      expect(picker.props('context')).toMatchObject({ projectId: 'alpha' })
+    })
+
+    it('should leave no account active after signing out of the active one', async () => {
+      await signInAs('one', 'two')
+
+      await wrapper.find('[data-test="sign-out-button"]').trigger('click')
+      await flushPromises()
+
+      expect(authService.listAccounts().map((a) => a.accountId)).toEqual(['token:one'])
+      expect(authService.getSession().hasCredentials()).toBe(false)
+      const select = wrapper.find('[data-test="account-select"]')
+      expect((select.element as HTMLSelectElement).value).toBe('')
+      await select.setValue('token:one')
+      expect(authService.getSession().userId).toBe('one')
+    })
+
+    it('should refuse to run a tab whose account signed out until another is chosen', async () => {
+      await signInAs('one', 'two')
+      const tabAccount = () => wrapper.find('[data-test="tab-account"]')
+      await tabAccount().setValue('token:one')
+      const editor = () => wrapper.findComponent({ name: 'QueryEditor' })
+
+      await wrapper.findComponent({ name: 'AccountSwitcher' }).vm.$emit('sign-out', 'token:one')
+      await flushPromises()
+      await editor().vm.$emit('update:modelValue', 'SELECT 1')
+      await editor().vm.$emit('execute')
+      await flushPromises()
+
+      expect(wrapper.find('[data-test="loading-indicator"]').exists()).toBe(false)
+      expect(wrapper.findComponent({ name: 'ResultsPanel' }).props('error'))
+        .toBe('This tab runs as token:one, which is signed out. Choose an account for it.')
+      expect((tabAccount().element as HTMLSelectElement).value).toBe('token:one')
+      expect(authService.getSession().userId).toBe('two')
+
+      expect(editor().props('session').hasCredentials()).toBe(false)
+
+      await tabAccount().setValue('token:two')
+      expect(editor().props('session')).toBe(authService.getAccount('token:two'))
+    })
+
+    it('should sign out of all accounts', async () => {
+      await signInAs('one', 'two')
+
+      await wrapper.find('[data-test="sign-out-all-button"]').trigger('click')
+      await flushPromises()
+
+      expect(authService.listAccounts()).toEqual([])
+      expect(wrapper.find('[data-test="sign-in-button"]').exists()).toBe(true)
+    })
+  })
+
+  describe('Re-authentication', () => {
+    const expireSession = async (provider = 'google') => {
+      await authService.signInWithToken({ provider, accessToken: 'expired-token', expiresIn: -1 })
+      await expect(authService.refreshToken()).rejects.toThrow()
+      await nextTick()
+    }
+
+    afterEach(() => {
+      authService.signOut()
+      vi.restoreAllMocks()
+    })
+
+    it('should prompt to sign in again when the token cannot be refreshed', async () => {
+      await expireSession()
+
+      expect(wrapper.find('[data-test="reauth-prompt"]').text()).toContain('Your session has expired')
+    })
+
+    it('should renew the Google token from the click and hide the prompt', async () => {
+      await expireSession()
+      const refresh = vi.spyOn(authService, 'refreshToken').mockImplementation(async (session) => session!)
+
+      await wrapper.find('[data-test="reauth-sign-in"]').trigger('click')
+      await flushPromises()
+
+      expect(refresh).toHaveBeenCalledWith(authService.getSession(), { userGesture: true })
+      expect(wrapper.find('[data-test="reauth-prompt"]').exists()).toBe(false)
+    })
+
+    it('should ask to renew a Google token shortly before it expires', async () => {
+      vi.useFakeTimers()
+      await authService.signInWithToken({ provider: 'google', accessToken: 'google-token', expiresIn: 600 })
+
+      await vi.advanceTimersByTimeAsync(600 * 1000)
+      vi.useRealTimers()
+
+      expect(wrapper.find('[data-test="reauth-prompt"]').text()).toContain('expires in a few minutes')
+    })
+
+    it('should keep the prompt when signing in again fails', async () => {
+      await expireSession()
+      vi.spyOn(authService, 'refreshToken').mockRejectedValue(new Error('popup closed'))
+
+      await wrapper.find('[data-test="reauth-sign-in"]').trigger('click')
+      await flushPromises()
+
+      expect(wrapper.find('[data-test="reauth-prompt"]').exists()).toBe(true)
+    })
+
+    it('should ask for the credentials of other sign-in methods again', async () => {
+      await expireSession('service-account')
+
+      await wrapper.find('[data-test="reauth-sign-in"]').trigger('click')
+
+      expect(wrapper.find('[data-test="sign-in-dialog"]').exists()).toBe(true)
+      expect((wrapper.find('[data-test="sign-in-method-service-account"]').element as HTMLInputElement).checked).toBe(true)
+    })
+
+    it('should renew the account whose token expired rather than the active one', async () => {
+      await authService.signInWithToken({ provider: 'google', userId: 'g1', accessToken: 'expired-token', expiresIn: -1 })
+      await authService.signInWithToken({ userId: 'two', accessToken: 'token' })
+      const expired = authService.getAccount('google:g1')!
+      await expect(authService.refreshToken(expired)).rejects.toThrow()
+      await nextTick()
+      const refresh = vi.spyOn(authService, 'refreshToken').mockImplementation(async (session) => session!)
+
+      await wrapper.find('[data-test="reauth-sign-in"]').trigger('click')
+      await flushPromises()
+
+      expect(refresh).toHaveBeenCalledWith(expired, { userGesture: true })
+      expect(authService.getSession().userId).toBe('two')
+      authService.signOutAll()
+    })
+
+    it('should sign in again to the expired account through the dialog', async () => {
+      await authService.signInWithToken({ provider: 'service-account', userId: 'ci', accessToken: 'old', expiresIn: -1 })
+      await authService.signInWithToken({ userId: 'two', accessToken: 'token' })
+      await expect(authService.refreshToken(authService.getAccount('service-account:ci'))).rejects.toThrow()
+      await nextTick()
+
+      await wrapper.find('[data-test="reauth-sign-in"]').trigger('click')
+
+      expect(wrapper.findComponent({ name: 'SignInDialog' }).props('account')).toBe('service-account:ci')
+      authService.signOutAll()
+    })
+
+    it('should dismiss the prompt', async () => {
+      await expireSession()
+
+      await wrapper.find('[data-test="reauth-dismiss"]').trigger('click')
+
+      expect(wrapper.find('[data-test="reauth-prompt"]').exists()).toBe(false)
+    })
+  })
+
+  describe('Keymap', () => {
+    const openHelp = async () => {
+      await wrapper.trigger('keydown', { key: '/', code: 'Slash', altKey: true })
+    }
+
+    afterEach(() => {
+      resetAllKeybindings()
+    })
+
+    it('should list the commands and their bindings in the help', async () => {
+      await openHelp()
+
+      expect(wrapper.find('[data-test="shortcut-panels.toggleResults"]').text()).toContain('Alt+R')
+      expect(wrapper.find('[data-test="shortcut-query.estimate"]').text()).toContain('Ctrl+Shift+E')
+      expect(wrapper.find('[data-test="keyboard-help"]').text()).toContain('Format Query (in the editor)')
+    })
+
+    it('should ship default bindings the editor does not use', async () => {
+      const editorBindings = EDITOR_KEYBINDINGS.map(({ binding }) => normalizeBinding(binding))
+      const defaults = getCommands().map((command) => command.defaultBinding).filter((binding) => binding !== null)
+
+      expect(defaults.filter((binding) => editorBindings.includes(normalizeBinding(binding)))).toEqual([])
+      await openHelp()
+      expect(wrapper.find('[data-test^="conflict-"]').exists()).toBe(false)
+    })
+
+    it('should point out bindings the editor also uses', async () => {
+      await openHelp()
+      await wrapper.find('[data-test="rebind-panels.toggleHistory"]').trigger('click')
+      await wrapper.trigger('keydown', { key: 'h', code: 'KeyH', ctrlKey: true })
+
+      expect(wrapper.find('[data-test="conflict-panels.toggleHistory"]').text()).toBe('Used by the editor for Replace')
+      expect(wrapper.find('[data-test="conflict-panels.toggleResults"]').exists()).toBe(false)
+    })
+
+    it('should rebind a command and persist the change', async () => {
+      await openHelp()
+      await wrapper.find('[data-test="rebind-panels.toggleResults"]').trigger('click')
+      await wrapper.trigger('keydown', { key: 'y', code: 'KeyY', altKey: true })
+
+      expect(wrapper.find('[data-test="shortcut-panels.toggleResults"]').text()).toContain('Alt+Y')
+      expect(authService.getSession().preferences.keybindings).toEqual({ 'panels.toggleResults': 'Alt+Y' })
+
+      await wrapper.trigger('keydown', { key: 'r', code: 'KeyR', altKey: true })
+      expect(wrapper.find('[data-test="results-panel"]').classes()).not.toContain('visible')
+      await wrapper.trigger('keydown', { key: 'y', code: 'KeyY', altKey: true })
+      expect(wrapper.find('[data-test="results-panel"]').classes()).toContain('visible')
+
+      await wrapper.find('[data-test="reset-panels.toggleResults"]').trigger('click')
+      expect(wrapper.find('[data-test="shortcut-panels.toggleResults"]').text()).toContain('Alt+R')
+      expect(authService.getSession().preferences.keybindings).toEqual({})
+    })
+
+    it('should report commands sharing a binding', async () => {
+      await openHelp()
+      await wrapper.find('[data-test="rebind-panels.toggleSchema"]').trigger('click')
+      await wrapper.trigger('keydown', { key: 't', code: 'KeyT', altKey: true })
+
+      expect(wrapper.find('[data-test="conflict-panels.toggleSchema"]').text()).toBe('Also bound to New Editor Tab')
+      expect(wrapper.find('[data-test="conflict-tabs.new"]').text()).toBe('Also bound to Toggle Schema Panel')
+    })
+
+    it('should cancel recording with Escape', async () => {
+      await openHelp()
+      await wrapper.find('[data-test="rebind-query.execute"]').trigger('click')
+      expect(wrapper.find('[data-test="shortcut-query.execute"]').text()).toContain('Press keys')
+
+      await wrapper.trigger('keydown', { key: 'Escape' })
+
+      expect(wrapper.find('[data-test="keyboard-help"]').exists()).toBe(true)
+      expect(wrapper.find('[data-test="shortcut-query.execute"]').text()).toContain('Ctrl+E')
+      expect(wrapper.find('[data-test="reset-keybindings"]').attributes('disabled')).toBeDefined()
+    })
+  })
+
   describe('Panel Management', () => {
     it('should maintain independent panel states', async () => {
       // Open results and schema panels
-      await wrapper.trigger('keydown', { key: 'r', ctrlKey: true })
-      await wrapper.trigger('keydown', { key: 's', ctrlKey: true })
+      await wrapper.trigger('keydown', { key: 'r', code: 'KeyR', altKey: true })
+      await wrapper.trigger('keydown', { key: 's', code: 'KeyS', altKey: true })
       await nextTick()
 
       expect(wrapper.find('[data-test="results-panel"]').classes()).toContain('visible')
@@ -168,7 +620,7 @@ describe('PanelManager', () => {
       expect(wrapper.find('[data-test="settings-panel"]').classes()).not.toContain('visible')
 
       // Close only results panel
-      await wrapper.trigger('keydown', { key: 'r', ctrlKey: true })
+      await wrapper.trigger('keydown', { key: 'r', code: 'KeyR', altKey: true })
       await nextTick()
 
       expect(wrapper.find('[data-test="results-panel"]').classes()).not.toContain('visible')
@@ -178,7 +630,7 @@ describe('PanelManager', () => {
 
     it('should have close buttons for each panel', async () => {
       // Open a panel
-      await wrapper.trigger('keydown', { key: 'r', ctrlKey: true })
+      await wrapper.trigger('keydown', { key: 'r', code: 'KeyR', altKey: true })
       await nextTick()
 
       const closeButton = wrapper.find('[data-test="close-results"]')
@@ -208,6 +660,44 @@ describe('PanelManager', () => {
       expect(wrapper.find('[data-test="results-panel"]').classes()).toContain('visible')
     })
 
+    it('should load the first window of results at the configured page size', async () => {
+      await wrapper.trigger('keydown', { key: ',', ctrlKey: true })
+      const settingsPanel = wrapper.findComponent({ name: 'SettingsPanel' })
+      await settingsPanel.vm.$emit('update:settings', { ...settingsPanel.props('settings'), pageSize: 50 })
+      await wrapper.findComponent({ name: 'QueryEditor' }).vm.$emit('update:modelValue', 'SELECT * FROM numbers')
+
+      await wrapper.trigger('keydown', { key: 'e', ctrlKey: true })
+      await flushPromises()
+
+      expect(executeQuery).toHaveBeenLastCalledWith(expect.anything(), expect.anything(),
+        expect.objectContaining({ maxResults: 50 }))
+      expect(wrapper.findComponent({ name: 'ResultsPanel' }).props('pageSize')).toBe(50)
+    })
+
+    it('should keep the loaded rows when another window fails to load', async () => {
+      await wrapper.findComponent({ name: 'QueryEditor' }).vm.$emit('update:modelValue', 'SELECT * FROM numbers')
+      await wrapper.trigger('keydown', { key: 'e', ctrlKey: true })
+      await new Promise(resolve => setTimeout(resolve, 200))
+      await flushPromises()
+
+      const resultsPanel = wrapper.findComponent({ name: 'ResultsPanel' })
+      vi.mocked(fetchResultsPage).mockRejectedValueOnce(new Error('Backend error'))
+      await resultsPanel.vm.$emit('request-rows', { startIndex: 3, maxResults: 3 })
+      await flushPromises()
+
+      expect(resultsPanel.props('results')).toEqual([{ n: 1 }, { n: 2 }, { n: 3 }])
+      expect(resultsPanel.props('error')).toBeNull()
+      expect(resultsPanel.props('pageError')).toBe('Backend error')
+
+      vi.mocked(fetchResultsPage).mockResolvedValueOnce({ rows: [{ n: 4 }], schema: [{ name: 'n', type: 'number' }], totalRows: 4 })
+      await resultsPanel.vm.$emit('request-rows', { startIndex: 3, maxResults: 3 })
+      await flushPromises()
+
+      expect(resultsPanel.props('results')).toEqual([{ n: 4 }])
+      expect(resultsPanel.props('rowOffset')).toBe(3)
+      expect(resultsPanel.props('pageError')).toBeNull()
+    })
+
     it('should show loading state during query execution', async () => {
       // Set a query value first
       const queryEditor = wrapper.findComponent({ name: 'QueryEditor' })
@@ -232,6 +722,80 @@ describe('PanelManager', () => {
       expect(wrapper.find('[data-test="results-table"]').exists()).toBe(true)
       expect(wrapper.find('[data-test="loading-indicator"]').exists()).toBe(false)
     })
+    it('should pass rows, schema and jobId from queryService to the results panel', async () => {
+      const queryEditor = wrapper.findComponent({ name: 'QueryEditor' })
+      await queryEditor.vm.$emit('update:modelValue', 'SELECT * FROM numbers')
+      await nextTick()
+
+      await wrapper.trigger('keydown', { key: 'e', ctrlKey: true })
+      // Unauthenticated sessions run through the service's local mock (~100ms)
+      await new Promise(resolve => setTimeout(resolve, 200))
+      await nextTick()
+
+      const resultsPanel = wrapper.findComponent({ name: 'ResultsPanel' })
+      expect(resultsPanel.props('results')).toEqual([{ n: 1 }, { n: 2 }, { n: 3 }])
+      expect(resultsPanel.props('schema')).toEqual([{ name: 'n', type: 'number' }])
+      expect(resultsPanel.props('jobId')).toMatch(/^local-/)
+      expect(resultsPanel.props('error')).toBeNull()
+    })
+
+    it('should cancel the running query with Alt+.', async () => {
+      const queryEditor = wrapper.findComponent({ name: 'QueryEditor' })
+      await queryEditor.vm.$emit('update:modelValue', 'SELECT 1')
+      await nextTick()
+
+      await wrapper.trigger('keydown', { key: 'e', ctrlKey: true })
+      await nextTick()
+      expect(wrapper.find('[data-test="loading-indicator"]').exists()).toBe(true)
+
+      await wrapper.trigger('keydown', { key: '.', code: 'Period', altKey: true })
+      await new Promise(resolve => setTimeout(resolve, 0))
+      await nextTick()
+
+      expect(wrapper.find('[data-test="loading-indicator"]').exists()).toBe(false)
+      expect(wrapper.findComponent({ name: 'ResultsPanel' }).props('error')).toBe('Query cancelled')
+    })
+
+    it('should show a dry-run estimate with Ctrl+Shift+E', async () => {
+      const queryEditor = wrapper.findComponent({ name: 'QueryEditor' })
+      await queryEditor.vm.$emit('update:modelValue', 'SELECT 1')
+      await nextTick()
+
+      await wrapper.trigger('keydown', { key: 'E', ctrlKey: true, shiftKey: true })
+      await new Promise(resolve => setTimeout(resolve, 0))
+      await nextTick()
+
+      expect(wrapper.find('[data-test="estimate-status"]').text()).toBe('This query will process 0 B')
+    })
+
+    it('should export the whole result of the active tab', async () => {
+      const createObjectURL = vi.fn((_blob: Blob) => 'blob:export')
+      Object.assign(URL, { createObjectURL, revokeObjectURL: vi.fn() })
+      const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {})
+      vi.spyOn(console, 'info').mockImplementation(() => {})
+
+      const queryEditor = wrapper.findComponent({ name: 'QueryEditor' })
+      await queryEditor.vm.$emit('update:modelValue', 'SELECT * FROM numbers')
+      await wrapper.trigger('keydown', { key: 'e', ctrlKey: true })
+      await new Promise(resolve => setTimeout(resolve, 200))
+
+      const resultsPanel = wrapper.findComponent({ name: 'ResultsPanel' })
+      resultsPanel.vm.$emit('export', { format: 'csv', nested: 'flatten' })
+      await flushPromises()
+
+      expect(click).toHaveBeenCalledTimes(1)
+      expect(createObjectURL.mock.calls[0][0].type).toBe('text/csv')
+      expect(resultsPanel.props('exportStatus')).toBe('Exported 3 rows')
+      expect(resultsPanel.props('exporting')).toBe(false)
+      vi.restoreAllMocks()
+    })
+
+    it('should not execute an empty query', async () => {
+      await wrapper.trigger('keydown', { key: 'e', ctrlKey: true })
+      await nextTick()
+
+      expect(wrapper.find('[data-test="results-panel"]').classes()).not.toContain('visible')
+    })
   })
 
   describe('Accessibility', () => {
@@ -241,7 +805,7 @@ describe('PanelManager', () => {
 
     it('should handle keyboard events when focused', async () => {
       // Test that keyboard events are handled by triggering one and verifying behavior
-      await wrapper.find('.panel-manager').trigger('keydown', { key: 'r', ctrlKey: true })
+      await wrapper.find('.panel-manager').trigger('keydown', { key: 'r', code: 'KeyR', altKey: true })
       await nextTick()
 
       // Verify the keyboard event had an effect (results panel should be visible)
@@ -249,6 +813,177 @@ describe('PanelManager', () => {
     })
   })
 
+  describe('Panel Layout', () => {
+    const panelsIn = (w: ReturnType<typeof mount>, dock: string) =>
+      w.findAll(`[data-test="dock-${dock}"] > .panel`).map((p) => p.attributes('data-test'))
+
+    it('should render panels in their docks, in layout order, and reorder them', async () => {
+      expect(panelsIn(wrapper, 'left')).toEqual(['schema-panel', 'saved-queries-panel', 'history-panel'])
+      expect(panelsIn(wrapper, 'right')).toEqual(['settings-panel'])
+      expect(panelsIn(wrapper, 'bottom')).toEqual(['results-panel', 'console-panel'])
+      expect(wrapper.find('[data-test="move-schema-left"]').attributes('disabled')).toBeDefined()
+
+      await wrapper.find('[data-test="move-schema-right"]').trigger('click')
+      await wrapper.find('[data-test="move-history-left"]').trigger('click')
+
+      expect(panelsIn(wrapper, 'left')).toEqual(['saved-queries-panel', 'history-panel', 'schema-panel'])
+    })
+
+    it('should only give space to docks with open panels', async () => {
+      const dock = () => wrapper.find('[data-test="dock-left"]')
+      expect(dock().classes()).toContain('empty')
+      expect(wrapper.find('[data-test="workspace"]').attributes('style')).toContain('grid-template-columns: 0px 0px')
+
+      await wrapper.trigger('keydown', { key: 's', code: 'KeyS', altKey: true })
+
+      expect(dock().classes()).not.toContain('empty')
+      expect(wrapper.find('[data-test="workspace"]').attributes('style')).toContain('grid-template-columns: 25% auto')
+    })
+
+    it('should move a panel to another dock', async () => {
+      await wrapper.find('[data-test="dock-select-results"]').setValue('right')
+
+      expect(panelsIn(wrapper, 'right')).toEqual(['results-panel', 'settings-panel'])
+      expect(panelsIn(wrapper, 'bottom')).toEqual(['console-panel'])
+    })
+
+    it('should resize and collapse docks with the splitters', async () => {
+      await wrapper.trigger('keydown', { key: 'r', code: 'KeyR', altKey: true })
+      const splitter = wrapper.find('[data-test="splitter-bottom"]')
+
+      await splitter.trigger('keydown', { key: 'ArrowUp' })
+      expect(wrapper.find('[data-test="workspace"]').attributes('style')).toContain('grid-template-rows: minmax(0, 1fr) auto 42%')
+
+      await splitter.trigger('keydown', { key: 'Home' })
+      expect(wrapper.find('[data-test="dock-bottom"]').classes()).toContain('collapsed')
+      // Splitter keys do not reach the app shortcuts
+      expect(wrapper.find('[data-test="results-panel"]').classes()).toContain('visible')
+    })
+
+    it('should persist the layout', async () => {
+      vi.mocked(localStorage.setItem).mockClear()
+      await wrapper.trigger('keydown', { key: 's', code: 'KeyS', altKey: true })
+      await nextTick()
+
+      const call = vi.mocked(localStorage.setItem).mock.calls.find(([key]) => key === 'smolquery.panelLayout')
+      const saved = JSON.parse(call![1])
+      expect(saved.panels.find((p: { type: string }) => p.type === 'schema')).toMatchObject({ open: true, order: 1 })
+      expect(saved.sizes).toEqual({ left: 25, right: 25, bottom: 40 })
+    })
+
+    it('should restore a saved layout', () => {
+      const stored = JSON.stringify({
+        panels: [
+          { id: 'history', type: 'history', open: true, order: 0, dock: 'bottom' },
+          { id: 'results', type: 'results', open: false, order: 1, dock: 'bottom' }
+        ],
+        sizes: { bottom: 60 }
+      })
+      vi.mocked(localStorage.getItem).mockImplementation((key) => key === 'smolquery.panelLayout' ? stored : null)
+      const restored = mount(PanelManager)
+      vi.mocked(localStorage.getItem).mockReset()
+
+      expect(panelsIn(restored, 'bottom')).toEqual(['history-panel', 'results-panel', 'console-panel'])
+      expect(restored.find('[data-test="history-panel"]').classes()).toContain('visible')
+      expect(restored.find('[data-test="workspace"]').attributes('style')).toContain('auto 60%')
+      restored.unmount()
+    })
+  })
+
+  describe('Editor Tabs', () => {
+    const tabButtons = () => wrapper.findAll('[role="tab"]')
+    const editor = () => wrapper.findComponent({ name: 'QueryEditor' })
+
+    it('should open, cycle and close tabs with Alt shortcuts', async () => {
+      expect(tabButtons()).toHaveLength(1)
+      await editor().vm.$emit('update:modelValue', 'SELECT 1')
+
+      await wrapper.trigger('keydown', { key: 't', code: 'KeyT', altKey: true })
+      expect(tabButtons()).toHaveLength(2)
+      expect(editor().props('modelValue')).toBe('')
+      await editor().vm.$emit('update:modelValue', 'SELECT 2')
+
+      await wrapper.trigger('keydown', { key: 'PageDown', code: 'PageDown', altKey: true })
+      expect(editor().props('modelValue')).toBe('SELECT 1')
+      await wrapper.trigger('keydown', { key: 'PageUp', code: 'PageUp', altKey: true })
+      expect(editor().props('modelValue')).toBe('SELECT 2')
+
+      await wrapper.trigger('keydown', { key: 'w', code: 'KeyW', altKey: true })
+      expect(tabButtons()).toHaveLength(1)
+      expect(editor().props('modelValue')).toBe('SELECT 1')
+    })
+
+    it('should keep results per tab and leave other tabs editable while one runs', async () => {
+      await editor().vm.$emit('update:modelValue', 'SELECT * FROM numbers')
+      await wrapper.trigger('keydown', { key: 'e', ctrlKey: true })
+      await nextTick()
+      expect(wrapper.find('[data-test="loading-indicator"]').exists()).toBe(true)
+
+      await wrapper.find('[data-test="new-tab"]').trigger('click')
+      expect(wrapper.find('[data-test="loading-indicator"]').exists()).toBe(false)
+      await editor().vm.$emit('update:modelValue', 'SELECT 2')
+      expect(editor().props('modelValue')).toBe('SELECT 2')
+
+      await new Promise(resolve => setTimeout(resolve, 200))
+      expect(wrapper.findComponent({ name: 'ResultsPanel' }).props('results')).toEqual([])
+
+      await tabButtons()[0].trigger('click')
+      expect(wrapper.findComponent({ name: 'ResultsPanel' }).props('results')).toEqual([{ n: 1 }, { n: 2 }, { n: 3 }])
+    })
+
+    it('should leave a fresh tab when the last one is closed', async () => {
+      await editor().vm.$emit('update:modelValue', 'SELECT 1')
+      await wrapper.find('[data-test="close-tab"]').trigger('click')
+
+      expect(tabButtons()).toHaveLength(1)
+      expect(editor().props('modelValue')).toBe('')
+    })
+
+    it('should restore tabs and the active tab from localStorage', async () => {
+      const stored = JSON.stringify({
+        tabs: [
+          { id: 'tab-a', query: { id: 'q-a', sql: 'SELECT 1' } },
+          { id: 'tab-b', query: { id: 'q-b', sql: 'SELECT 2', name: 'Second' } }
+        ],
+        activeTabId: 'tab-b'
+      })
+      vi.mocked(localStorage.getItem).mockImplementation((key) => key === 'smolquery.editorSession' ? stored : null)
+      const restored = mount(PanelManager)
+      vi.mocked(localStorage.getItem).mockReset()
+
+      expect(restored.findAll('[role="tab"]').map((t) => t.text())).toEqual(['SELECT 1×', 'Second×'])
+      expect(restored.findComponent({ name: 'QueryEditor' }).props('modelValue')).toBe('SELECT 2')
+      restored.unmount()
+    })
+
+    it('should restore a history entry into the tab of its query', async () => {
+      const history = wrapper.findComponent({ name: 'HistoryPanel' })
+      const runId = history.props('currentQueryId')
+      await editor().vm.$emit('update:modelValue', 'SELECT 2')
+      await wrapper.find('[data-test="new-tab"]').trigger('click')
+
+      await history.vm.$emit('restore', { queryId: runId, sql: 'SELECT 1' })
+      expect(tabButtons()).toHaveLength(2)
+      expect(editor().props('modelValue')).toBe('SELECT 1')
+      expect(history.props('currentQueryId')).toBe(runId)
+
+      await history.vm.$emit('restore', { queryId: 'closed-query', queryName: 'Old', sql: 'SELECT 3' })
+      expect(tabButtons()).toHaveLength(3)
+      expect(editor().props('modelValue')).toBe('SELECT 3')
+    })
+
+    it('should persist tab changes', async () => {
+      vi.mocked(localStorage.setItem).mockClear()
+      await editor().vm.$emit('update:modelValue', 'SELECT 1')
+      await nextTick()
+
+      const calls = vi.mocked(localStorage.setItem).mock.calls
+      const [key, value] = calls[calls.length - 1]
+      expect(key).toBe('smolquery.editorSession')
+      expect(JSON.parse(value).tabs[0].query.sql).toBe('SELECT 1')
+    })
+  })
+
   describe('Integration', () => {
     it('should render query editor always', () => {
       expect(wrapper.find('[data-test="query-editor"]').exists()).toBe(true)
@@ -265,5 +1000,15 @@ describe('PanelManager', () => {
       // The actual settings updates would be handled by the SettingsPanel component
       // which emits update:settings events that the parent component handles
     })
+
+    it('should open a saved query in the editor', async () => {
+      const saved = new Query({ id: 'saved-1', name: 'Daily', sql: 'SELECT 42' })
+      const panel = wrapper.findComponent({ name: 'SavedQueriesPanel' })
+      await panel.vm.$emit('open', saved)
+      await nextTick()
+
+      expect(wrapper.findComponent({ name: 'QueryEditor' }).props('modelValue')).toBe('SELECT 42')
+      expect(panel.props('currentId')).toBe('saved-1')
+    })
   })
 })
\ No newline at end of file
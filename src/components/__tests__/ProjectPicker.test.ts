@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { mount, flushPromises } from '@vue/test-utils'
+import ProjectPicker from '../ProjectPicker.vue'
+import UserSession from '../../models/UserSession'
+import schemaService from '../../services/schemaService'
+
+vi.mock('../../services/schemaService', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../services/schemaService')>()
+  return {
+    ...actual,
+    default: {
+      listProjects: vi.fn(),
+      listDatasets: vi.fn()
+    }
+  }
+})
+
+const session = new UserSession({ accessToken: 'token' })
+const context = (patch: Record<string, string | null> = {}) =>
+  ({ projectId: 'alpha', datasetId: null, location: null, ...patch })
+
+describe('ProjectPicker', () => {
+  beforeEach(() => {
+    vi.mocked(schemaService.listProjects).mockReset().mockResolvedValue([
+      { id: 'alpha', name: 'Alpha' },
+      { id: 'beta' }
+    ])
+    vi.mocked(schemaService.listDatasets).mockReset().mockResolvedValue([
+      { projectId: 'alpha', datasetId: 'sales', location: 'EU' },
+      { projectId: 'alpha', datasetId: 'logs' }
+    ])
+  })
+
+  it('is hidden without an authenticated session', () => {
+    const wrapper = mount(ProjectPicker, { props: { session: new UserSession() } })
+    expect(wrapper.find('[data-test="project-picker"]').exists()).toBe(false)
+    expect(schemaService.listProjects).not.toHaveBeenCalled()
+  })
+
+  it('lists the accessible projects and emits the chosen one', async () => {
+    const wrapper = mount(ProjectPicker, { props: { session, context: context() } })
+    await flushPromises()
+
+    const select = wrapper.find('[data-test="project-select"]')
+    expect(select.findAll('option').map((o) => o.text())).toEqual(['Choose a project', 'Alpha (alpha)', 'beta'])
+    expect((select.element as HTMLSelectElement).value).toBe('alpha')
+
+    await select.setValue('beta')
+    expect(wrapper.emitted('update:context')).toEqual([[{ projectId: 'beta' }]])
+  })
+
+  it('keeps a selected project that is not listed and shows listing errors', async () => {
+    vi.mocked(schemaService.listProjects).mockRejectedValue(new Error('Failed to list projects: denied'))
+    const wrapper = mount(ProjectPicker, { props: { session, context: context({ projectId: 'private' }) } })
+    await flushPromises()
+
+    expect((wrapper.find('[data-test="project-select"]').element as HTMLSelectElement).value).toBe('private')
+    expect(wrapper.find('[data-test="project-error"]').text()).toBe('Failed to list projects: denied')
+  })
+
+  it('suggests datasets of the project and takes the location of a listed one', async () => {
+    const wrapper = mount(ProjectPicker, { props: { session, context: context() } })
+    const input = wrapper.find('[data-test="dataset-input"]')
+    await input.trigger('focus')
+    await flushPromises()
+
+    expect(schemaService.listDatasets).toHaveBeenCalledWith(session, 'alpha')
+    expect(wrapper.findAll('#project-picker-datasets option').map((o) => o.attributes('value'))).toEqual(['sales', 'logs'])
+
+    await input.setValue('sales')
+    await input.setValue('other-project.events')
+    await input.setValue(' ')
+    expect(wrapper.emitted('update:context')).toEqual([
+      [{ datasetId: 'sales', location: 'EU' }],
+      [{ datasetId: 'other-project.events' }],
+      [{ datasetId: null }]
+    ])
+  })
+
+  it('emits the processing location, empty for automatic', async () => {
+    const wrapper = mount(ProjectPicker, { props: { session, context: context({ location: 'US' }) } })
+    const input = wrapper.find('[data-test="location-input"]')
+    expect((input.element as HTMLInputElement).value).toBe('US')
+
+    await input.setValue('europe-west1')
+    await input.setValue('')
+    expect(wrapper.emitted('update:context')).toEqual([[{ location: 'europe-west1' }], [{ location: null }]])
+  })
+})
@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest'
+import { mount } from '@vue/test-utils'
+import ResultsGrid from '../ResultsGrid.vue'
+import type { GridSelection } from '../ResultsGrid.vue'
+import { flattenColumns } from '../../utils/resultFormat'
+
+const columns = flattenColumns([
+  { name: 'id', type: 'INTEGER' },
+  { name: 'name', type: 'STRING' },
+  { name: 'city', type: 'STRING' }
+])
+
+function makeRows(n: number) {
+  return Array.from({ length: n }, (_, i) => ({ id: i, name: `name ${i}`, city: `city ${i}` }))
+}
+
+function mountGrid(props: Record<string, unknown> = {}) {
+  return mount(ResultsGrid, { props: { columns, rows: makeRows(5), ...props }, attachTo: document.body })
+}
+
+const headerKeys = (wrapper: ReturnType<typeof mountGrid>) =>
+  wrapper.findAll('[data-test="result-header"]').map((h) => h.text())
+
+const cellText = (wrapper: ReturnType<typeof mountGrid>, row: number) =>
+  wrapper.findAll('[data-test="result-row"]')[row].findAll('[data-test="result-cell"]').map((c) => c.text())
+
+const lastSelection = (wrapper: ReturnType<typeof mountGrid>) => {
+  const events = wrapper.emitted('update:selection') ?? []
+  return events[events.length - 1]?.[0] as GridSelection | null | undefined
+}
+
+describe('ResultsGrid', () => {
+  it('renders only the rows near the viewport', async () => {
+    const wrapper = mountGrid({ rows: makeRows(10000) })
+    const rows = wrapper.findAll('[data-test="result-row"]')
+    expect(rows.length).toBeLessThan(60)
+    expect(rows[0].findAll('[data-test="result-cell"]')[0].text()).toBe('0')
+
+    const viewport = wrapper.find('[data-test="results-table"]')
+    viewport.element.scrollTop = 28 * 5000
+    await viewport.trigger('scroll')
+
+    const ids = wrapper.findAll('[data-test="result-row"]').map((r) => Number(r.find('[data-test="result-cell"]').text()))
+    expect(ids).toContain(5000)
+    expect(ids.length).toBeLessThan(60)
+    wrapper.unmount()
+  })
+
+  it('renders only the columns near the viewport and keeps pinned ones', async () => {
+    const wide = flattenColumns(Array.from({ length: 100 }, (_, i) => ({ name: `c${i}`, type: 'STRING' })))
+    const row = Object.fromEntries(wide.map((c) => [c.key, c.key]))
+    const wrapper = mountGrid({ columns: wide, rows: [row] })
+    expect(headerKeys(wrapper).length).toBeLessThan(20)
+
+    await wrapper.find('[data-test="pin-c0"]').trigger('click')
+    const viewport = wrapper.find('[data-test="results-table"]')
+    viewport.element.scrollLeft = 160 * 50
+    await viewport.trigger('scroll')
+
+    const keys = headerKeys(wrapper)
+    expect(keys[0]).toBe('c0')
+    expect(keys).toContain('c55')
+    expect(keys).not.toContain('c10')
+    wrapper.unmount()
+  })
+
+  it('resizes columns by dragging or with the arrow keys', async () => {
+    const wrapper = mountGrid()
+    const handle = wrapper.find('[data-test="resize-name"]')
+
+    await handle.trigger('pointerdown', { button: 0, clientX: 300 })
+    window.dispatchEvent(new MouseEvent('pointermove', { clientX: 340 }))
+    window.dispatchEvent(new MouseEvent('pointerup'))
+    window.dispatchEvent(new MouseEvent('pointermove', { clientX: 900 }))
+    await wrapper.vm.$nextTick()
+    expect(handle.attributes('aria-valuenow')).toBe('200')
+
+    await handle.trigger('keydown', { key: 'ArrowLeft' })
+    expect(handle.attributes('aria-valuenow')).toBe('184')
+    // the city column now starts where the narrower name column ends
+    expect((wrapper.find('[data-test="grid-header-city"]').element as HTMLElement).style.left).toBe('344px')
+    wrapper.unmount()
+  })
+
+  it('pins columns to the left', async () => {
+    const wrapper = mountGrid()
+    await wrapper.find('[data-test="pin-city"]').trigger('click')
+
+    expect(headerKeys(wrapper)).toEqual(['city', 'id', 'name'])
+    const pinned = wrapper.find('[data-test="grid-header-city"]')
+    expect(pinned.classes()).toContain('pinned')
+    expect((pinned.element as HTMLElement).style.position).toBe('sticky')
+    expect(cellText(wrapper, 0)).toEqual(['city 0', '0', 'name 0'])
+
+    await wrapper.find('[data-test="pin-city"]').trigger('click')
+    expect(headerKeys(wrapper)).toEqual(['id', 'name', 'city'])
+    wrapper.unmount()
+  })
+
+  it('reorders columns by dragging headers', async () => {
+    const wrapper = mountGrid()
+    await wrapper.find('[data-test="grid-header-id"]').trigger('dragstart')
+    await wrapper.find('[data-test="grid-header-city"]').trigger('drop')
+    expect(headerKeys(wrapper)).toEqual(['name', 'city', 'id'])
+
+    await wrapper.find('[data-test="grid-header-city"]').trigger('dragstart')
+    await wrapper.find('[data-test="grid-header-name"]').trigger('drop')
+    expect(headerKeys(wrapper)).toEqual(['city', 'name', 'id'])
+    expect(cellText(wrapper, 1)).toEqual(['city 1', 'name 1', '1'])
+    wrapper.unmount()
+  })
+
+  it('selects ranges with the mouse and keyboard', async () => {
+    const wrapper = mountGrid({ rowOffset: 100 })
+    const grid = wrapper.find('[data-test="results-table"]')
+
+    await wrapper.findAll('[data-test="result-cell"]')[0].trigger('click')
+    expect(lastSelection(wrapper)).toEqual({ top: 100, bottom: 100, columnKeys: ['id'] })
+
+    await grid.trigger('keydown', { key: 'ArrowDown', shiftKey: true })
+    await grid.trigger('keydown', { key: 'ArrowRight', shiftKey: true })
+    expect(lastSelection(wrapper)).toEqual({ top: 100, bottom: 101, columnKeys: ['id', 'name'] })
+    expect(wrapper.findAll('[data-test="result-cell"].selected').length).toBe(4)
+
+    await grid.trigger('keydown', { key: 'End' })
+    expect(lastSelection(wrapper)).toEqual({ top: 101, bottom: 101, columnKeys: ['city'] })
+
+    await grid.trigger('keydown', { key: 'ArrowDown', ctrlKey: true })
+    expect(lastSelection(wrapper)).toEqual({ top: 104, bottom: 104, columnKeys: ['city'] })
+
+    await grid.trigger('keydown', { key: 'a', code: 'KeyA', ctrlKey: true })
+    expect(lastSelection(wrapper)).toEqual({ top: 100, bottom: 104, columnKeys: ['id', 'name', 'city'] })
+
+    await grid.trigger('keydown', { key: 'c', code: 'KeyC', ctrlKey: true })
+    expect(wrapper.emitted('copy')).toHaveLength(1)
+
+    await grid.trigger('keydown', { key: 'Escape' })
+    expect(lastSelection(wrapper)).toBeNull()
+    wrapper.unmount()
+  })
+
+  it('scrolls the focused cell into view', async () => {
+    const wrapper = mountGrid({ rows: makeRows(1000) })
+    const grid = wrapper.find('[data-test="results-table"]')
+    await wrapper.findAll('[data-test="result-cell"]')[0].trigger('click')
+
+    await grid.trigger('keydown', { key: 'PageDown' })
+    await grid.trigger('keydown', { key: 'PageDown' })
+    await grid.trigger('keydown', { key: 'End', ctrlKey: true })
+
+    expect(grid.element.scrollTop).toBeGreaterThan(28 * 900)
+    const ids = wrapper.findAll('[data-test="result-row"]').map((r) => r.find('[data-test="result-cell"]').text())
+    expect(ids).toContain('999')
+    expect(wrapper.find('.focused').text()).toBe('city 999')
+    wrapper.unmount()
+  })
+
+  it('clears the selection when the parent resets it', async () => {
+    const wrapper = mountGrid()
+    await wrapper.findAll('[data-test="result-cell"]')[0].trigger('click')
+    await wrapper.setProps({ selection: lastSelection(wrapper) })
+
+    await wrapper.setProps({ selection: null })
+    expect(wrapper.findAll('[data-test="result-cell"].selected').length).toBe(0)
+    wrapper.unmount()
+  })
+})
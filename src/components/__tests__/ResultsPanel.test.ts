@@ -0,0 +1,256 @@
+import { describe, it, expect, vi } from 'vitest'
+import { mount, flushPromises } from '@vue/test-utils'
+import ResultsPanel from '../ResultsPanel.vue'
+import ResultsGrid from '../ResultsGrid.vue'
+
+const schema = [
+  { name: 'id', type: 'INTEGER' },
+  { name: 'name', type: 'STRING' },
+  { name: 'created_at', type: 'TIMESTAMP' }
+]
+
+function makeRows(n: number) {
+  return Array.from({ length: n }, (_, i) => ({
+    id: i + 1,
+    name: i % 2 ? null : `row ${i + 1}`,
+    created_at: '2024-01-01T00:00:00.000Z'
+  }))
+}
+
+describe('ResultsPanel', () => {
+  it('renders headers and cells from the schema', () => {
+    const wrapper = mount(ResultsPanel, { props: { results: makeRows(2), schema } })
+
+    const headers = wrapper.findAll('[data-test="result-header"]').map((h) => h.text())
+    expect(headers).toEqual(['id', 'name', 'created_at'])
+
+    const firstRow = wrapper.findAll('[data-test="result-row"]')[0].findAll('[data-test="result-cell"]')
+    expect(firstRow[0].text()).toBe('1')
+    expect(firstRow[1].text()).toBe('row 1')
+    expect(firstRow[2].text()).toBe(new Date('2024-01-01T00:00:00.000Z').toLocaleString())
+  })
+
+  it('right-aligns numeric columns and marks NULL cells', () => {
+    const wrapper = mount(ResultsPanel, { props: { results: makeRows(2), schema } })
+
+    const secondRow = wrapper.findAll('[data-test="result-row"]')[1].findAll('[data-test="result-cell"]')
+    expect(secondRow[0].classes()).toContain('numeric')
+    expect(secondRow[1].classes()).toContain('null-cell')
+    expect(secondRow[1].text()).toBe('NULL')
+  })
+
+  it('falls back to row keys when no schema is given', () => {
+    const wrapper = mount(ResultsPanel, { props: { results: [{ a: 1, b: 'x' }] } })
+    const headers = wrapper.findAll('[data-test="result-header"]').map((h) => h.text())
+    expect(headers).toEqual(['a', 'b'])
+  })
+
+  it('scrolls through every loaded row instead of paging them', () => {
+    const wrapper = mount(ResultsPanel, { props: { results: makeRows(1500), schema, totalRows: 1500 } })
+
+    expect(wrapper.findComponent(ResultsGrid).props('rows')).toHaveLength(1500)
+    expect(wrapper.find('[data-test="pagination"]').exists()).toBe(false)
+  })
+
+  it('shows the error instead of the table', () => {
+    const wrapper = mount(ResultsPanel, { props: { results: [], error: 'Boom' } })
+    expect(wrapper.find('[data-test="results-error"]').text()).toBe('Boom')
+    expect(wrapper.find('[data-test="results-table"]').exists()).toBe(false)
+  })
+
+  it('emits cancel from the loading state', async () => {
+    const wrapper = mount(ResultsPanel, { props: { loading: true } })
+    await wrapper.find('[data-test="cancel-query"]').trigger('click')
+    expect(wrapper.emitted('cancel')).toHaveLength(1)
+  })
+
+  it('requests the windows of rows before and after the loaded one', async () => {
+    const wrapper = mount(ResultsPanel, {
+      props: { results: makeRows(20), schema, pageSize: 20, totalRows: 45 }
+    })
+    expect(wrapper.find('[data-test="page-info"]').text()).toBe('1–20 of 45')
+    expect(wrapper.find('[data-test="prev-page"]').attributes('disabled')).toBeDefined()
+
+    await wrapper.find('[data-test="next-page"]').trigger('click')
+    expect(wrapper.find('[data-test="page-loading"]').exists()).toBe(true)
+    expect(wrapper.emitted('request-rows')).toEqual([[{ startIndex: 20, maxResults: 20 }]])
+
+    await wrapper.setProps({ results: makeRows(20), rowOffset: 20 })
+    expect(wrapper.find('[data-test="page-info"]').text()).toBe('21–40 of 45')
+    expect(wrapper.findComponent(ResultsGrid).props('rowOffset')).toBe(20)
+    expect(wrapper.find('[data-test="page-loading"]').exists()).toBe(false)
+
+    await wrapper.find('[data-test="prev-page"]').trigger('click')
+    expect(wrapper.emitted('request-rows')?.[1]).toEqual([{ startIndex: 0, maxResults: 20 }])
+  })
+
+
+  it('shows a failed window next to the pager and keeps the loaded rows', async () => {
+    const wrapper = mount(ResultsPanel, {
+      props: { results: makeRows(20), schema, pageSize: 20, totalRows: 45 }
+    })
+    await wrapper.find('[data-test="next-page"]').trigger('click')
+    await wrapper.setProps({ pageError: 'Backend error' })
+
+    expect(wrapper.find('[data-test="results-error"]').exists()).toBe(false)
+    expect(wrapper.find('[data-test="page-error"]').text()).toBe('Backend error')
+    expect(wrapper.find('[data-test="page-info"]').text()).toBe('1–20 of 45')
+
+    // The pager is usable again for a retry
+    await wrapper.find('[data-test="next-page"]').trigger('click')
+    expect(wrapper.emitted('request-rows')).toEqual([
+      [{ startIndex: 20, maxResults: 20 }],
+      [{ startIndex: 20, maxResults: 20 }]
+    ])
+  })
+  it('shows nested record fields as their own columns', () => {
+    const nestedSchema = [
+      { name: 'id', type: 'INT64' },
+      { name: 'address', type: 'RECORD', fields: [{ name: 'city', type: 'STRING' }] },
+      { name: 'scores', type: 'INT64', mode: 'REPEATED' }
+    ]
+    const wrapper = mount(ResultsPanel, {
+      props: { results: [{ id: 1, address: { city: 'Oslo' }, scores: [1, 2] }], schema: nestedSchema }
+    })
+
+    const headers = wrapper.findAll('[data-test="result-header"]')
+    expect(headers.map((h) => h.text())).toEqual(['id', 'address.city', 'scores'])
+    expect(headers[2].attributes('title')).toBe('ARRAY<INT64>')
+
+    const cells = wrapper.findAll('[data-test="result-cell"]')
+    expect(cells.map((c) => c.text())).toEqual(['1', 'Oslo', '[1,2]'])
+    expect(cells[2].classes()).not.toContain('numeric')
+  })
+
+  it('emits export with the chosen format and nested policy', async () => {
+    const wrapper = mount(ResultsPanel, { props: { results: makeRows(2), schema } })
+
+    await wrapper.find('[data-test="export-format"]').setValue('parquet')
+    await wrapper.find('[data-test="export-nested"]').setValue('json')
+    await wrapper.find('[data-test="export-results"]').trigger('click')
+    expect(wrapper.emitted('export')).toEqual([[{ format: 'parquet', nested: 'json' }]])
+
+    // JSON formats keep records nested, so the policy does not apply
+    await wrapper.find('[data-test="export-format"]').setValue('jsonl')
+    expect(wrapper.find('[data-test="export-nested"]').exists()).toBe(false)
+  })
+
+  it('shows export progress and offers to cancel it', async () => {
+    const wrapper = mount(ResultsPanel, {
+      props: { results: makeRows(2), schema, exporting: true, exportStatus: 'Exporting... 2 of 10 rows' }
+    })
+
+    expect(wrapper.find('[data-test="export-results"]').exists()).toBe(false)
+    expect(wrapper.find('[data-test="export-status"]').text()).toBe('Exporting... 2 of 10 rows')
+    await wrapper.find('[data-test="cancel-export"]').trigger('click')
+    expect(wrapper.emitted('cancel-export')).toHaveLength(1)
+  })
+
+  it('copies a shift+click cell range as TSV or Markdown', async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined)
+    Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true })
+    const wrapper = mount(ResultsPanel, { props: { results: makeRows(3), schema } })
+    expect(wrapper.find('[data-test="copy-tsv"]').exists()).toBe(false)
+
+    const cellAt = (row: number, col: number) =>
+      wrapper.findAll('[data-test="result-row"]')[row].findAll('[data-test="result-cell"]')[col]
+    await cellAt(0, 0).trigger('click')
+    await cellAt(1, 1).trigger('click', { shiftKey: true })
+    expect(wrapper.findAll('[data-test="result-cell"].selected').length).toBe(4)
+
+    await wrapper.find('[data-test="copy-tsv"]').trigger('click')
+    await flushPromises()
+    expect(writeText).toHaveBeenLastCalledWith('id\tname\n1\trow 1\n2\t')
+    expect(wrapper.find('[data-test="copy-status"]').text()).toBe('Copied 4 cells')
+
+    await wrapper.find('[data-test="copy-markdown"]').trigger('click')
+    await flushPromises()
+    expect(writeText).toHaveBeenLastCalledWith('| id | name |\n| --- | --- |\n| 1 | row 1 |\n| 2 |  |')
+  })
+
+  it('clears the selection when a new result arrives', async () => {
+    const wrapper = mount(ResultsPanel, { props: { results: makeRows(3), schema } })
+    await wrapper.find('[data-test="result-cell"]').trigger('click')
+    expect(wrapper.findAll('[data-test="result-cell"].selected').length).toBe(1)
+
+    await wrapper.setProps({ results: makeRows(2) })
+    expect(wrapper.findAll('[data-test="result-cell"].selected').length).toBe(0)
+    expect(wrapper.find('[data-test="copy-tsv"]').exists()).toBe(false)
+  })
+
+  it('sorts loaded rows by clicking a header', async () => {
+    const wrapper = mount(ResultsPanel, { props: { results: makeRows(25), schema } })
+    const firstIds = () =>
+      wrapper.findAll('[data-test="result-row"]').map((r) => r.find('[data-test="result-cell"]').text())
+    const idHeader = () => wrapper.findAll('[data-test="result-header"]')[0]
+
+    await idHeader().trigger('click')
+    await idHeader().trigger('click')
+    expect(wrapper.find('[data-test="grid-header-id"]').attributes('aria-sort')).toBe('descending')
+    expect(firstIds().slice(0, 3)).toEqual(['25', '24', '23'])
+
+    await idHeader().trigger('click')
+    expect(wrapper.find('[data-test="sort-id"]').exists()).toBe(false)
+    expect(firstIds().slice(0, 3)).toEqual(['1', '2', '3'])
+  })
+
+  it('filters rows from the column profile and shows the filter as a chip', async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined)
+    Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true })
+    const wrapper = mount(ResultsPanel, { props: { results: makeRows(25), schema }, attachTo: document.body })
+
+    await wrapper.find('[data-test="column-menu-id"]').trigger('click')
+    expect(wrapper.find('[data-test="profile-count"]').text()).toBe('25')
+    await wrapper.find('[data-test="filter-kind"]').setValue('range')
+    await wrapper.find('[data-test="filter-min"]').setValue('5')
+    await wrapper.find('[data-test="filter-max"]').setValue('12')
+    await wrapper.find('[data-test="filter-apply"]').trigger('click')
+
+    expect(wrapper.find('[data-test="filter-chip-id"]').text()).toContain('id ≥ 5 and ≤ 12')
+    expect(wrapper.find('[data-test="grid-header-id"]').classes()).toContain('filtered')
+    expect(wrapper.findAll('[data-test="result-row"]').length).toBe(8)
+    expect(wrapper.find('[data-test="pagination"]').exists()).toBe(false)
+    // the profile follows the filtered rows
+    expect(wrapper.find('[data-test="profile-count"]').text()).toBe('8')
+
+    // copying takes the filtered rows
+    const cellAt = (row: number) => wrapper.findAll('[data-test="result-row"]')[row].findAll('[data-test="result-cell"]')[0]
+    await cellAt(0).trigger('click')
+    await cellAt(1).trigger('click', { shiftKey: true })
+    await wrapper.find('[data-test="copy-tsv"]').trigger('click')
+    await flushPromises()
+    expect(writeText).toHaveBeenLastCalledWith('id\n5\n6')
+
+    await wrapper.find('[data-test="column-menu-name"]').trigger('click')
+    await wrapper.find('[data-test="filter-kind"]').setValue('null')
+    await wrapper.find('[data-test="filter-apply"]').trigger('click')
+    expect(wrapper.findAll('[data-test="result-row"]').length).toBe(4)
+
+    await wrapper.find('[data-test="remove-filter-id"]').trigger('click')
+    expect(wrapper.findComponent(ResultsGrid).props('rows')).toHaveLength(12)
+
+    await wrapper.find('[data-test="filter-kind"]').setValue('equals')
+    await wrapper.find('[data-test="filter-text"]').setValue('nope')
+    await wrapper.find('[data-test="filter-apply"]').trigger('click')
+    expect(wrapper.find('[data-test="results-empty"]').text()).toBe('No rows match the filters')
+
+    await wrapper.find('[data-test="clear-transforms"]').trigger('click')
+    expect(wrapper.findComponent(ResultsGrid).props('rows')).toHaveLength(25)
+    wrapper.unmount()
+  })
+
+  it('notes that transforms only cover the loaded rows and resets them for a new result', async () => {
+    const wrapper = mount(ResultsPanel, { props: { results: makeRows(10), schema, totalRows: 100 } })
+    await wrapper.findAll('[data-test="result-header"]')[1].trigger('click')
+    expect(wrapper.find('[data-test="transform-note"]').text()).toBe(
+      'Sorting and filters apply to the 10 loaded rows of 100'
+    )
+    // other windows would not be sorted, so none can be requested
+    expect(wrapper.find('[data-test="pagination"]').exists()).toBe(false)
+    expect(wrapper.emitted('request-rows')).toBeUndefined()
+
+    await wrapper.setProps({ results: makeRows(5), totalRows: null })
+    expect(wrapper.find('[data-test="sort-name"]').exists()).toBe(false)
+    expect(wrapper.find('[data-test="clear-transforms"]').exists()).toBe(false)
+  })
+})
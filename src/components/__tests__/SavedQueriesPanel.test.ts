@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { mount, flushPromises } from '@vue/test-utils'
+import SavedQueriesPanel from '../SavedQueriesPanel.vue'
+import type Query from '../../models/Query'
+import type { QueryPayload } from '../../models/Query'
+import { setSavedQueryStore } from '../../services/savedQueryService'
+
+let stored: QueryPayload[] = []
+
+function query(id: string, name: string, sql: string, updatedAt: string): QueryPayload {
+  return { id, name, sql, updatedAt }
+}
+
+async function mountPanel(props: Record<string, unknown> = {}) {
+  const wrapper = mount(SavedQueriesPanel, { props })
+  await flushPromises()
+  return wrapper
+}
+
+describe('SavedQueriesPanel', () => {
+  beforeEach(() => {
+    stored = [
+      query('a', 'Revenue', 'SELECT * FROM sales', '2024-06-01T00:00:00.000Z'),
+      query('b', 'Signups', 'SELECT * FROM users', '2024-01-01T00:00:00.000Z')
+    ]
+    setSavedQueryStore({
+      load: async () => stored.map((p) => ({ ...p })),
+      persist: async (payloads) => { stored = payloads }
+    })
+  })
+
+  it('lists saved queries and filters by search', async () => {
+    const wrapper = await mountPanel()
+    expect(wrapper.findAll('[data-test="saved-open"]').map((b) => b.text())).toEqual(['Revenue', 'Signups'])
+
+    await wrapper.find('[data-test="saved-search"]').setValue('users')
+    await flushPromises()
+    expect(wrapper.findAll('[data-test="saved-open"]').map((b) => b.text())).toEqual(['Signups'])
+
+    await wrapper.find('[data-test="saved-search"]').setValue('nothing')
+    await flushPromises()
+    expect(wrapper.find('[data-test="saved-empty"]').text()).toBe('No saved queries match')
+  })
+
+  it('emits open with the saved query', async () => {
+    const wrapper = await mountPanel()
+    await wrapper.find('[data-test="saved-query-b"] [data-test="saved-open"]').trigger('click')
+
+    const opened = wrapper.emitted('open')?.[0][0] as Query
+    expect(opened.id).toBe('b')
+    expect(opened.sql).toBe('SELECT * FROM users')
+  })
+
+  it('saves the editor text as a new query', async () => {
+    const wrapper = await mountPanel({ sql: 'SELECT 1', currentId: 'editor-1' })
+    expect(wrapper.find('[data-test="save-current"]').text()).toBe('Save')
+
+    await wrapper.find('[data-test="save-name"]').setValue('One')
+    await wrapper.find('[data-test="save-current"]').trigger('click')
+    await flushPromises()
+
+    const saved = wrapper.emitted('saved')?.[0][0] as Query
+    expect(saved.name).toBe('One')
+    expect(stored).toHaveLength(3)
+    expect(wrapper.findAll('[data-test="saved-open"]').map((b) => b.text())).toContain('One')
+  })
+
+  it('updates the open query when it is already saved', async () => {
+    const wrapper = await mountPanel({ sql: 'SELECT 2', currentId: 'a' })
+    expect(wrapper.find('[data-test="save-current"]').text()).toBe('Update')
+
+    await wrapper.find('[data-test="save-current"]').trigger('click')
+    await flushPromises()
+
+    expect(stored).toHaveLength(2)
+    expect(stored.find((p) => p.id === 'a')).toMatchObject({ name: 'Revenue', sql: 'SELECT 2' })
+  })
+
+  it('renames, duplicates and deletes', async () => {
+    const wrapper = await mountPanel()
+    const item = () => wrapper.find('[data-test="saved-query-b"]')
+
+    await item().find('[data-test="saved-rename"]').trigger('click')
+    await item().find('[data-test="rename-input"]').setValue('New users')
+    await item().find('[data-test="rename-input"]').trigger('keydown', { key: 'Enter' })
+    await flushPromises()
+    expect(stored.find((p) => p.id === 'b')?.name).toBe('New users')
+
+    await item().find('[data-test="saved-duplicate"]').trigger('click')
+    await flushPromises()
+    expect(stored.map((p) => p.name)).toContain('New users (copy)')
+
+    await item().find('[data-test="saved-delete"]').trigger('click')
+    await flushPromises()
+    expect(stored.some((p) => p.id === 'b')).toBe(false)
+    expect(wrapper.find('[data-test="saved-query-b"]').exists()).toBe(false)
+  })
+
+  it('shows storage errors', async () => {
+    setSavedQueryStore({
+      load: async () => [],
+      persist: async () => { throw new Error('quota exceeded') }
+    })
+    const wrapper = await mountPanel({ sql: 'SELECT 1' })
+
+    await wrapper.find('[data-test="save-current"]').trigger('click')
+    await flushPromises()
+
+    expect(wrapper.find('[data-test="saved-error"]').text()).toBe('Failed to save queries: quota exceeded')
+  })
+})
@@ -1,6 +1,21 @@
-import { describe, it, expect } from 'vitest'
-import { mount } from '@vue/test-utils'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { mount, flushPromises } from '@vue/test-utils'
 import SchemaPanel from '../SchemaPanel.vue'
+import UserSession from '../../models/UserSession'
+import schemaService from '../../services/schemaService'
+
+vi.mock('../../services/schemaService', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../services/schemaService')>()
+  return {
+    ...actual,
+    default: {
+      listProjects: vi.fn(),
+      listDatasets: vi.fn(),
+      listTables: vi.fn(),
+      getTable: vi.fn()
+    }
+  }
+})
 
 describe('SchemaPanel', () => {
   it('renders empty message when no schema', () => {
@@ -36,4 +51,77 @@ describe('SchemaPanel', () => {
     expect(usersTable.findAll('[data-test="field"]').length).toBe(2)
     expect(wrapper.text()).toContain('email')
   })
-})
\ No newline at end of file
+})
+
+describe('SchemaPanel (live)', () => {
+  const session = new UserSession({ accessToken: 'token' })
+
+  beforeEach(() => {
+    vi.mocked(schemaService.listProjects).mockResolvedValue([{ id: 'alpha' }])
+    vi.mocked(schemaService.listDatasets).mockResolvedValue([{ projectId: 'alpha', datasetId: 'sales' }])
+    vi.mocked(schemaService.listTables).mockResolvedValue([
+      { projectId: 'alpha', datasetId: 'sales', tableId: 'orders', type: 'TABLE' },
+      { projectId: 'alpha', datasetId: 'sales', tableId: 'customers', type: 'VIEW' }
+    ])
+    vi.mocked(schemaService.getTable).mockResolvedValue({
+      projectId: 'alpha',
+      datasetId: 'sales',
+      tableId: 'orders',
+      fields: [
+        { name: 'id', type: 'INT64', description: 'Order id' },
+        { name: 'items', type: 'RECORD', mode: 'REPEATED', fields: [{ name: 'sku', type: 'STRING' }] }
+      ],
+      partitioning: { type: 'DAY', field: 'created_at' },
+      clustering: ['customer_id']
+    })
+  })
+
+  it('lazily loads projects, datasets, tables and table details', async () => {
+    const wrapper = mount(SchemaPanel, { props: { session } })
+    await flushPromises()
+
+    expect(wrapper.find('[data-test="project-alpha"]').exists()).toBe(true)
+    expect(schemaService.listDatasets).not.toHaveBeenCalled()
+
+    await wrapper.find('[data-test="project-header-alpha"]').trigger('click')
+    await flushPromises()
+    await wrapper.find('[data-test="dataset-header-sales"]').trigger('click')
+    await flushPromises()
+    expect(schemaService.listTables).toHaveBeenCalledWith(session, 'alpha', 'sales')
+    expect(wrapper.find('[data-test="table-customers"]').text()).toContain('VIEW')
+
+    await wrapper.find('[data-test="table-header-orders"]').trigger('click')
+    await flushPromises()
+    const details = wrapper.find('[data-test="table-details"]')
+    expect(details.find('[data-test="partitioning"]').text()).toBe('Partitioned by created_at (DAY)')
+    expect(details.find('[data-test="clustering"]').text()).toBe('Clustered by customer_id')
+    const fields = details.findAll('[data-test="field"]')
+    expect(fields).toHaveLength(3)
+    expect(fields[0].text()).toContain('Order id')
+    expect(fields[1].find('.field-type').text()).toBe('ARRAY<STRUCT>')
+    expect(fields[2].text()).toBe('sku: STRING')
+  })
+
+  it('filters loaded tables and columns', async () => {
+    const wrapper = mount(SchemaPanel, { props: { session } })
+    await flushPromises()
+    await wrapper.find('[data-test="project-header-alpha"]').trigger('click')
+    await flushPromises()
+    await wrapper.find('[data-test="dataset-header-sales"]').trigger('click')
+    await flushPromises()
+
+    await wrapper.find('[data-test="schema-filter"]').setValue('cust')
+    expect(wrapper.find('[data-test="table-customers"]').exists()).toBe(true)
+    expect(wrapper.find('[data-test="table-orders"]').exists()).toBe(false)
+
+    await wrapper.find('[data-test="schema-filter"]').setValue('nothing-matches')
+    expect(wrapper.find('[data-test="project-alpha"]').exists()).toBe(false)
+  })
+
+  it('shows API errors', async () => {
+    vi.mocked(schemaService.listProjects).mockRejectedValue(new Error('Access Denied'))
+    const wrapper = mount(SchemaPanel, { props: { session } })
+    await flushPromises()
+    expect(wrapper.find('[data-test="schema-error"]').text()).toBe('Access Denied')
+  })
+})
@@ -26,6 +26,48 @@ describe('SettingsPanel', () => {
     expect(emittedUpdate).toBeDefined()
     expect(emittedUpdate.length).toBeGreaterThan(0)
     const payload = emittedUpdate[0][0] as { darkMode: boolean; pageSize: number }
-    expect(payload).toEqual({ darkMode: true, pageSize: 50 })
+    expect(payload).toEqual({
+      darkMode: true,
+      pageSize: 50,
+      maxBytesBilled: null,
+      autoEstimate: false,
+      keywordCase: 'upper',
+      indentWidth: 2,
+      commaStyle: 'trailing'
+    })
   })
-})
\ No newline at end of file
+
+  it('edits the max bytes billed limit in GB', async () => {
+    const wrapper = mount(SettingsPanel, {
+      props: { settings: { darkMode: false, pageSize: 10, maxBytesBilled: 2 * 1024 ** 3, autoEstimate: false } }
+    })
+    const maxBytesInput = wrapper.find('[data-test="max-bytes-input"]')
+    expect((maxBytesInput.element as HTMLInputElement).value).toBe('2')
+
+    await maxBytesInput.setValue('0.5')
+    await wrapper.find('[data-test="auto-estimate-toggle"]').setValue(true)
+    await wrapper.find('[data-test="save-button"]').trigger('click')
+    expect(wrapper.emitted('update:settings')?.[0][0]).toMatchObject({
+      maxBytesBilled: 1024 ** 3 / 2,
+      autoEstimate: true
+    })
+
+    // clearing the field removes the limit
+    await maxBytesInput.setValue('')
+    await wrapper.find('[data-test="save-button"]').trigger('click')
+    expect(wrapper.emitted('update:settings')?.[1][0]).toMatchObject({ maxBytesBilled: null })
+  })
+
+  it('edits the formatter style', async () => {
+    const wrapper = mount(SettingsPanel)
+    await wrapper.find('[data-test="keyword-case-select"]').setValue('lower')
+    await wrapper.find('[data-test="indent-width-input"]').setValue(4)
+    await wrapper.find('[data-test="comma-style-select"]').setValue('leading')
+    await wrapper.find('[data-test="save-button"]').trigger('click')
+    expect(wrapper.emitted('update:settings')?.[0][0]).toMatchObject({
+      keywordCase: 'lower',
+      indentWidth: 4,
+      commaStyle: 'leading'
+    })
+  })
+})
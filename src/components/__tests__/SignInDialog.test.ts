@@ -0,0 +1,82 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { mount, flushPromises } from '@vue/test-utils'
+import SignInDialog from '../SignInDialog.vue'
+import authService from '../../services/authService'
+
+describe('SignInDialog', () => {
+  afterEach(() => {
+    authService.signOut()
+    vi.restoreAllMocks()
+  })
+
+  it('lists the registered sign-in methods', () => {
+    const wrapper = mount(SignInDialog)
+
+    expect(wrapper.find('[data-test="sign-in-method-google"]').exists()).toBe(true)
+    expect(wrapper.find('[data-test="sign-in-method-token"]').exists()).toBe(true)
+    expect(wrapper.find('[data-test="sign-in-method-service-account"]').exists()).toBe(true)
+  })
+
+  it('asks for credentials only for methods that need them', async () => {
+    const wrapper = mount(SignInDialog, { props: { initialProvider: 'google' } })
+    expect(wrapper.find('[data-test="sign-in-credentials"]').exists()).toBe(false)
+
+    await wrapper.find('[data-test="sign-in-method-token"]').setValue(true)
+    expect(wrapper.find('[data-test="sign-in-credentials"]').attributes('type')).toBe('password')
+
+    await wrapper.find('[data-test="sign-in-method-service-account"]').setValue(true)
+    expect(wrapper.find('[data-test="sign-in-credentials"]').element.tagName).toBe('TEXTAREA')
+    expect(wrapper.find('[data-test="sign-in-file"]').exists()).toBe(true)
+  })
+
+  it('signs in with the entered credentials', async () => {
+    const signIn = vi.spyOn(authService, 'signInWithProvider').mockImplementation(() =>
+      authService.signInWithToken({ provider: 'token', accessToken: 'ya29.token' }))
+    const wrapper = mount(SignInDialog, { props: { initialProvider: 'token' }, attachTo: document.body })
+
+    await wrapper.find('[data-test="sign-in-credentials"]').setValue('ya29.token')
+    await wrapper.find('form').trigger('submit')
+    await flushPromises()
+
+    expect(signIn).toHaveBeenCalledWith('token', 'ya29.token')
+    expect(wrapper.emitted('signed-in')?.[0][0]).toBe(authService.getSession())
+    wrapper.unmount()
+  })
+
+  it('signs in again to the given account with its own method', async () => {
+    const account = await authService.signInWithToken({ provider: 'service-account', userId: 'ci', accessToken: 'old' })
+    const signInAgain = vi.spyOn(authService, 'signInAgain').mockResolvedValue(account)
+    const signIn = vi.spyOn(authService, 'signInWithProvider')
+    const wrapper = mount(SignInDialog, { props: { account: 'service-account:ci' } })
+
+    expect(wrapper.find('h2').text()).toBe('Sign in again')
+    expect(wrapper.findAll('[name="sign-in-method"]')).toHaveLength(1)
+    await wrapper.find('[data-test="sign-in-credentials"]').setValue('{}')
+    await wrapper.find('form').trigger('submit')
+    await flushPromises()
+
+    expect(signInAgain).toHaveBeenCalledWith('service-account:ci', '{}')
+    expect(signIn).not.toHaveBeenCalled()
+    expect(wrapper.emitted('signed-in')?.[0][0]).toBe(account)
+  })
+
+  it('shows why signing in failed', async () => {
+    vi.spyOn(authService, 'signInWithProvider').mockRejectedValue(new Error('Google did not accept the access token'))
+    const wrapper = mount(SignInDialog, { props: { initialProvider: 'token' } })
+
+    await wrapper.find('[data-test="sign-in-credentials"]').setValue('bad')
+    await wrapper.find('form').trigger('submit')
+    await flushPromises()
+
+    expect(wrapper.find('[data-test="sign-in-error"]').text()).toBe('Google did not accept the access token')
+    expect(wrapper.emitted('signed-in')).toBeUndefined()
+  })
+
+  it('closes on cancel', async () => {
+    const wrapper = mount(SignInDialog)
+
+    await wrapper.find('[data-test="sign-in-cancel"]').trigger('click')
+
+    expect(wrapper.emitted('close')).toHaveLength(1)
+  })
+})
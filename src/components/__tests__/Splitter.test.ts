@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest'
+import { mount } from '@vue/test-utils'
+import type { VueWrapper } from '@vue/test-utils'
+import Splitter from '../Splitter.vue'
+
+function mountSplitter(props: { modelValue: number } & Record<string, unknown>) {
+  const wrapper: VueWrapper = mount(Splitter, {
+    props: {
+      ...props,
+      'onUpdate:modelValue': (size: number) => wrapper.setProps({ modelValue: size })
+    },
+    attachTo: document.body
+  })
+  return wrapper
+}
+
+const sizes = (wrapper: VueWrapper) =>
+  (wrapper.emitted<[number]>('update:modelValue') ?? []).map(([size]) => size)
+
+describe('Splitter', () => {
+  it('resizes with arrow keys in the direction of the pane', async () => {
+    const start = mountSplitter({ modelValue: 20, side: 'start' })
+    await start.trigger('keydown', { key: 'ArrowRight' })
+    await start.trigger('keydown', { key: 'ArrowLeft', shiftKey: true })
+    expect(sizes(start)).toEqual([22, 12])
+
+    const end = mountSplitter({ modelValue: 40, orientation: 'horizontal', side: 'end' })
+    await end.trigger('keydown', { key: 'ArrowUp' })
+    await end.trigger('keydown', { key: 'ArrowLeft' })
+    expect(sizes(end)).toEqual([42])
+  })
+
+  it('clamps to the maximum', async () => {
+    const wrapper = mountSplitter({ modelValue: 78, max: 80 })
+    await wrapper.trigger('keydown', { key: 'ArrowRight', shiftKey: true })
+    await wrapper.trigger('keydown', { key: 'End' })
+    expect(sizes(wrapper)).toEqual([80, 80])
+  })
+
+  it('collapses to zero and restores the previous size', async () => {
+    const wrapper = mountSplitter({ modelValue: 30 })
+    await wrapper.trigger('keydown', { key: 'Home' })
+    expect(wrapper.classes()).toContain('collapsed')
+    await wrapper.trigger('keydown', { key: 'Enter' })
+    await wrapper.trigger('dblclick')
+    await wrapper.trigger('dblclick')
+    expect(sizes(wrapper)).toEqual([0, 30, 0, 30])
+  })
+
+  it('resizes by dragging relative to the parent size', async () => {
+    const wrapper = mountSplitter({ modelValue: 25, side: 'end' })
+    const parent = wrapper.element.parentElement as HTMLElement
+    parent.getBoundingClientRect = () => ({ width: 1000, height: 500 }) as DOMRect
+
+    await wrapper.trigger('pointerdown', { button: 0, clientX: 500 })
+    expect(wrapper.classes()).toContain('dragging')
+    window.dispatchEvent(new MouseEvent('pointermove', { clientX: 400 }))
+    window.dispatchEvent(new MouseEvent('pointerup'))
+    window.dispatchEvent(new MouseEvent('pointermove', { clientX: 0 }))
+    await wrapper.vm.$nextTick()
+
+    expect(sizes(wrapper)).toEqual([35])
+    expect(wrapper.classes()).not.toContain('dragging')
+    wrapper.unmount()
+  })
+})
@@ -1,6 +1,17 @@
 export { default as QueryEditor } from './QueryEditor.vue'
 export { default as ResultsPanel } from './ResultsPanel.vue'
+export { default as ResultsGrid } from './ResultsGrid.vue'
 export { default as PanelManager } from './PanelManager.vue'
 export { default as SchemaPanel } from './SchemaPanel.vue'
 export { default as SettingsPanel } from './SettingsPanel.vue'
 export { default as ThemeToggle } from './ThemeToggle.vue'
+export { default as SchemaFieldTree } from './SchemaFieldTree.vue'
+export { default as SavedQueriesPanel } from './SavedQueriesPanel.vue'
+export { default as HistoryPanel } from './HistoryPanel.vue'
+export { default as ConsolePanel } from './ConsolePanel.vue'
+export { default as Splitter } from './Splitter.vue'
+export { default as CommandPalette } from './CommandPalette.vue'
+export { default as ColumnProfilePopover } from './ColumnProfilePopover.vue'
+export { default as ProjectPicker } from './ProjectPicker.vue'
+export { default as SignInDialog } from './SignInDialog.vue'
+export { default as AccountSwitcher } from './AccountSwitcher.vue'
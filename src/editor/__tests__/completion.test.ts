@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest';
+import {
+  endsInsideNonCode,
+  findUnloadedTables,
+  getCompletions,
+  parseTableReferences,
+  resolveTable,
+  splitPath,
+} from '../completion';
+import type { CompletionSchema } from '../completion';
+
+const schema: CompletionSchema = {
+  tables: [
+    { projectId: 'my-project', datasetId: 'sales', tableId: 'orders', type: 'TABLE' },
+    { projectId: 'my-project', datasetId: 'sales', tableId: 'customers', type: 'TABLE' },
+    { projectId: 'my-project', datasetId: 'web', tableId: 'events', type: 'VIEW' },
+  ],
+  details: [
+    {
+      projectId: 'my-project',
+      datasetId: 'sales',
+      tableId: 'orders',
+      fields: [
+        { name: 'order_id', type: 'INT64', description: 'Order id' },
+        { name: 'customer_id', type: 'INT64' },
+        {
+          name: 'shipping',
+          type: 'RECORD',
+          fields: [
+            { name: 'city', type: 'STRING' },
+            { name: 'zip', type: 'STRING' },
+          ],
+        },
+        { name: 'tags', type: 'STRING', mode: 'REPEATED' },
+      ],
+      partitioning: null,
+      clustering: [],
+    },
+    {
+      projectId: 'my-project',
+      datasetId: 'sales',
+      tableId: 'customers',
+      fields: [
+        { name: 'customer_id', type: 'INT64' },
+        { name: 'name', type: 'STRING' },
+      ],
+      partitioning: null,
+      clustering: [],
+    },
+  ],
+};
+
+const at = (sql: string) => getCompletions(sql.replace('|', ''), sql.indexOf('|'), schema);
+const labels = (sql: string) => at(sql).map((entry) => entry.label);
+
+describe('completion', () => {
+  describe('splitPath', () => {
+    it('splits plain and backticked paths', () => {
+      expect(splitPath('sales.orders')).toEqual(['sales', 'orders']);
+      expect(splitPath('`my-project.sales.orders`')).toEqual(['my-project', 'sales', 'orders']);
+      expect(splitPath('`my-project`.sales.`orders`')).toEqual(['my-project', 'sales', 'orders']);
+    });
+  });
+
+  describe('parseTableReferences', () => {
+    it('finds FROM and JOIN tables with aliases', () => {
+      const sql = `SELECT * FROM \`my-project.sales.orders\` AS o
+        LEFT JOIN sales.customers c ON c.customer_id = o.customer_id
+        WHERE o.order_id > 1`;
+      expect(parseTableReferences(sql)).toEqual([
+        { path: ['my-project', 'sales', 'orders'], alias: 'o' },
+        { path: ['sales', 'customers'], alias: 'c' },
+      ]);
+    });
+
+    it('handles comma joins and tables without aliases', () => {
+      expect(parseTableReferences('SELECT 1 FROM sales.orders, sales.customers c WHERE true')).toEqual([
+        { path: ['sales', 'orders'] },
+        { path: ['sales', 'customers'], alias: 'c' },
+      ]);
+    });
+
+    it('skips subqueries, UNNEST and references inside comments or strings', () => {
+      const sql = `SELECT 'FROM fake.table' FROM (SELECT 1) -- JOIN other.table
+        CROSS JOIN UNNEST(tags) AS tag`;
+      expect(parseTableReferences(sql)).toEqual([]);
+    });
+  });
+
+  describe('resolveTable', () => {
+    it('resolves full and unambiguous partial paths', () => {
+      expect(resolveTable(['my-project', 'sales', 'orders'], schema.tables)?.tableId).toBe('orders');
+      expect(resolveTable(['SALES', 'Orders'], schema.tables)?.tableId).toBe('orders');
+      expect(resolveTable(['events'], schema.tables)?.datasetId).toBe('web');
+      expect(resolveTable(['missing'], schema.tables)).toBeUndefined();
+    });
+  });
+
+  describe('endsInsideNonCode', () => {
+    it('detects comments and unterminated strings at the cursor', () => {
+      expect(endsInsideNonCode('SELECT -- note ')).toBe(true);
+      expect(endsInsideNonCode("SELECT 'abc ")).toBe(true);
+      expect(endsInsideNonCode("SELECT 'abc' ")).toBe(false);
+      expect(endsInsideNonCode('SELECT /* x */ ')).toBe(false);
+      expect(endsInsideNonCode('SELECT /* x ')).toBe(true);
+    });
+  });
+
+  describe('getCompletions', () => {
+    it('offers keywords and functions with signatures', () => {
+      const entries = at('SEL|');
+      expect(entries.find((e) => e.label === 'SELECT')).toMatchObject({ kind: 'keyword', replaceLength: 3 });
+      expect(entries.find((e) => e.label === 'DATE_TRUNC')).toMatchObject({
+        kind: 'function',
+        detail: 'DATE_TRUNC(date_value, date_granularity)',
+      });
+      // IF is both a keyword and a function; it is suggested once
+      expect(entries.filter((e) => e.label === 'IF')).toHaveLength(1);
+    });
+
+    it('offers fully qualified table names after FROM and JOIN', () => {
+      const entries = at('SELECT * FROM |');
+      expect(entries.map((e) => e.label)).toEqual([
+        'my-project.sales.orders',
+        'my-project.sales.customers',
+        'my-project.web.events',
+      ]);
+      expect(entries[0]).toMatchObject({ kind: 'table', insertText: '`my-project.sales.orders`', replaceLength: 0 });
+      expect(labels('SELECT * FROM sales.orders o JOIN |')).toContain('my-project.sales.customers');
+      expect(labels('SELECT * FROM sales.orders o, |')).toContain('my-project.web.events');
+    });
+
+    it('replaces the typed path when completing table names', () => {
+      expect(at('SELECT * FROM my-project.sa|')[0]).toMatchObject({ replaceLength: 13 });
+      // Inside an open backtick only the text after it is replaced, without adding backticks
+      expect(at('SELECT * FROM `my-project.sa|')[0]).toMatchObject({
+        insertText: 'my-project.sales.orders',
+        replaceLength: 13,
+      });
+    });
+
+    it('offers the columns of an alias after a dot', () => {
+      const sql = 'SELECT o.| FROM `my-project.sales.orders` o JOIN sales.customers c USING (customer_id)';
+      const entries = at(sql);
+      expect(entries.map((e) => e.label)).toEqual(['order_id', 'customer_id', 'shipping', 'tags']);
+      expect(entries[0]).toMatchObject({ kind: 'column', detail: 'INT64 · orders', documentation: 'Order id' });
+      expect(entries[3].detail).toBe('ARRAY<STRING> · orders');
+      expect(labels('SELECT c.na| FROM sales.orders o JOIN sales.customers c ON true')).toEqual([
+        'customer_id',
+        'name',
+      ]);
+    });
+
+    it('offers nested RECORD fields and table-qualified columns', () => {
+      expect(labels('SELECT o.shipping.| FROM sales.orders o')).toEqual(['city', 'zip']);
+      expect(labels('SELECT customers.| FROM sales.customers')).toEqual(['customer_id', 'name']);
+      expect(labels('SELECT x.| FROM sales.customers')).toEqual([]);
+    });
+
+    it('includes columns of every referenced table in general suggestions', () => {
+      const entries = at('SELECT | FROM sales.orders o JOIN sales.customers c ON true');
+      const columns = entries.filter((e) => e.kind === 'column');
+      expect(columns.map((e) => `${e.label}:${e.detail}`)).toContain('name:STRING · c');
+      expect(columns.map((e) => e.label)).toContain('order_id');
+    });
+
+    it('offers nothing inside comments and strings', () => {
+      expect(at("SELECT 'abc| FROM sales.orders")).toEqual([]);
+      expect(at('SELECT 1 -- FROM |')).toEqual([]);
+    });
+  });
+
+  describe('findUnloadedTables', () => {
+    it('returns referenced tables whose fields are not loaded yet', () => {
+      const sql = 'SELECT * FROM web.events JOIN `other-project.ds.t` ON true JOIN sales.orders ON true';
+      expect(findUnloadedTables(sql, schema)).toEqual([
+        { projectId: 'my-project', datasetId: 'web', tableId: 'events', type: 'VIEW' },
+        { projectId: 'other-project', datasetId: 'ds', tableId: 't' },
+      ]);
+    });
+  });
+});
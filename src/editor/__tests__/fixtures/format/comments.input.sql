@@ -0,0 +1,9 @@
+/* Header comment
+   spanning lines */
+select a, -- first
+  b /* inline */ , c
+# hash comment before FROM
+from t -- trailing
+where a = 1
+  -- own line before AND
+  and b = 2
@@ -0,0 +1,13 @@
+/* Header comment
+   spanning lines */
+SELECT
+  a, -- first
+  b /* inline */,
+  c
+# hash comment before FROM
+FROM
+  t -- trailing
+WHERE
+  a = 1
+  -- own line before AND
+  AND b = 2
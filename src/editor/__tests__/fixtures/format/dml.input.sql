@@ -0,0 +1,10 @@
+insert into ds.t (a, b) values (1, 'x'), (2, r'y\d');
+
+update ds.t set a = a + 1, b = """multi
+line""" where a = 1;
+
+delete from ds.t where a is distinct from b;
+
+merge ds.t T using ds.s S on T.id = S.id when matched then update set a = S.a when not matched then insert (id, a) values (S.id, S.a);
+
+create or replace table ds.t2 partition by date(ts) cluster by id as select * except (x) from ds.t union all select * except (x) from ds.t3
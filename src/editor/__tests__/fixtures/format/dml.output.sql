@@ -0,0 +1,44 @@
+INSERT INTO ds.t (a, b)
+VALUES
+  (1, 'x'),
+  (2, r'y\d');
+
+UPDATE ds.t
+SET
+  a = a + 1,
+  b = """multi
+line"""
+WHERE
+  a = 1;
+
+DELETE FROM ds.t
+WHERE
+  a IS DISTINCT FROM b;
+
+MERGE ds.t T
+USING ds.s S
+ON T.id = S.id
+WHEN MATCHED THEN
+  UPDATE
+  SET
+    a = S.a
+WHEN NOT MATCHED THEN
+  INSERT (id, a)
+  VALUES
+    (S.id, S.a);
+
+CREATE OR REPLACE TABLE ds.t2
+PARTITION BY
+  date(ts)
+CLUSTER BY
+  id
+AS
+SELECT
+  * EXCEPT (x)
+FROM
+  ds.t
+UNION ALL
+SELECT
+  * EXCEPT (x)
+FROM
+  ds.t3
@@ -0,0 +1 @@
+SELECT a, b, COUNT(*) AS n FROM t WHERE a IN (1, 2) AND b IS NOT NULL GROUP BY a, b HAVING COUNT(*) > 1 ORDER BY n DESC
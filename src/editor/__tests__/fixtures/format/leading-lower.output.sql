@@ -0,0 +1,16 @@
+select
+    a
+    , b
+    , COUNT(*) as n
+from
+    t
+where
+    a in (1, 2)
+    and b is not null
+group by
+    a
+    , b
+having
+    COUNT(*) > 1
+order by
+    n desc
@@ -0,0 +1,10 @@
+-- daily revenue per customer
+with orders as (select o.order_id, o.customer_id, sum(o.amount) as total from `my-project.sales.orders` o where o.created_at between '2024-01-01' and '2024-02-01' and o.status != 'cancelled' group by 1, 2), ranked as (select *, row_number() over (partition by customer_id order by total desc) as rn from orders)
+select r.customer_id, c.name, -- display name
+  case when r.total > 100 then 'big' when r.total > 10 then 'medium' else 'small' end as bucket,
+  struct(r.total as total, [1, 2, 3] as nums) as info, array<struct<a int64, b string>>[(1, 'x')] as typed, tags[safe_offset(0)] as first_tag
+from ranked r left outer join my-project.sales.customers c on c.customer_id = r.customer_id cross join unnest(c.tags) as tag with offset as pos
+where r.rn = 1 and (c.region = 'EU' or c.region is null) and exists (select 1 from `my-project.sales.vip` v where v.id = r.customer_id)
+qualify count(*) over w > -1
+window w as (partition by c.region)
+order by r.total desc, c.name limit 10 offset 5
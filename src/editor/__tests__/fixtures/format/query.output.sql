@@ -0,0 +1,57 @@
+-- daily revenue per customer
+WITH
+  orders AS (
+    SELECT
+      o.order_id,
+      o.customer_id,
+      sum(o.amount) AS total
+    FROM
+      `my-project.sales.orders` o
+    WHERE
+      o.created_at BETWEEN '2024-01-01' AND '2024-02-01'
+      AND o.status != 'cancelled'
+    GROUP BY
+      1,
+      2
+  ),
+  ranked AS (
+    SELECT
+      *,
+      row_number() OVER (PARTITION BY customer_id ORDER BY total DESC) AS rn
+    FROM
+      orders
+  )
+SELECT
+  r.customer_id,
+  c.name, -- display name
+  CASE
+    WHEN r.total > 100 THEN 'big'
+    WHEN r.total > 10 THEN 'medium'
+    ELSE 'small'
+  END AS bucket,
+  STRUCT(r.total AS total, [1, 2, 3] AS nums) AS info,
+  ARRAY<STRUCT<a INT64, b STRING>>[(1, 'x')] AS typed,
+  tags[safe_offset(0)] AS first_tag
+FROM
+  ranked r
+  LEFT OUTER JOIN my-project.sales.customers c ON c.customer_id = r.customer_id
+  CROSS JOIN UNNEST(c.tags) AS tag WITH OFFSET AS pos
+WHERE
+  r.rn = 1
+  AND (c.region = 'EU' OR c.region IS NULL)
+  AND EXISTS (
+    SELECT
+      1
+    FROM
+      `my-project.sales.vip` v
+    WHERE
+      v.id = r.customer_id
+  )
+QUALIFY
+  count(*) OVER w > -1
+WINDOW
+  w AS (PARTITION BY c.region)
+ORDER BY
+  r.total DESC,
+  c.name
+LIMIT 10 OFFSET 5
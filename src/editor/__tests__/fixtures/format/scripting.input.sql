@@ -0,0 +1,13 @@
+declare x int64 default 0;
+declare names array<string>;
+
+begin
+  set x = (select count(*) from ds.t);
+  if x > 10 then select 'many'; elseif x > 0 then select 'some'; else select 'none'; end if;
+  while x > 0 do set x = x - 1; end while;
+  loop set x = x + 1; if x >= 3 then leave; end if; end loop;
+  repeat set x = x - 1; until x <= 0 end repeat;
+  for rec in (select id from ds.t) do call ds.proc(rec.id); end for;
+exception when error then
+  select @@error.message;
+end;
@@ -0,0 +1,45 @@
+DECLARE x INT64 DEFAULT 0;
+DECLARE names ARRAY<STRING>;
+
+BEGIN
+  SET x = (
+    SELECT
+      count(*)
+    FROM
+      ds.t
+  );
+  IF x > 10 THEN
+    SELECT
+      'many';
+  ELSEIF x > 0 THEN
+    SELECT
+      'some';
+  ELSE
+    SELECT
+      'none';
+  END IF;
+  WHILE x > 0 DO
+    SET x = x - 1;
+  END WHILE;
+  LOOP
+    SET x = x + 1;
+    IF x >= 3 THEN
+      LEAVE;
+    END IF;
+  END LOOP;
+  REPEAT
+    SET x = x - 1;
+  UNTIL x <= 0
+  END REPEAT;
+  FOR rec IN (
+    SELECT
+      id
+    FROM
+      ds.t
+  ) DO
+    CALL ds.proc(rec.id);
+  END FOR;
+EXCEPTION WHEN ERROR THEN
+  SELECT
+    @@error.message;
+END;
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { formatSql, tokenize } from '../formatter';
+import type { FormatOptions } from '../formatter';
+
+// Golden files: fixtures/format/<name>.input.sql formats to <name>.output.sql
+const fixtures = import.meta.glob<string>('./fixtures/format/*.sql', {
+  query: '?raw',
+  import: 'default',
+  eager: true,
+});
+
+const fixtureOptions: Record<string, Partial<FormatOptions>> = {
+  'leading-lower': { keywordCase: 'lower', commaStyle: 'leading', indentWidth: 4 },
+};
+
+const cases = Object.keys(fixtures)
+  .filter((path) => path.endsWith('.input.sql'))
+  .map((path) => path.replace('./fixtures/format/', '').replace('.input.sql', ''));
+
+describe('formatSql', () => {
+  it('has golden fixtures', () => {
+    expect(cases).toEqual(expect.arrayContaining(['comments', 'dml', 'leading-lower', 'query', 'scripting']));
+  });
+
+  describe.each(cases)('%s', (name) => {
+    const input = fixtures[`./fixtures/format/${name}.input.sql`];
+    const expected = fixtures[`./fixtures/format/${name}.output.sql`];
+    const options = fixtureOptions[name] ?? {};
+
+    it('matches the golden output', () => {
+      expect(formatSql(input, options)).toBe(expected);
+    });
+
+    it('is stable when formatting its own output', () => {
+      expect(formatSql(expected, options)).toBe(expected);
+    });
+  });
+
+  it('leaves blank input untouched', () => {
+    expect(formatSql('  \n')).toBe('  \n');
+  });
+
+  it('preserves keyword case when asked', () => {
+    expect(formatSql('Select a From t', { keywordCase: 'preserve' })).toBe('Select\n  a\nFrom\n  t');
+  });
+
+  it('does not recase identifiers that look like keywords', () => {
+    expect(formatSql('select t.from, offset, `select` from t')).toBe(
+      'SELECT\n  t.from,\n  offset,\n  `select`\nFROM\n  t'
+    );
+  });
+
+  it('keeps IF() function calls inline inside statements', () => {
+    expect(formatSql('select if(a, 1, 2)')).toBe('SELECT\n  IF(a, 1, 2)');
+  });
+});
+
+describe('tokenize', () => {
+  it('keeps strings, quoted identifiers and comments whole', () => {
+    const tokens = tokenize("select 'it\\'s', b'\\x00', `a b`.c -- done");
+    expect(tokens.map((t) => [t.type, t.text])).toEqual([
+      ['word', 'select'],
+      ['string', "'it\\'s'"],
+      ['comma', ','],
+      ['string', "b'\\x00'"],
+      ['comma', ','],
+      ['quoted', '`a b`'],
+      ['dot', '.'],
+      ['word', 'c'],
+      ['line-comment', '-- done'],
+    ]);
+  });
+
+  it('reads dashed project ids in table names', () => {
+    const words = tokenize('SELECT a-b FROM my-project.ds.t').map((t) => t.text);
+    expect(words).toEqual(['SELECT', 'a', '-', 'b', 'FROM', 'my-project', '.', 'ds', '.', 't']);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from 'vitest';
+import { registerCompletionProvider } from '../monacoCompletion';
+import type { CompletionSchema } from '../completion';
+
+// Single-line model: offsets map directly onto columns
+function fakeModel(value: string) {
+  return {
+    getValue: () => value,
+    getOffsetAt: (position: { column: number }) => position.column - 1,
+    getPositionAt: (offset: number) => ({ lineNumber: 1, column: offset + 1 }),
+  };
+}
+
+function fakeMonaco() {
+  return {
+    languages: {
+      CompletionItemKind: { Function: 1, Field: 3, Struct: 6, Keyword: 17, TypeParameter: 24 },
+      registerCompletionItemProvider: vi.fn(() => ({ dispose: vi.fn() })),
+    },
+  };
+}
+
+describe('registerCompletionProvider', () => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const register = (monaco: ReturnType<typeof fakeMonaco>, options: any) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    registerCompletionProvider(monaco as any, options);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return (monaco.languages.registerCompletionItemProvider.mock.calls[0] as any[])[1];
+  };
+
+  it('loads referenced tables before suggesting their columns', async () => {
+    const schema: CompletionSchema = {
+      tables: [{ projectId: 'p', datasetId: 'd', tableId: 't' }],
+      details: [],
+    };
+    const loadTable = vi.fn(async () => {
+      schema.details = [{ ...schema.tables[0], fields: [{ name: 'amount', type: 'NUMERIC' }], partitioning: null, clustering: [] }];
+    });
+    const monaco = fakeMonaco();
+    const provider = register(monaco, { getSchema: () => schema, loadTable });
+
+    const sql = 'SELECT t.am FROM d.t';
+    const result = await provider.provideCompletionItems(fakeModel(sql), { lineNumber: 1, column: 12 });
+
+    expect(monaco.languages.registerCompletionItemProvider.mock.calls[0]).toEqual(
+      expect.arrayContaining(['sql'])
+    );
+    expect(loadTable).toHaveBeenCalledWith({ projectId: 'p', datasetId: 'd', tableId: 't' });
+    expect(result.suggestions).toEqual([
+      expect.objectContaining({
+        label: 'amount',
+        kind: 3,
+        insertText: 'amount',
+        range: { startLineNumber: 1, startColumn: 10, endLineNumber: 1, endColumn: 12 },
+      }),
+    ]);
+  });
+
+  it('does not request a table again after it failed to load', async () => {
+    const schema: CompletionSchema = { tables: [], details: [] };
+    const loadTable = vi.fn().mockRejectedValue(new Error('Access Denied'));
+    let scope = 'google:1';
+    const provider = register(fakeMonaco(), { getSchema: () => schema, loadTable, getScope: () => scope });
+
+    const sql = 'SELECT  FROM p.d.secret';
+    await provider.provideCompletionItems(fakeModel(sql), { lineNumber: 1, column: 8 });
+    const result = await provider.provideCompletionItems(fakeModel(sql), { lineNumber: 1, column: 8 });
+    expect(loadTable).toHaveBeenCalledTimes(1);
+    expect(result.suggestions.length).toBeGreaterThan(0);
+
+    // another account may have access
+    scope = 'service-account:ci@example.com';
+    await provider.provideCompletionItems(fakeModel(sql), { lineNumber: 1, column: 8 });
+    expect(loadTable).toHaveBeenCalledTimes(2);
+  });
+
+  it('ignores models it does not accept', async () => {
+    const monaco = fakeMonaco();
+    const provider = register(monaco, {
+      getSchema: () => ({ tables: [], details: [] }),
+      accepts: () => false,
+    });
+    const result = await provider.provideCompletionItems(fakeModel('SEL'), { lineNumber: 1, column: 4 });
+    expect(result.suggestions).toEqual([]);
+  });
+});
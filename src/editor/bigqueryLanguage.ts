@@ -0,0 +1,244 @@
+/**
+ * GoogleSQL (BigQuery standard SQL) vocabulary used by the editor's completion and formatting.
+ */
+
+export const KEYWORDS = [
+  'ALL',
+  'AND',
+  'ANY_VALUE',
+  'ARRAY',
+  'AS',
+  'ASC',
+  'BEGIN',
+  'BETWEEN',
+  'BREAK',
+  'BY',
+  'CALL',
+  'CASE',
+  'CAST',
+  'CLUSTER',
+  'CONTINUE',
+  'CREATE',
+  'CROSS',
+  'CURRENT',
+  'DECLARE',
+  'DEFAULT',
+  'DELETE',
+  'DESC',
+  'DISTINCT',
+  'DO',
+  'DROP',
+  'ELSE',
+  'ELSEIF',
+  'END',
+  'EXCEPT',
+  'EXCEPTION',
+  'EXECUTE',
+  'EXISTS',
+  'FALSE',
+  'FOLLOWING',
+  'FOR',
+  'FROM',
+  'FULL',
+  'GROUP',
+  'HAVING',
+  'IF',
+  'IMMEDIATE',
+  'IN',
+  'INNER',
+  'INSERT',
+  'INTERSECT',
+  'INTERVAL',
+  'INTO',
+  'IS',
+  'JOIN',
+  'LEAVE',
+  'LEFT',
+  'LIKE',
+  'LIMIT',
+  'LOOP',
+  'MATCHED',
+  'MERGE',
+  'NOT',
+  'NULL',
+  'NULLS',
+  'OFFSET',
+  'ON',
+  'OR',
+  'ORDER',
+  'OUTER',
+  'OVER',
+  'PARTITION',
+  'PRECEDING',
+  'QUALIFY',
+  'RANGE',
+  'RECURSIVE',
+  'REPEAT',
+  'REPLACE',
+  'RETURN',
+  'RIGHT',
+  'ROLLUP',
+  'ROWS',
+  'SAFE_CAST',
+  'SELECT',
+  'SET',
+  'STRUCT',
+  'TABLE',
+  'TABLESAMPLE',
+  'THEN',
+  'TRUE',
+  'TRUNCATE',
+  'UNBOUNDED',
+  'UNION',
+  'UNNEST',
+  'UNTIL',
+  'UPDATE',
+  'USING',
+  'VALUES',
+  'VIEW',
+  'WHEN',
+  'WHERE',
+  'WHILE',
+  'WINDOW',
+  'WITH',
+];
+
+// Reserved words can never be unquoted identifiers, so the formatter may always recase them
+export const RESERVED_KEYWORDS = [
+  'ALL', 'AND', 'ANY', 'ARRAY', 'AS', 'ASC', 'ASSERT_ROWS_MODIFIED', 'AT', 'BETWEEN', 'BY',
+  'CASE', 'CAST', 'COLLATE', 'CONTAINS', 'CREATE', 'CROSS', 'CUBE', 'CURRENT', 'DEFAULT',
+  'DEFINE', 'DESC', 'DISTINCT', 'ELSE', 'END', 'ENUM', 'ESCAPE', 'EXCEPT', 'EXCLUDE', 'EXISTS',
+  'EXTRACT', 'FALSE', 'FETCH', 'FOLLOWING', 'FOR', 'FROM', 'FULL', 'GROUP', 'GROUPING', 'GROUPS',
+  'HASH', 'HAVING', 'IF', 'IGNORE', 'IN', 'INNER', 'INTERSECT', 'INTERVAL', 'INTO', 'IS', 'JOIN',
+  'LATERAL', 'LEFT', 'LIKE', 'LIMIT', 'LOOKUP', 'MERGE', 'NATURAL', 'NEW', 'NO', 'NOT', 'NULL',
+  'NULLS', 'OF', 'ON', 'OR', 'ORDER', 'OUTER', 'OVER', 'PARTITION', 'PRECEDING', 'PROTO',
+  'QUALIFY', 'RANGE', 'RECURSIVE', 'RESPECT', 'RIGHT', 'ROLLUP', 'ROWS', 'SELECT', 'SET', 'SOME',
+  'STRUCT', 'TABLESAMPLE', 'THEN', 'TO', 'TREAT', 'TRUE', 'UNBOUNDED', 'UNION', 'UNNEST', 'USING',
+  'WHEN', 'WHERE', 'WINDOW', 'WITH', 'WITHIN',
+];
+
+export const TYPES = [
+  'ARRAY',
+  'BIGNUMERIC',
+  'BOOL',
+  'BYTES',
+  'DATE',
+  'DATETIME',
+  'FLOAT64',
+  'GEOGRAPHY',
+  'INT64',
+  'INTERVAL',
+  'JSON',
+  'NUMERIC',
+  'RANGE',
+  'STRING',
+  'STRUCT',
+  'TIME',
+  'TIMESTAMP',
+];
+
+export interface FunctionInfo {
+  name: string;
+  signature: string;
+  description: string;
+}
+
+export const FUNCTIONS: FunctionInfo[] = [
+  // aggregate
+  { name: 'ANY_VALUE', signature: 'ANY_VALUE(expression)', description: 'Returns expression for some row chosen from the group.' },
+  { name: 'ARRAY_AGG', signature: 'ARRAY_AGG([DISTINCT] expression [ORDER BY key] [LIMIT n])', description: 'Returns an ARRAY of expression values.' },
+  { name: 'AVG', signature: 'AVG([DISTINCT] expression)', description: 'Returns the average of non-NULL values.' },
+  { name: 'COUNT', signature: 'COUNT(*) | COUNT([DISTINCT] expression)', description: 'Returns the number of rows, or of non-NULL values of expression.' },
+  { name: 'COUNTIF', signature: 'COUNTIF(condition)', description: 'Returns the count of TRUE values for condition.' },
+  { name: 'LOGICAL_AND', signature: 'LOGICAL_AND(expression)', description: 'Returns the logical AND of all non-NULL expressions.' },
+  { name: 'LOGICAL_OR', signature: 'LOGICAL_OR(expression)', description: 'Returns the logical OR of all non-NULL expressions.' },
+  { name: 'MAX', signature: 'MAX(expression)', description: 'Returns the maximum non-NULL value.' },
+  { name: 'MIN', signature: 'MIN(expression)', description: 'Returns the minimum non-NULL value.' },
+  { name: 'STRING_AGG', signature: 'STRING_AGG([DISTINCT] expression [, delimiter] [ORDER BY key] [LIMIT n])', description: 'Concatenates non-NULL values into a STRING or BYTES.' },
+  { name: 'SUM', signature: 'SUM([DISTINCT] expression)', description: 'Returns the sum of non-NULL values.' },
+  { name: 'APPROX_COUNT_DISTINCT', signature: 'APPROX_COUNT_DISTINCT(expression)', description: 'Returns the approximate number of distinct values.' },
+  { name: 'APPROX_QUANTILES', signature: 'APPROX_QUANTILES(expression, number)', description: 'Returns approximate quantile boundaries as an ARRAY.' },
+  { name: 'APPROX_TOP_COUNT', signature: 'APPROX_TOP_COUNT(expression, number)', description: 'Returns the approximate top elements and their counts.' },
+  // window / navigation
+  { name: 'ROW_NUMBER', signature: 'ROW_NUMBER() OVER (...)', description: 'Sequential row number within the window partition, starting at 1.' },
+  { name: 'RANK', signature: 'RANK() OVER (...)', description: 'Ordinal rank of each row, with gaps for ties.' },
+  { name: 'DENSE_RANK', signature: 'DENSE_RANK() OVER (...)', description: 'Ordinal rank of each row, without gaps for ties.' },
+  { name: 'NTILE', signature: 'NTILE(constant_integer_expression) OVER (...)', description: 'Divides rows into buckets and returns the bucket number.' },
+  { name: 'LAG', signature: 'LAG(value_expression [, offset [, default_expression]]) OVER (...)', description: 'Value of a preceding row.' },
+  { name: 'LEAD', signature: 'LEAD(value_expression [, offset [, default_expression]]) OVER (...)', description: 'Value of a subsequent row.' },
+  { name: 'FIRST_VALUE', signature: 'FIRST_VALUE(value_expression [{RESPECT | IGNORE} NULLS]) OVER (...)', description: 'Value of the first row in the window frame.' },
+  { name: 'LAST_VALUE', signature: 'LAST_VALUE(value_expression [{RESPECT | IGNORE} NULLS]) OVER (...)', description: 'Value of the last row in the window frame.' },
+  // conditional
+  { name: 'COALESCE', signature: 'COALESCE(expr [, ...])', description: 'Returns the first non-NULL expression.' },
+  { name: 'IF', signature: 'IF(condition, true_result, else_result)', description: 'Returns true_result if condition is TRUE, otherwise else_result.' },
+  { name: 'IFNULL', signature: 'IFNULL(expr, null_result)', description: 'Returns null_result if expr is NULL, otherwise expr.' },
+  { name: 'NULLIF', signature: 'NULLIF(expr, expr_to_match)', description: 'Returns NULL if both expressions are equal, otherwise expr.' },
+  // conversion
+  { name: 'CAST', signature: 'CAST(expression AS typename [FORMAT format_string])', description: 'Converts expression to typename; errors on failure.' },
+  { name: 'SAFE_CAST', signature: 'SAFE_CAST(expression AS typename [FORMAT format_string])', description: 'Like CAST, but returns NULL instead of raising an error.' },
+  // string
+  { name: 'CONCAT', signature: 'CONCAT(value1 [, ...])', description: 'Concatenates STRING or BYTES values.' },
+  { name: 'CONTAINS_SUBSTR', signature: 'CONTAINS_SUBSTR(expression, search_value_literal)', description: 'Case-insensitive, normalized search for a value in an expression.' },
+  { name: 'ENDS_WITH', signature: 'ENDS_WITH(value, suffix)', description: 'Returns TRUE if value ends with suffix.' },
+  { name: 'FORMAT', signature: 'FORMAT(format_string, ...)', description: 'Formats data and produces a STRING (printf-style).' },
+  { name: 'LENGTH', signature: 'LENGTH(value)', description: 'Length of the STRING in characters or BYTES in bytes.' },
+  { name: 'LOWER', signature: 'LOWER(value)', description: 'Returns the lowercase STRING or BYTES.' },
+  { name: 'LTRIM', signature: 'LTRIM(value [, set_of_characters])', description: 'Removes leading characters.' },
+  { name: 'REGEXP_CONTAINS', signature: 'REGEXP_CONTAINS(value, regexp)', description: 'Returns TRUE if value partially matches the RE2 regexp.' },
+  { name: 'REGEXP_EXTRACT', signature: 'REGEXP_EXTRACT(value, regexp [, position [, occurrence]])', description: 'Returns the substring matching the regexp.' },
+  { name: 'REGEXP_REPLACE', signature: 'REGEXP_REPLACE(value, regexp, replacement)', description: 'Replaces all substrings matching the regexp.' },
+  { name: 'REPLACE', signature: 'REPLACE(original_value, from_pattern, to_pattern)', description: 'Replaces all occurrences of from_pattern.' },
+  { name: 'RTRIM', signature: 'RTRIM(value [, set_of_characters])', description: 'Removes trailing characters.' },
+  { name: 'SPLIT', signature: 'SPLIT(value [, delimiter])', description: 'Splits value into an ARRAY using delimiter (default ",").' },
+  { name: 'STARTS_WITH', signature: 'STARTS_WITH(value, prefix)', description: 'Returns TRUE if value starts with prefix.' },
+  { name: 'SUBSTR', signature: 'SUBSTR(value, position [, length])', description: 'Returns a substring starting at position (1-based).' },
+  { name: 'TRIM', signature: 'TRIM(value [, set_of_characters])', description: 'Removes leading and trailing characters.' },
+  { name: 'UPPER', signature: 'UPPER(value)', description: 'Returns the uppercase STRING or BYTES.' },
+  // math
+  { name: 'ABS', signature: 'ABS(X)', description: 'Absolute value.' },
+  { name: 'CEIL', signature: 'CEIL(X)', description: 'Smallest integral value not less than X.' },
+  { name: 'FLOOR', signature: 'FLOOR(X)', description: 'Largest integral value not greater than X.' },
+  { name: 'GREATEST', signature: 'GREATEST(X1, ..., XN)', description: 'Largest value among the arguments.' },
+  { name: 'LEAST', signature: 'LEAST(X1, ..., XN)', description: 'Smallest value among the arguments.' },
+  { name: 'MOD', signature: 'MOD(X, Y)', description: 'Modulo of X divided by Y.' },
+  { name: 'RAND', signature: 'RAND()', description: 'Pseudo-random FLOAT64 in [0, 1).' },
+  { name: 'ROUND', signature: 'ROUND(X [, N [, rounding_mode]])', description: 'Rounds X to N decimal places.' },
+  { name: 'SAFE_DIVIDE', signature: 'SAFE_DIVIDE(X, Y)', description: 'X / Y, or NULL on division by zero.' },
+  { name: 'TRUNC', signature: 'TRUNC(X [, N])', description: 'Truncates X to N decimal places.' },
+  // date & time
+  { name: 'CURRENT_DATE', signature: 'CURRENT_DATE([time_zone])', description: 'Current date in the given (or default UTC) time zone.' },
+  { name: 'CURRENT_DATETIME', signature: 'CURRENT_DATETIME([time_zone])', description: 'Current civil date and time.' },
+  { name: 'CURRENT_TIMESTAMP', signature: 'CURRENT_TIMESTAMP()', description: 'Current timestamp.' },
+  { name: 'DATE', signature: 'DATE(year, month, day) | DATE(timestamp_expression [, time_zone])', description: 'Constructs or extracts a DATE.' },
+  { name: 'DATE_ADD', signature: 'DATE_ADD(date_expression, INTERVAL int64_expression date_part)', description: 'Adds an interval to a DATE.' },
+  { name: 'DATE_DIFF', signature: 'DATE_DIFF(end_date, start_date, granularity)', description: 'Number of whole granularity intervals between two dates.' },
+  { name: 'DATE_SUB', signature: 'DATE_SUB(date_expression, INTERVAL int64_expression date_part)', description: 'Subtracts an interval from a DATE.' },
+  { name: 'DATE_TRUNC', signature: 'DATE_TRUNC(date_value, date_granularity)', description: 'Truncates a DATE to the granularity.' },
+  { name: 'EXTRACT', signature: 'EXTRACT(part FROM date_expression)', description: 'Returns the value of part from a date/time value.' },
+  { name: 'FORMAT_DATE', signature: 'FORMAT_DATE(format_string, date_expr)', description: 'Formats a DATE with format elements.' },
+  { name: 'FORMAT_TIMESTAMP', signature: 'FORMAT_TIMESTAMP(format_string, timestamp_expr [, time_zone])', description: 'Formats a TIMESTAMP with format elements.' },
+  { name: 'PARSE_DATE', signature: 'PARSE_DATE(format_string, date_string)', description: 'Parses a DATE from a string.' },
+  { name: 'PARSE_TIMESTAMP', signature: 'PARSE_TIMESTAMP(format_string, timestamp_string [, time_zone])', description: 'Parses a TIMESTAMP from a string.' },
+  { name: 'TIMESTAMP', signature: 'TIMESTAMP(string_expression [, time_zone])', description: 'Constructs a TIMESTAMP.' },
+  { name: 'TIMESTAMP_DIFF', signature: 'TIMESTAMP_DIFF(end_timestamp, start_timestamp, granularity)', description: 'Number of whole granularity intervals between two timestamps.' },
+  { name: 'TIMESTAMP_TRUNC', signature: 'TIMESTAMP_TRUNC(timestamp_value, granularity [, time_zone])', description: 'Truncates a TIMESTAMP to the granularity.' },
+  { name: 'UNIX_SECONDS', signature: 'UNIX_SECONDS(timestamp_expression)', description: 'Seconds since 1970-01-01 00:00:00 UTC.' },
+  // arrays
+  { name: 'ARRAY_CONCAT', signature: 'ARRAY_CONCAT(array_expression [, ...])', description: 'Concatenates arrays of the same element type.' },
+  { name: 'ARRAY_LENGTH', signature: 'ARRAY_LENGTH(array_expression)', description: 'Number of elements in the array.' },
+  { name: 'ARRAY_TO_STRING', signature: 'ARRAY_TO_STRING(array_expression, delimiter [, null_text])', description: 'Joins array elements into a STRING.' },
+  { name: 'GENERATE_ARRAY', signature: 'GENERATE_ARRAY(start_expression, end_expression [, step_expression])', description: 'Returns an array of values from start to end.' },
+  { name: 'GENERATE_DATE_ARRAY', signature: 'GENERATE_DATE_ARRAY(start_date, end_date [, INTERVAL int64_expr date_part])', description: 'Returns an array of dates.' },
+  // json
+  { name: 'JSON_EXTRACT_SCALAR', signature: 'JSON_EXTRACT_SCALAR(json_string_expr [, json_path])', description: 'Extracts a scalar value as a STRING (legacy JSONPath).' },
+  { name: 'JSON_QUERY', signature: 'JSON_QUERY(json_string_expr, json_path)', description: 'Extracts a JSON value.' },
+  { name: 'JSON_VALUE', signature: 'JSON_VALUE(json_string_expr [, json_path])', description: 'Extracts a JSON scalar as a STRING.' },
+  { name: 'PARSE_JSON', signature: "PARSE_JSON(json_string_expr [, wide_number_mode => 'exact' | 'round'])", description: 'Converts a JSON string into a JSON value.' },
+  { name: 'TO_JSON_STRING', signature: 'TO_JSON_STRING(value [, pretty_print])', description: 'Converts a value to a JSON-formatted STRING.' },
+  // misc
+  { name: 'FARM_FINGERPRINT', signature: 'FARM_FINGERPRINT(value)', description: 'FarmHash fingerprint of a STRING or BYTES as INT64.' },
+  { name: 'GENERATE_UUID', signature: 'GENERATE_UUID()', description: 'Returns a random universally unique identifier as a STRING.' },
+  { name: 'SESSION_USER', signature: 'SESSION_USER()', description: 'Email address of the user running the query.' },
+  { name: 'ST_GEOGPOINT', signature: 'ST_GEOGPOINT(longitude, latitude)', description: 'Creates a point GEOGRAPHY.' },
+  { name: 'ST_DISTANCE', signature: 'ST_DISTANCE(geography_1, geography_2 [, use_spheroid])', description: 'Shortest distance in meters between two geographies.' },
+];
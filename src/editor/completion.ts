@@ -0,0 +1,319 @@
+import { FUNCTIONS, KEYWORDS, TYPES } from './bigqueryLanguage';
+import { tableKey } from '../services/schemaService';
+import type { SchemaField, SchemaTable, TableDetails } from '../services/schemaService';
+
+/**
+ * Editor-independent completion logic for GoogleSQL.
+ * - after FROM/JOIN: fully qualified `project.dataset.table` names
+ * - after `alias.` or `table.`: that table's columns (and nested RECORD fields)
+ * - elsewhere: keywords, functions and the columns of every table in FROM/JOIN
+ */
+
+export type CompletionKind = 'keyword' | 'type' | 'function' | 'table' | 'column';
+
+export interface CompletionEntry {
+  label: string;
+  kind: CompletionKind;
+  insertText: string;
+  detail?: string;
+  documentation?: string;
+  // How many characters before the cursor the insert text replaces
+  replaceLength: number;
+}
+
+export interface CompletionSchema {
+  tables: SchemaTable[];
+  details: TableDetails[];
+}
+
+export interface TableReference {
+  // Identifier parts as written, e.g. ['my-project', 'sales', 'orders']
+  path: string[];
+  alias?: string;
+}
+
+const KEYWORD_SET = new Set(KEYWORDS);
+
+// Relative ordering of the groups in the suggestion list
+const SORT_GROUP: Record<CompletionKind, string> = {
+  column: '0',
+  table: '1',
+  function: '2',
+  keyword: '3',
+  type: '4',
+};
+
+const SEGMENT = '(?:`[^`]*`|[A-Za-z_][\\w-]*)';
+const PATH = `${SEGMENT}(?:\\.${SEGMENT})*`;
+const NON_CODE = /--[^\n]*|#[^\n]*|\/\*[\s\S]*?(?:\*\/|$)|'(?:\\.|[^'\\])*(?:'|$)|"(?:\\.|[^"\\])*(?:"|$)/g;
+const TABLE_REF = new RegExp(`^\\s*(${PATH})(?:\\s+(?:AS\\s+)?([A-Za-z_]\\w*))?`, 'i');
+
+/**
+ * Blank out comments and string literals (keeping offsets) so they are never read as SQL
+ */
+export function maskNonCode(sql: string): string {
+  return sql.replace(NON_CODE, (match) => match.replace(/[^\n]/g, ' '));
+}
+
+/**
+ * True when the end of `text` is inside a comment or an unterminated string literal
+ */
+export function endsInsideNonCode(text: string): boolean {
+  for (const match of text.matchAll(NON_CODE)) {
+    if (match.index + match[0].length !== text.length) continue;
+    const token = match[0];
+    if (token.startsWith('--') || token.startsWith('#')) return true;
+    if (token.startsWith('/*')) return !(token.length >= 4 && token.endsWith('*/'));
+    return !(token.length >= 2 && token.endsWith(token[0]));
+  }
+  return false;
+}
+
+/**
+ * Split a dotted identifier path, unquoting backticked segments.
+ * `a.b.c` inside one pair of backticks is three parts, as BigQuery treats it.
+ */
+export function splitPath(path: string): string[] {
+  const parts: string[] = [];
+  for (const segment of path.match(new RegExp(SEGMENT, 'g')) ?? []) {
+    const unquoted = segment.startsWith('`') ? segment.slice(1, -1) : segment;
+    parts.push(...unquoted.split('.').filter(Boolean));
+  }
+  return parts;
+}
+
+/**
+ * Find the tables named in FROM and JOIN clauses (including comma joins) with their aliases
+ */
+export function parseTableReferences(sql: string): TableReference[] {
+  const code = maskNonCode(sql);
+  const references: TableReference[] = [];
+  const clause = /\b(?:FROM|JOIN)\b/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = clause.exec(code))) {
+    let rest = code.slice(match.index + match[0].length);
+    for (;;) {
+      const ref = TABLE_REF.exec(rest);
+      if (!ref) break;
+      // `FROM UNNEST(...)` and table functions are not table names
+      const afterPath = rest.slice(ref[0].indexOf(ref[1]) + ref[1].length);
+      if (/^\s*\(/.test(afterPath)) break;
+      const path = splitPath(ref[1]);
+      if (path.length === 0 || (path.length === 1 && KEYWORD_SET.has(path[0].toUpperCase()))) break;
+
+      const alias = ref[2] && !KEYWORD_SET.has(ref[2].toUpperCase()) ? ref[2] : undefined;
+      references.push(alias ? { path, alias } : { path });
+
+      rest = alias ? rest.slice(ref[0].length) : afterPath;
+      const comma = /^\s*,/.exec(rest);
+      if (!comma) break;
+      rest = rest.slice(comma[0].length);
+    }
+  }
+  return references;
+}
+
+function allTables(schema: CompletionSchema): SchemaTable[] {
+  const byKey = new Map<string, SchemaTable>();
+  for (const table of [...schema.tables, ...schema.details]) {
+    if (!byKey.has(tableKey(table))) byKey.set(tableKey(table), table);
+  }
+  return Array.from(byKey.values());
+}
+
+/**
+ * Match a (possibly partially qualified) table path against the known tables.
+ * Partial paths only resolve when they are unambiguous.
+ */
+export function resolveTable<T extends SchemaTable>(path: string[], tables: T[]): T | undefined {
+  const wanted = path.map((part) => part.toLowerCase());
+  const candidates = tables.filter((table) => {
+    const full = [table.projectId, table.datasetId, table.tableId].map((part) => part.toLowerCase());
+    if (wanted.length > 3 || wanted.length === 0) return false;
+    return full.slice(3 - wanted.length).every((part, i) => part === wanted[i]);
+  });
+  return candidates.length === 1 ? candidates[0] : undefined;
+}
+
+/**
+ * Tables referenced by the query that are known by name but whose fields have not been
+ * loaded yet, so the caller can fetch them before asking for column completions.
+ */
+export function findUnloadedTables(sql: string, schema: CompletionSchema): SchemaTable[] {
+  const loaded = new Set(schema.details.map(tableKey));
+  const tables = allTables(schema);
+  const missing = new Map<string, SchemaTable>();
+  for (const ref of parseTableReferences(sql)) {
+    let table = resolveTable(ref.path, tables);
+    if (!table && ref.path.length === 3) {
+      const [projectId, datasetId, tableId] = ref.path;
+      table = { projectId, datasetId, tableId };
+    }
+    if (table && !loaded.has(tableKey(table))) missing.set(tableKey(table), table);
+  }
+  return Array.from(missing.values());
+}
+
+function fieldType(field: SchemaField): string {
+  return field.mode?.toUpperCase() === 'REPEATED' ? `ARRAY<${field.type}>` : field.type;
+}
+
+function columnEntries(fields: SchemaField[], source: string, replaceLength: number): CompletionEntry[] {
+  return fields.map((field) => ({
+    label: field.name,
+    kind: 'column',
+    insertText: field.name,
+    detail: `${fieldType(field)} · ${source}`,
+    documentation: field.description,
+    replaceLength,
+  }));
+}
+
+interface CursorContext {
+  // Identifier parts typed before the last dot, e.g. ['o'] for `o.cu|`
+  qualifier: string[];
+  // The partial word at the cursor
+  prefix: string;
+  // Everything typed for the current identifier path, including backticks
+  typed: string;
+  // Inside an unterminated backtick identifier
+  quoted: boolean;
+  afterTableKeyword: boolean;
+}
+
+function cursorContext(code: string): CursorContext {
+  const backticks = (code.match(/`/g) ?? []).length;
+  let typed: string;
+  let quoted = false;
+  if (backticks % 2 === 1) {
+    const open = code.lastIndexOf('`');
+    const before = new RegExp(`(?:${SEGMENT}\\.)*$`).exec(code.slice(0, open))?.[0] ?? '';
+    typed = before + code.slice(open);
+    quoted = true;
+  } else {
+    typed = new RegExp(`(?:${SEGMENT}\\.)*[\\w-]*$`).exec(code)?.[0] ?? '';
+  }
+
+  const parts = splitPath(quoted ? `${typed}\`` : typed);
+  const endsWithDot = /\.$/.test(typed) || typed === '`';
+  const prefix = endsWithDot || typed === '' ? '' : (parts.pop() ?? '');
+  const head = code.slice(0, code.length - typed.length);
+
+  return {
+    qualifier: parts,
+    prefix,
+    typed,
+    quoted,
+    afterTableKeyword: /\b(?:FROM|JOIN)\s+$/i.test(head) || isFromListContinuation(head),
+  };
+}
+
+// `FROM a, |` also expects a table name
+function isFromListContinuation(head: string): boolean {
+  if (!/,\s*$/.test(head)) return false;
+  const clause = head.match(/\b(FROM|JOIN|SELECT|WHERE|GROUP|ORDER|HAVING|ON|QUALIFY|WINDOW|LIMIT)\b/gi);
+  return !!clause && /^(FROM|JOIN)$/i.test(clause[clause.length - 1]);
+}
+
+function tableEntries(schema: CompletionSchema, context: CursorContext): CompletionEntry[] {
+  return allTables(schema).map((table) => {
+    const name = tableKey(table);
+    return {
+      label: name,
+      kind: 'table',
+      insertText: context.quoted ? name : `\`${name}\``,
+      detail: table.type ?? 'TABLE',
+      documentation: schema.details.find((d) => tableKey(d) === name)?.description,
+      replaceLength: context.quoted ? context.typed.length - context.typed.indexOf('`') - 1 : context.typed.length,
+    };
+  });
+}
+
+function memberEntries(
+  sql: string,
+  schema: CompletionSchema,
+  context: CursorContext
+): CompletionEntry[] {
+  const references = parseTableReferences(sql);
+  const [head, ...nested] = context.qualifier;
+  let details: TableDetails | undefined;
+  let remaining = nested;
+
+  const aliased = references.find((ref) => ref.alias?.toLowerCase() === head.toLowerCase());
+  if (aliased) {
+    details = resolveTable(aliased.path, schema.details);
+  } else {
+    // `table.column`, or a qualified table path followed by a column
+    for (let length = Math.min(3, context.qualifier.length); length > 0 && !details; length--) {
+      const candidate = resolveTable(context.qualifier.slice(0, length), schema.details);
+      if (candidate && references.some((ref) => resolveTable(ref.path, schema.details) === candidate)) {
+        details = candidate;
+        remaining = context.qualifier.slice(length);
+      }
+    }
+  }
+  if (!details) return [];
+
+  // Walk into RECORD fields for `alias.record.`
+  let fields = details.fields;
+  for (const part of remaining) {
+    const field = fields.find((f) => f.name.toLowerCase() === part.toLowerCase());
+    if (!field?.fields) return [];
+    fields = field.fields;
+  }
+  return columnEntries(fields, details.tableId, context.prefix.length);
+}
+
+function generalEntries(sql: string, schema: CompletionSchema, context: CursorContext): CompletionEntry[] {
+  const replaceLength = context.prefix.length;
+  const entries: CompletionEntry[] = [];
+
+  const seen = new Set<string>();
+  for (const ref of parseTableReferences(sql)) {
+    const details = resolveTable(ref.path, schema.details);
+    if (!details || seen.has(tableKey(details))) continue;
+    seen.add(tableKey(details));
+    entries.push(...columnEntries(details.fields, ref.alias ?? details.tableId, replaceLength));
+  }
+
+  for (const fn of FUNCTIONS) {
+    entries.push({
+      label: fn.name,
+      kind: 'function',
+      insertText: fn.name,
+      detail: fn.signature,
+      documentation: fn.description,
+      replaceLength,
+    });
+  }
+  for (const keyword of KEYWORDS) {
+    // Functions such as IF and CAST are also keywords; suggest them once
+    if (FUNCTIONS.some((fn) => fn.name === keyword)) continue;
+    entries.push({ label: keyword, kind: 'keyword', insertText: keyword, replaceLength });
+  }
+  for (const type of TYPES) {
+    if (KEYWORD_SET.has(type)) continue;
+    entries.push({ label: type, kind: 'type', insertText: type, replaceLength });
+  }
+  return entries;
+}
+
+/**
+ * Suggestions for the cursor at `offset` in `sql`
+ */
+export function getCompletions(sql: string, offset: number, schema: CompletionSchema): CompletionEntry[] {
+  const before = sql.slice(0, offset);
+  // No suggestions inside comments or string literals
+  if (endsInsideNonCode(before)) return [];
+  const code = maskNonCode(before);
+
+  const context = cursorContext(code);
+  if (context.afterTableKeyword) return tableEntries(schema, context);
+  if (context.qualifier.length > 0) return memberEntries(sql, schema, context);
+  return generalEntries(sql, schema, context);
+}
+
+export function sortText(entry: CompletionEntry): string {
+  return `${SORT_GROUP[entry.kind]}${entry.label.toLowerCase()}`;
+}
@@ -0,0 +1,798 @@
+import { RESERVED_KEYWORDS, TYPES } from './bigqueryLanguage';
+
+/**
+ * GoogleSQL formatter.
+ *
+ * The query is split into tokens (comments, strings and backtick identifiers are kept
+ * verbatim) and re-emitted line by line. A stack of frames tracks where we are:
+ * - statement / body / subquery frames hold clauses (SELECT, FROM, WHERE, ...); clause
+ *   keywords start a line and their contents are indented one level below
+ * - paren / bracket / angle frames are written inline, so function calls, OVER (...)
+ *   windows, ARRAY [...] literals and STRUCT<...> types stay on one line
+ * - case and scripting frames (BEGIN, IF, WHILE, LOOP, REPEAT, FOR) indent their bodies
+ */
+
+export type KeywordCase = 'upper' | 'lower' | 'preserve';
+export type CommaStyle = 'trailing' | 'leading';
+
+export interface FormatOptions {
+  keywordCase: KeywordCase;
+  indentWidth: number;
+  commaStyle: CommaStyle;
+}
+
+export const DEFAULT_FORMAT_OPTIONS: FormatOptions = {
+  keywordCase: 'upper',
+  indentWidth: 2,
+  commaStyle: 'trailing',
+};
+
+type TokenType =
+  | 'word'
+  | 'quoted'
+  | 'string'
+  | 'number'
+  | 'param'
+  | 'comment'
+  | 'line-comment'
+  | 'operator'
+  | 'open'
+  | 'close'
+  | 'comma'
+  | 'dot'
+  | 'semicolon';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  // The token is the first thing on its source line
+  newlineBefore: boolean;
+  // ...and an empty line separates it from the previous token
+  blankLineBefore: boolean;
+}
+
+const TOKEN_PATTERNS: [TokenType, RegExp][] = [
+  ['line-comment', /(?:--|#)[^\n]*/y],
+  ['comment', /\/\*[\s\S]*?(?:\*\/|$)/y],
+  ['string', /(?:[rRbB]{1,2})?(?:'''[\s\S]*?(?:'''|$)|"""[\s\S]*?(?:"""|$)|'(?:\\.|[^'\\\n])*'?|"(?:\\.|[^"\\\n])*"?)/y],
+  ['quoted', /`(?:\\.|[^`\\])*`?/y],
+  ['number', /0[xX][0-9a-fA-F]+|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y],
+  ['param', /@@?[A-Za-z_]\w*/y],
+  ['word', /[A-Za-z_]\w*/y],
+  ['operator', /<>|<=|>=|!=|=>|->|\|\||<<|>>|[-+*/%=<>~^&|!?:]/y],
+  ['open', /[([]/y],
+  ['close', /[)\]]/y],
+  ['comma', /,/y],
+  ['dot', /\./y],
+  ['semicolon', /;/y],
+];
+
+// After these, unquoted names may contain dashes (`FROM my-project.dataset.table`)
+const TABLE_NAME_INTRO = new Set(['FROM', 'JOIN', 'INTO', 'TABLE', 'UPDATE', 'MERGE', 'VIEW', 'USING']);
+
+export function tokenize(sql: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  let newlineBefore = true;
+  let blankLineBefore = false;
+  let tableName = false;
+
+  while (index < sql.length) {
+    const whitespace = /\s+/y;
+    whitespace.lastIndex = index;
+    const space = whitespace.exec(sql);
+    if (space) {
+      newlineBefore ||= space[0].includes('\n');
+      blankLineBefore ||= /\n[^\S\n]*\n/.test(space[0]);
+      index += space[0].length;
+      continue;
+    }
+
+    let token: Token | null = null;
+    if (tableName) {
+      const dashed = /[A-Za-z_][\w-]*/y;
+      dashed.lastIndex = index;
+      const match = dashed.exec(sql);
+      if (match) token = { type: 'word', text: match[0], newlineBefore, blankLineBefore };
+    }
+    for (const [type, pattern] of TOKEN_PATTERNS) {
+      if (token) break;
+      pattern.lastIndex = index;
+      const match = pattern.exec(sql);
+      if (match && match[0]) token = { type, text: match[0], newlineBefore, blankLineBefore };
+    }
+    token ??= { type: 'operator', text: sql[index], newlineBefore, blankLineBefore };
+
+    if (token.type === 'word') {
+      tableName = TABLE_NAME_INTRO.has(token.text.toUpperCase()) || (tableName && tokens[tokens.length - 1]?.type === 'dot');
+    } else if (token.type !== 'dot' && token.type !== 'quoted') {
+      tableName = false;
+    }
+
+    tokens.push(token);
+    index += token.text.length;
+    newlineBefore = false;
+    blankLineBefore = false;
+  }
+  return tokens;
+}
+
+type FrameKind =
+  | 'statement'
+  | 'body'
+  | 'subquery'
+  | 'paren'
+  | 'bracket'
+  | 'angle'
+  | 'case'
+  | 'begin'
+  | 'if'
+  | 'while'
+  | 'loop'
+  | 'repeat'
+  | 'for';
+
+interface Frame {
+  kind: FrameKind;
+  indent: number;
+  // Everything inside is written on the current line
+  inline: boolean;
+  clause: string | null;
+  // Extra clause indent, used for MERGE actions after WHEN ... THEN
+  offset: number;
+  statementStart: boolean;
+  between: boolean;
+  merge: boolean;
+}
+
+interface Emitted {
+  type: TokenType;
+  upper: string;
+  keyword: boolean;
+  angle: boolean;
+  unary: boolean;
+}
+
+interface Line {
+  indent: number;
+  text: string;
+  blank?: boolean;
+}
+
+const RESERVED = new Set(RESERVED_KEYWORDS);
+const TYPE_NAMES = new Set([...TYPES, 'INTEGER', 'FLOAT', 'BOOLEAN', 'DECIMAL', 'BIGDECIMAL']);
+const QUERY_FRAMES = new Set<FrameKind>(['statement', 'body', 'subquery']);
+const BLOCK_FRAMES = new Set<FrameKind>(['begin', 'if', 'while', 'loop', 'repeat', 'for']);
+
+// Clauses whose contents go on their own lines, one comma-separated item per line
+const LIST_CLAUSES = new Set([
+  'SELECT', 'FROM', 'WHERE', 'GROUP BY', 'HAVING', 'QUALIFY', 'WINDOW', 'ORDER BY',
+  'WITH', 'SET', 'VALUES', 'PARTITION BY', 'CLUSTER BY',
+]);
+const CONDITION_CLAUSES = new Set(['WHERE', 'HAVING', 'QUALIFY']);
+// Clauses that start a line but keep their contents on it
+const INLINE_CLAUSES = new Set(['LIMIT', 'INSERT', 'DELETE', 'UPDATE', 'CREATE', 'DROP', 'TRUNCATE', 'ALTER']);
+const SCRIPT_STATEMENTS = new Set([
+  'DECLARE', 'SET', 'CALL', 'RETURN', 'BREAK', 'CONTINUE', 'LEAVE', 'ITERATE', 'EXECUTE',
+  'ASSERT', 'RAISE', 'COMMIT', 'ROLLBACK',
+]);
+const JOIN_WORDS = new Set(['INNER', 'LEFT', 'RIGHT', 'FULL', 'CROSS', 'OUTER', 'JOIN']);
+const END_SUFFIXES = new Set(['IF', 'WHILE', 'LOOP', 'FOR', 'REPEAT']);
+// Keywords written like functions, without a space before "("
+const FUNCTION_LIKE = new Set(['ARRAY', 'STRUCT', 'CAST', 'IF', 'UNNEST', 'EXTRACT', 'RANGE', 'LEFT', 'RIGHT', 'COLLATE']);
+// Non-reserved keywords, recased only right after one of the listed words
+const CONTEXTUAL_KEYWORDS: Record<string, string[]> = {
+  TABLE: ['CREATE', 'REPLACE', 'TEMP', 'TEMPORARY', 'EXISTS', 'DROP', 'TRUNCATE', 'SNAPSHOT', 'EXTERNAL'],
+  VIEW: ['CREATE', 'REPLACE', 'MATERIALIZED', 'EXISTS', 'DROP'],
+  MATERIALIZED: ['CREATE', 'REPLACE'],
+  REPLACE: ['OR'],
+  TEMP: ['CREATE', 'REPLACE'],
+  TEMPORARY: ['CREATE', 'REPLACE'],
+  OFFSET: ['WITH'],
+  ORDINALITY: ['WITH'],
+  IMMEDIATE: ['EXECUTE'],
+  MATCHED: ['WHEN', 'NOT'],
+  ERROR: ['WHEN'],
+  TRANSACTION: ['BEGIN', 'COMMIT', 'ROLLBACK'],
+  VALUE: ['AS'],
+};
+
+class Formatter {
+  private readonly tokens: Token[];
+  private position = 0;
+  private readonly lines: Line[] = [];
+  private readonly frames: Frame[] = [];
+  private prev: Emitted | null = null;
+  // Inside a table name after INTO / TABLE / VIEW, where "(" starts a column list
+  private tableName = false;
+  private pendingComments: string[] = [];
+  private breakPending = false;
+  private readonly options: FormatOptions;
+
+  constructor(sql: string, options: FormatOptions) {
+    this.options = options;
+    this.tokens = tokenize(sql);
+    this.frames.push(this.frame('statement', 0, false));
+  }
+
+  format(): string {
+    while (this.position < this.tokens.length) {
+      const token = this.tokens[this.position++];
+      this.handle(token);
+    }
+    if (this.pendingComments.length) this.newline(0);
+
+    const unit = ' '.repeat(Math.max(0, this.options.indentWidth));
+    const rendered = this.lines.map((line) => (line.text ? unit.repeat(line.indent) + line.text : ''));
+    while (rendered.length && rendered[rendered.length - 1] === '') rendered.pop();
+    return rendered.join('\n');
+  }
+
+  private frame(kind: FrameKind, indent: number, inline: boolean): Frame {
+    return {
+      kind,
+      indent,
+      inline,
+      clause: null,
+      offset: 0,
+      statementStart: kind === 'statement' || kind === 'body',
+      between: false,
+      merge: false,
+    };
+  }
+
+  private get top(): Frame {
+    return this.frames[this.frames.length - 1];
+  }
+
+  private push(kind: FrameKind, indent: number, inline = false): Frame {
+    const frame = this.frame(kind, indent, inline);
+    this.frames.push(frame);
+    return frame;
+  }
+
+  private pop(): Frame | undefined {
+    return this.frames.length > 1 ? this.frames.pop() : undefined;
+  }
+
+  private get structural(): boolean {
+    return QUERY_FRAMES.has(this.top.kind) && !this.top.inline;
+  }
+
+  private get currentIndent(): number {
+    return this.lines[this.lines.length - 1]?.indent ?? 0;
+  }
+
+  private clauseIndent(frame = this.top): number {
+    return frame.indent + frame.offset;
+  }
+
+  private bodyIndent(frame = this.top): number {
+    return this.clauseIndent(frame) + 1;
+  }
+
+  private continuationIndent(): number {
+    const frame = this.top;
+    if (QUERY_FRAMES.has(frame.kind)) return frame.clause ? this.bodyIndent(frame) : this.clauseIndent(frame);
+    if (frame.kind === 'case') return frame.indent;
+    return this.currentIndent + 1;
+  }
+
+  // Output
+
+  private newline(indent: number, blank = false) {
+    const last = this.lines[this.lines.length - 1];
+    if (last && last.text === '' && !last.blank) {
+      last.indent = indent;
+    } else {
+      this.lines.push({ indent, text: '' });
+    }
+    if (blank && this.lines.length > 1) {
+      this.lines.splice(this.lines.length - 1, 0, { indent: 0, text: '', blank: true });
+    }
+    this.breakPending = false;
+    this.prev = null;
+
+    const comments = this.pendingComments;
+    this.pendingComments = [];
+    for (const comment of comments) {
+      this.lines[this.lines.length - 1].text = comment;
+      this.lines.push({ indent, text: '' });
+    }
+  }
+
+  private write(text: string, emitted: Emitted) {
+    if (this.pendingComments.length || this.breakPending) this.newline(this.continuationIndent());
+    if (this.lines.length === 0) this.newline(0);
+
+    const line = this.lines[this.lines.length - 1];
+    const space = line.text !== '' && this.needsSpace(emitted, text);
+    line.text += (space ? ' ' : '') + text;
+    if (emitted.type === 'word' && ['INTO', 'TABLE', 'VIEW'].includes(emitted.upper)) {
+      this.tableName = true;
+    } else if (emitted.keyword || !['word', 'dot', 'quoted'].includes(emitted.type)) {
+      this.tableName = false;
+    }
+    this.prev = emitted;
+  }
+
+  private needsSpace(current: Emitted, text: string): boolean {
+    const prev = this.prev;
+    if (!prev) return false;
+    if (['comma', 'semicolon', 'close', 'dot'].includes(current.type) || current.angle) return false;
+    if (prev.type === 'open' || prev.type === 'dot' || prev.unary || (prev.angle && prev.upper === '<')) return false;
+
+    if (text === '(') {
+      // `INSERT INTO t (a, b)` and `CREATE TABLE t (...)` name a table, not a function
+      if (this.tableName && (prev.type === 'word' || prev.type === 'quoted')) return true;
+      if (prev.type === 'word') return prev.keyword && !FUNCTION_LIKE.has(prev.upper);
+      return !(prev.type === 'quoted' || prev.angle);
+    }
+    if (text === '[') {
+      if (prev.type === 'word') return prev.keyword && prev.upper !== 'ARRAY';
+      return !(prev.type === 'quoted' || prev.type === 'close' || prev.angle);
+    }
+    return true;
+  }
+
+  private applyCase(text: string): string {
+    switch (this.options.keywordCase) {
+      case 'upper':
+        return text.toUpperCase();
+      case 'lower':
+        return text.toLowerCase();
+      default:
+        return text;
+    }
+  }
+
+  private emit(token: Token, extra: Partial<Emitted> = {}) {
+    const emitted: Emitted = {
+      type: token.type,
+      upper: token.text.toUpperCase(),
+      keyword: false,
+      angle: false,
+      unary: false,
+      ...extra,
+    };
+    this.write(emitted.keyword ? this.applyCase(token.text) : token.text, emitted);
+  }
+
+  private emitKeyword(token: Token) {
+    this.emit(token, { keyword: true });
+  }
+
+  // Tokens
+
+  private peek(offset = 0): Token | undefined {
+    let seen = 0;
+    for (let i = this.position; i < this.tokens.length; i++) {
+      const token = this.tokens[i];
+      if (token.type === 'comment' || token.type === 'line-comment') continue;
+      if (seen++ === offset) return token;
+    }
+    return undefined;
+  }
+
+  private peekWord(offset = 0): string {
+    const token = this.peek(offset);
+    return token?.type === 'word' ? token.text.toUpperCase() : '';
+  }
+
+  // Consume the next significant token, keeping any comments in between
+  private next(): Token {
+    while (this.position < this.tokens.length) {
+      const token = this.tokens[this.position++];
+      if (token.type === 'comment' || token.type === 'line-comment') {
+        this.handleComment(token);
+        continue;
+      }
+      return token;
+    }
+    throw new Error('Unexpected end of query');
+  }
+
+  private emitWords(...words: string[]) {
+    for (const word of words) {
+      if (this.peekWord() !== word) return;
+      this.emitKeyword(this.next());
+    }
+  }
+
+  private handle(token: Token) {
+    switch (token.type) {
+      case 'comment':
+      case 'line-comment':
+        return this.handleComment(token);
+      case 'word': {
+        // Read the frame first: the word may open a block whose body starts a statement
+        const frame = this.top;
+        this.handleWord(token);
+        frame.statementStart = false;
+        return;
+      }
+      case 'open':
+        return this.handleOpen(token);
+      case 'close':
+        return this.handleClose(token);
+      case 'comma':
+        return this.handleComma(token);
+      case 'semicolon':
+        return this.handleSemicolon(token);
+      case 'operator':
+        return this.handleOperator(token);
+      default:
+        this.top.statementStart = false;
+        return this.emit(token);
+    }
+  }
+
+  private handleComment(token: Token) {
+    if (token.newlineBefore || this.lines.length === 0) {
+      this.pendingComments.push(token.text);
+      return;
+    }
+    // A comment trailing `a,` belongs on that line even though the next item already moved down
+    const last = this.lines[this.lines.length - 1];
+    const previous = this.lines[this.lines.length - 2];
+    if (last.text === '' && previous?.text && !previous.blank) {
+      previous.text += ` ${token.text}`;
+      return;
+    }
+    last.text += (last.text ? ' ' : '') + token.text;
+    if (token.type === 'line-comment') this.breakPending = true;
+  }
+
+  private handleOpen(token: Token) {
+    if (token.text === '[') {
+      this.emit(token);
+      this.push('bracket', this.top.indent, true);
+      return;
+    }
+    const first = this.peekWord();
+    if (first === 'SELECT' || first === 'WITH') {
+      this.emit(token);
+      this.push('subquery', this.currentIndent + 1);
+      return;
+    }
+    this.emit(token);
+    this.push('paren', this.top.indent, true);
+  }
+
+  private handleClose(token: Token) {
+    const wanted = token.text === ']' ? ['bracket'] : ['paren', 'subquery'];
+    if (!this.frames.some((frame, i) => i > 0 && wanted.includes(frame.kind))) {
+      this.emit(token);
+      return;
+    }
+    let frame = this.pop();
+    while (frame && !wanted.includes(frame.kind)) frame = this.pop();
+    if (frame?.kind === 'subquery') this.newline(frame.indent - 1);
+    this.emit(token);
+  }
+
+  private handleComma(token: Token) {
+    const frame = this.top;
+    if (!this.structural || !frame.clause || !LIST_CLAUSES.has(frame.clause)) {
+      this.emit(token);
+      return;
+    }
+    if (this.options.commaStyle === 'leading') {
+      this.newline(this.bodyIndent());
+      this.emit(token);
+    } else {
+      this.emit(token);
+      this.newline(this.bodyIndent());
+    }
+  }
+
+  private handleSemicolon(token: Token) {
+    while (!QUERY_FRAMES.has(this.top.kind) || this.top.kind === 'subquery') {
+      if (!this.pop()) break;
+    }
+    this.emit(token);
+    const frame = this.top;
+    Object.assign(frame, { clause: null, offset: 0, statementStart: true, between: false, merge: false });
+    // Statements stay apart where the author separated them with an empty line
+    this.newline(frame.indent, !!this.peek()?.blankLineBefore);
+  }
+
+  private handleOperator(token: Token) {
+    const prev = this.prev;
+    const angleOpen = token.text === '<' && prev?.type === 'word' && ['ARRAY', 'STRUCT', 'RANGE'].includes(prev.upper);
+    if (angleOpen) {
+      this.emit(token, { angle: true });
+      this.push('angle', this.top.indent, true);
+      return;
+    }
+    if (this.top.kind === 'angle' && (token.text === '>' || token.text === '>>')) {
+      this.pop();
+      if (token.text === '>>' && this.top.kind === 'angle') this.pop();
+      this.emit(token, { angle: true });
+      return;
+    }
+
+    const unary =
+      ['-', '+', '~'].includes(token.text) &&
+      (!prev ||
+        prev.type === 'open' ||
+        prev.type === 'comma' ||
+        (prev.type === 'operator' && !prev.angle) ||
+        (prev.type === 'word' && prev.keyword && !['END', 'NULL', 'TRUE', 'FALSE'].includes(prev.upper)));
+    this.emit(token, { unary });
+  }
+
+  private startClause(token: Token, name: string, list: boolean) {
+    const frame = this.top;
+    this.newline(this.clauseIndent(frame));
+    this.emitKeyword(token);
+    for (const word of name.split(' ').slice(1)) this.emitWords(word);
+    frame.clause = name;
+    frame.between = false;
+    if (name === 'SELECT') {
+      this.emitWords('DISTINCT');
+      this.emitWords('ALL');
+      if (this.peekWord() === 'AS' && ['STRUCT', 'VALUE'].includes(this.peekWord(1))) {
+        this.emitKeyword(this.next());
+        this.emitKeyword(this.next());
+      }
+    }
+    if (name === 'WITH') this.emitWords('RECURSIVE');
+    if (list) this.newline(this.bodyIndent(frame));
+  }
+
+  private handleWord(token: Token) {
+    const upper = token.text.toUpperCase();
+    const frame = this.top;
+
+    // `t.order` is a column, whatever its name
+    if (this.prev?.type === 'dot') return this.emit(token);
+
+    if (this.handleScripting(token, upper)) return;
+
+    if (upper === 'CASE') {
+      this.emitKeyword(token);
+      this.push('case', this.currentIndent + 1, frame.inline);
+      return;
+    }
+    if (frame.kind === 'case' && (upper === 'WHEN' || upper === 'ELSE')) {
+      if (!frame.inline) this.newline(frame.indent);
+      return this.emitKeyword(token);
+    }
+    if (frame.kind === 'case' && upper === 'END') {
+      this.pop();
+      if (!frame.inline) this.newline(frame.indent - 1);
+      return this.emitKeyword(token);
+    }
+    if (upper === 'BETWEEN') frame.between = true;
+
+    // `CREATE TABLE ... AS` puts the query below
+    if (upper === 'AS' && this.structural && ['SELECT', 'WITH'].includes(this.peekWord())) {
+      this.newline(this.clauseIndent());
+      this.emitKeyword(token);
+      frame.clause = null;
+      return;
+    }
+
+    if (this.structural && this.handleClause(token, upper)) return;
+
+    const previous = this.prev?.type === 'word' && this.prev.keyword ? this.prev.upper : '';
+    const keyword =
+      RESERVED.has(upper) ||
+      this.isTypeName(upper) ||
+      (CONTEXTUAL_KEYWORDS[upper]?.includes(previous) ?? false) ||
+      (upper === 'OFFSET' && frame.clause === 'LIMIT');
+    this.emit(token, { keyword });
+  }
+
+  private handleClause(token: Token, upper: string): boolean {
+    const frame = this.top;
+    const next = this.peekWord();
+
+    if (INLINE_CLAUSES.has(upper)) {
+      this.startClause(token, upper, false);
+      return true;
+    }
+    switch (upper) {
+      case 'SELECT':
+      case 'WHERE':
+      case 'HAVING':
+      case 'QUALIFY':
+      case 'WINDOW':
+      case 'VALUES':
+        this.startClause(token, upper, true);
+        return true;
+      case 'FROM':
+        // `DELETE FROM t` and `a IS DISTINCT FROM b`
+        if (this.prev?.upper === 'DELETE' || this.prev?.upper === 'DISTINCT') return false;
+        this.startClause(token, upper, true);
+        return true;
+      case 'GROUP':
+      case 'ORDER':
+      case 'PARTITION':
+      case 'CLUSTER':
+        if (next !== 'BY') return false;
+        this.startClause(token, `${upper} BY`, true);
+        return true;
+      case 'WITH':
+        // `UNNEST(...) WITH OFFSET`
+        if (next === 'OFFSET' || next === 'ORDINALITY') return false;
+        this.startClause(token, upper, true);
+        return true;
+      case 'SET':
+        this.startClause(token, upper, true);
+        return true;
+      case 'MERGE':
+        this.startClause(token, upper, false);
+        frame.merge = true;
+        return true;
+      case 'USING':
+      case 'ON':
+        if (!frame.merge || frame.clause === 'FROM') return false;
+        frame.offset = 0;
+        this.startClause(token, upper, false);
+        return true;
+      case 'WHEN':
+        if (!frame.merge) return false;
+        frame.offset = 0;
+        this.startClause(token, upper, false);
+        return true;
+      case 'THEN':
+        if (!frame.merge || frame.clause !== 'WHEN') return false;
+        this.emitKeyword(token);
+        // The action (UPDATE SET / INSERT VALUES / DELETE) is nested under WHEN
+        frame.offset = 1;
+        frame.clause = null;
+        this.newline(this.clauseIndent());
+        return true;
+      case 'UNION':
+      case 'INTERSECT':
+      case 'EXCEPT':
+        if (next !== 'ALL' && next !== 'DISTINCT') return false;
+        this.newline(this.clauseIndent());
+        this.emitKeyword(token);
+        this.emitKeyword(this.next());
+        frame.clause = null;
+        this.newline(this.clauseIndent());
+        return true;
+      case 'AND':
+      case 'OR':
+        if (upper === 'AND' && frame.between) {
+          frame.between = false;
+          return false;
+        }
+        if (!frame.clause || !CONDITION_CLAUSES.has(frame.clause)) return false;
+        this.newline(this.bodyIndent());
+        this.emitKeyword(token);
+        return true;
+    }
+
+    if (JOIN_WORDS.has(upper) && upper !== 'OUTER' && frame.clause === 'FROM' && this.isJoin(upper)) {
+      this.newline(this.bodyIndent());
+      this.emitKeyword(token);
+      while (JOIN_WORDS.has(this.peekWord())) {
+        const word = this.next();
+        this.emitKeyword(word);
+        if (word.text.toUpperCase() === 'JOIN') break;
+      }
+      return true;
+    }
+    return false;
+  }
+
+  // Type names are only recased where they cannot be a column: `STRUCT<date DATE>`, `DECLARE d DATE`
+  private isTypeName(upper: string): boolean {
+    if (!TYPE_NAMES.has(upper)) return false;
+    if (this.top.kind === 'angle') return this.peek()?.type !== 'word';
+    return this.top.clause === 'STATEMENT DECLARE' && this.prev?.type === 'word' && !this.prev.keyword;
+  }
+
+  private isJoin(upper: string): boolean {
+    if (upper === 'JOIN') return true;
+    for (let i = 0; i < 3; i++) {
+      const word = this.peekWord(i);
+      if (word === 'JOIN') return true;
+      if (!JOIN_WORDS.has(word)) return false;
+    }
+    return false;
+  }
+
+  private handleScripting(token: Token, upper: string): boolean {
+    const frame = this.top;
+    const parent = this.frames[this.frames.length - 2];
+
+    if (frame.statementStart && !frame.inline && (frame.kind === 'statement' || frame.kind === 'body')) {
+      switch (upper) {
+        case 'BEGIN':
+          if (this.peekWord() === 'TRANSACTION') break;
+          this.newline(frame.indent);
+          this.emitKeyword(token);
+          this.push('begin', frame.indent);
+          this.push('body', frame.indent + 1);
+          this.newline(frame.indent + 1);
+          return true;
+        case 'IF':
+        case 'WHILE':
+        case 'FOR':
+          this.newline(frame.indent);
+          this.emitKeyword(token);
+          this.push(upper.toLowerCase() as FrameKind, frame.indent, true);
+          return true;
+        case 'LOOP':
+        case 'REPEAT':
+          this.newline(frame.indent);
+          this.emitKeyword(token);
+          this.push(upper.toLowerCase() as FrameKind, frame.indent);
+          this.push('body', frame.indent + 1);
+          this.newline(frame.indent + 1);
+          return true;
+      }
+      if (SCRIPT_STATEMENTS.has(upper)) {
+        this.newline(frame.indent);
+        this.emitKeyword(token);
+        frame.clause = `STATEMENT ${upper}`;
+        return true;
+      }
+    }
+
+    // THEN / DO end a block header and open its body
+    if ((upper === 'THEN' && (frame.kind === 'if' || frame.kind === 'begin')) ||
+      (upper === 'DO' && (frame.kind === 'while' || frame.kind === 'for'))) {
+      this.emitKeyword(token);
+      frame.inline = false;
+      this.push('body', frame.indent + 1);
+      this.newline(frame.indent + 1);
+      return true;
+    }
+
+    if (frame.kind !== 'body' || !parent || !BLOCK_FRAMES.has(parent.kind)) {
+      if (upper === 'END' && BLOCK_FRAMES.has(frame.kind)) {
+        this.closeBlock(token, frame);
+        return true;
+      }
+      return false;
+    }
+
+    if ((upper === 'ELSEIF' || upper === 'ELSE') && parent.kind === 'if') {
+      this.pop();
+      this.newline(parent.indent);
+      this.emitKeyword(token);
+      if (upper === 'ELSE') {
+        this.push('body', parent.indent + 1);
+        this.newline(parent.indent + 1);
+      } else {
+        parent.inline = true;
+      }
+      return true;
+    }
+    if ((upper === 'UNTIL' && parent.kind === 'repeat') || (upper === 'EXCEPTION' && parent.kind === 'begin')) {
+      this.pop();
+      this.newline(parent.indent);
+      this.emitKeyword(token);
+      parent.inline = true;
+      return true;
+    }
+    if (upper === 'END') {
+      this.pop();
+      this.closeBlock(token, parent);
+      return true;
+    }
+    return false;
+  }
+
+  private closeBlock(token: Token, block: Frame) {
+    this.pop();
+    this.newline(block.indent);
+    this.emitKeyword(token);
+    if (END_SUFFIXES.has(this.peekWord())) this.emitKeyword(this.next());
+  }
+}
+
+/**
+ * Format GoogleSQL text. Comments, string literals and quoted identifiers are kept as written.
+ */
+export function formatSql(sql: string, options: Partial<FormatOptions> = {}): string {
+  if (!sql.trim()) return sql;
+  const formatted = new Formatter(sql, { ...DEFAULT_FORMAT_OPTIONS, ...options }).format();
+  return /\n$/.test(sql) ? `${formatted}\n` : formatted;
+}
@@ -0,0 +1,39 @@
+/**
+ * Keybindings handled inside the query editor.
+ * QueryEditor binds EXECUTE_BINDING and FORMAT_BINDING itself; the rest are Monaco
+ * defaults. App shortcuts on the same keys do not fire while the editor has focus, so
+ * the command registry reports them as conflicts.
+ */
+
+export const EXECUTE_BINDING = 'Mod+Enter';
+export const FORMAT_BINDING = 'Mod+Shift+F';
+
+export interface EditorKeybinding {
+  binding: string;
+  title: string;
+}
+
+export const EDITOR_KEYBINDINGS: EditorKeybinding[] = [
+  { binding: EXECUTE_BINDING, title: 'Execute query' },
+  { binding: FORMAT_BINDING, title: 'Format query' },
+  { binding: 'Alt+Shift+F', title: 'Format document' },
+  { binding: 'Mod+F', title: 'Find' },
+  { binding: 'Mod+H', title: 'Replace' },
+  { binding: 'Mod+G', title: 'Go to line' },
+  { binding: 'Mod+/', title: 'Toggle line comment' },
+  { binding: 'Mod+D', title: 'Add selection to next find match' },
+  { binding: 'Mod+L', title: 'Expand line selection' },
+  { binding: 'Mod+.', title: 'Quick fix' },
+  { binding: 'Mod+[', title: 'Outdent line' },
+  { binding: 'Mod+]', title: 'Indent line' },
+  { binding: 'Mod+Z', title: 'Undo' },
+  { binding: 'Mod+Y', title: 'Redo' },
+  { binding: 'Mod+A', title: 'Select all' },
+  { binding: 'Mod+C', title: 'Copy' },
+  { binding: 'Mod+X', title: 'Cut' },
+  { binding: 'Mod+V', title: 'Paste' },
+  { binding: 'Mod+Space', title: 'Trigger suggest' },
+  { binding: 'Alt+ArrowUp', title: 'Move line up' },
+  { binding: 'Alt+ArrowDown', title: 'Move line down' },
+  { binding: 'F1', title: 'Command palette' },
+];
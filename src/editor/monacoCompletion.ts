@@ -0,0 +1,105 @@
+import type * as Monaco from 'monaco-editor';
+import { tableKey } from '../services/schemaService';
+import type { SchemaTable } from '../services/schemaService';
+import { findUnloadedTables, getCompletions, sortText } from './completion';
+import type { CompletionEntry, CompletionKind, CompletionSchema } from './completion';
+
+type MonacoApi = typeof Monaco;
+
+export interface CompletionProviderOptions {
+  language?: string;
+  // Current schema snapshot, read on every request
+  getSchema: () => CompletionSchema;
+  // Fetch a referenced table's fields so its columns can be offered
+  loadTable?: (table: SchemaTable) => Promise<unknown>;
+  // Whose tables loadTable reads, e.g. the account; tables that failed to load are not
+  // requested again for the same scope
+  getScope?: () => string;
+  // Limit the provider to one editor's model; Monaco providers are global per language
+  accepts?: (model: Monaco.editor.ITextModel) => boolean;
+}
+
+function itemKind(monaco: MonacoApi, kind: CompletionKind): Monaco.languages.CompletionItemKind {
+  const kinds = monaco.languages.CompletionItemKind;
+  switch (kind) {
+    case 'column':
+      return kinds.Field;
+    case 'table':
+      return kinds.Struct;
+    case 'function':
+      return kinds.Function;
+    case 'type':
+      return kinds.TypeParameter;
+    case 'keyword':
+    default:
+      return kinds.Keyword;
+  }
+}
+
+function toSuggestion(
+  monaco: MonacoApi,
+  model: Monaco.editor.ITextModel,
+  position: Monaco.Position,
+  offset: number,
+  entry: CompletionEntry
+): Monaco.languages.CompletionItem {
+  const start = model.getPositionAt(offset - entry.replaceLength);
+  const typed = model.getValue().slice(offset - entry.replaceLength, offset);
+  return {
+    label: entry.label,
+    kind: itemKind(monaco, entry.kind),
+    insertText: entry.insertText,
+    // Monaco filters on the replaced range, which may hold a dotted path with a backtick
+    filterText: typed.startsWith('`') ? `\`${entry.label}` : entry.label,
+    detail: entry.detail,
+    documentation: entry.documentation,
+    sortText: sortText(entry),
+    range: {
+      startLineNumber: start.lineNumber,
+      startColumn: start.column,
+      endLineNumber: position.lineNumber,
+      endColumn: position.column,
+    },
+  };
+}
+
+/**
+ * Register GoogleSQL completions with Monaco. Returns the disposable from Monaco.
+ */
+export function registerCompletionProvider(
+  monaco: MonacoApi,
+  options: CompletionProviderOptions
+): Monaco.IDisposable {
+  // `${scope} ${tableKey}` of tables whose load failed (no access, not found)
+  const failed = new Set<string>();
+
+  return monaco.languages.registerCompletionItemProvider(options.language ?? 'sql', {
+    triggerCharacters: ['.', '`', ' '],
+    async provideCompletionItems(model, position) {
+      if (options.accepts && !options.accepts(model)) return { suggestions: [] };
+
+      const sql = model.getValue();
+      const offset = model.getOffsetAt(position);
+
+      if (options.loadTable) {
+        const scope = options.getScope?.() ?? '';
+        const missing = findUnloadedTables(sql, options.getSchema()).filter(
+          (table) => !failed.has(`${scope} ${tableKey(table)}`)
+        );
+        // A table that fails to load simply contributes no columns
+        await Promise.all(
+          missing.map((table) =>
+            options.loadTable!(table).catch(() => {
+              failed.add(`${scope} ${tableKey(table)}`);
+            })
+          )
+        );
+      }
+
+      const entries = getCompletions(sql, offset, options.getSchema());
+      return {
+        suggestions: entries.map((entry) => toSuggestion(monaco, model, position, offset, entry)),
+      };
+    },
+  });
+}
@@ -0,0 +1,33 @@
+import type * as Monaco from 'monaco-editor';
+import { formatSql } from './formatter';
+import type { FormatOptions } from './formatter';
+
+type MonacoApi = typeof Monaco;
+
+export interface FormattingProviderOptions {
+  language?: string;
+  // Current style settings, read on every request
+  getOptions: () => Partial<FormatOptions>;
+  // Limit the provider to one editor's model; Monaco providers are global per language
+  accepts?: (model: Monaco.editor.ITextModel) => boolean;
+}
+
+/**
+ * Register the GoogleSQL formatter as Monaco's document formatter ("Format Document").
+ * Returns the disposable from Monaco.
+ */
+export function registerFormattingProvider(
+  monaco: MonacoApi,
+  options: FormattingProviderOptions
+): Monaco.IDisposable {
+  return monaco.languages.registerDocumentFormattingEditProvider(options.language ?? 'sql', {
+    displayName: 'GoogleSQL',
+    provideDocumentFormattingEdits(model) {
+      if (options.accepts && !options.accepts(model)) return [];
+      const text = model.getValue();
+      const formatted = formatSql(text, options.getOptions());
+      if (formatted === text) return [];
+      return [{ range: model.getFullModelRange(), text: formatted }];
+    },
+  });
+}
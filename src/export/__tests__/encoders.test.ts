@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createEncoder,
+  csvField,
+  exportColumns,
+  getExportFormat,
+  inferSchema,
+  toMarkdownTable,
+  toTsv,
+  tsvField,
+} from '../encoders';
+import type { ExportFormat, NestedPolicy } from '../encoders';
+import type { ResultField } from '../../services/bigqueryDecoder';
+
+const schema: ResultField[] = [
+  { name: 'id', type: 'INTEGER' },
+  { name: 'name', type: 'STRING' },
+  {
+    name: 'address',
+    type: 'RECORD',
+    fields: [
+      { name: 'city', type: 'STRING' },
+      { name: 'zip', type: 'STRING' },
+    ],
+  },
+  { name: 'tags', type: 'STRING', mode: 'REPEATED' },
+];
+
+const rows = [
+  { id: 1, name: 'Ada, "the first"', address: { city: 'London', zip: 'N1' }, tags: ['a', 'b'] },
+  { id: 9007199254740993n, name: null, address: null, tags: [] },
+];
+
+function encode(format: ExportFormat, nested?: NestedPolicy, batches = [rows]): string {
+  const encoder = createEncoder(format, schema, nested);
+  const chunks = [encoder.begin(), ...batches.map((batch) => encoder.encodeRows(batch)), encoder.end()];
+  return chunks.filter((chunk) => chunk !== null).join('');
+}
+
+describe('encoders', () => {
+  it('quotes CSV fields only when needed (RFC 4180)', () => {
+    expect(csvField('plain')).toBe('plain');
+    expect(csvField('a,b')).toBe('"a,b"');
+    expect(csvField('say "hi"')).toBe('"say ""hi"""');
+    expect(csvField('two\nlines')).toBe('"two\nlines"');
+  });
+
+  it('escapes TSV control characters', () => {
+    expect(tsvField('a\tb\nc\\d\r')).toBe('a\\tb\\nc\\\\d\\r');
+  });
+
+  it('writes CSV with CRLF line endings and flattened records', () => {
+    expect(encode('csv')).toBe(
+      'id,name,address.city,address.zip,tags\r\n' +
+        '1,"Ada, ""the first""",London,N1,"[""a"",""b""]"\r\n' +
+        '9007199254740993,,,,[]\r\n'
+    );
+  });
+
+  it('keeps records as JSON columns under the json policy', () => {
+    expect(exportColumns(schema, 'json').map((c) => c.key)).toEqual(['id', 'name', 'address', 'tags']);
+    expect(encode('tsv', 'json').split('\n')[1]).toBe('1\tAda, "the first"\t{"city":"London","zip":"N1"}\t["a","b"]');
+  });
+
+  it('writes a JSON array across batches', () => {
+    const text = encode('json', undefined, [rows.slice(0, 1), [], rows.slice(1)]);
+    const parsed = JSON.parse(text);
+    expect(parsed).toHaveLength(2);
+    expect(parsed[0].address).toEqual({ city: 'London', zip: 'N1' });
+    // INT64 values beyond double precision stay exact
+    expect(parsed[1].id).toBe('9007199254740993');
+  });
+
+  it('writes an empty JSON array for no rows', () => {
+    expect(JSON.parse(encode('json', undefined, []))).toEqual([]);
+  });
+
+  it('writes one JSON object per line for JSON Lines', () => {
+    const lines = encode('jsonl').trimEnd().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[1])).toEqual({ id: '9007199254740993', name: null, address: null, tags: [] });
+  });
+
+  it('infers a schema from the first row', () => {
+    expect(inferSchema([{ a: 1, b: 2 }])).toEqual([{ name: 'a', type: '' }, { name: 'b', type: '' }]);
+    expect(inferSchema([])).toEqual([]);
+  });
+
+  it('rejects unknown formats', () => {
+    expect(() => getExportFormat('xml' as ExportFormat)).toThrow('Unknown export format: xml');
+    expect(() => createEncoder('xml' as ExportFormat, schema)).toThrow('Unknown export format: xml');
+  });
+
+  it('formats copied cells as TSV and Markdown', () => {
+    const cells = [['x|y', null], ['multi\nline', { a: 1 }]];
+    expect(toTsv(['a', 'b'], cells)).toBe('a\tb\nx|y\t\nmulti\\nline\t{"a":1}');
+    expect(toMarkdownTable(['a', 'b'], cells)).toBe(
+      '| a | b |\n| --- | --- |\n| x\\|y |  |\n| multi line | {"a":1} |'
+    );
+  });
+});
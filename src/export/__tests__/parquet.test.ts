@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest';
+import { ParquetWriter, parquetType } from '../parquet';
+
+type ThriftValue = number | bigint | Uint8Array | ThriftValue[] | ThriftStruct;
+type ThriftStruct = Map<number, ThriftValue>;
+
+/**
+ * Just enough of the Thrift compact protocol to read back what the writer produces
+ */
+class CompactReader {
+  private bytes: Uint8Array;
+  offset: number;
+
+  constructor(bytes: Uint8Array, offset = 0) {
+    this.bytes = bytes;
+    this.offset = offset;
+  }
+
+  private varint(): bigint {
+    let result = 0n;
+    let shift = 0n;
+    for (;;) {
+      const b = this.bytes[this.offset++];
+      result |= BigInt(b & 0x7f) << shift;
+      if (!(b & 0x80)) return result;
+      shift += 7n;
+    }
+  }
+
+  private zigzag(): bigint {
+    const v = this.varint();
+    return (v >> 1n) ^ -(v & 1n);
+  }
+
+  private value(type: number): ThriftValue {
+    switch (type) {
+      case 5:
+        return Number(this.zigzag());
+      case 6:
+        return this.zigzag();
+      case 8: {
+        const length = Number(this.varint());
+        this.offset += length;
+        return this.bytes.slice(this.offset - length, this.offset);
+      }
+      case 9: {
+        const header = this.bytes[this.offset++];
+        const size = header >> 4 === 15 ? Number(this.varint()) : header >> 4;
+        return Array.from({ length: size }, () => this.value(header & 0x0f));
+      }
+      case 12:
+        return this.struct();
+      default:
+        throw new Error(`Unexpected compact type ${type}`);
+    }
+  }
+
+  struct(): ThriftStruct {
+    const fields: ThriftStruct = new Map();
+    let lastId = 0;
+    for (;;) {
+      const header = this.bytes[this.offset++];
+      if (header === 0) return fields;
+      const delta = header >> 4;
+      const id = delta ? lastId + delta : Number(this.zigzag());
+      fields.set(id, this.value(header & 0x0f));
+      lastId = id;
+    }
+  }
+}
+
+const text = (value: ThriftValue | undefined) => new TextDecoder().decode(value as Uint8Array);
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+function readFooter(file: Uint8Array): ThriftStruct {
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+  const length = view.getUint32(file.length - 8, true);
+  return new CompactReader(file, file.length - 8 - length).struct();
+}
+
+// Definition levels and PLAIN INT64 values of the first page of a column chunk
+function readInt64Column(file: Uint8Array, chunk: ThriftStruct): (bigint | null)[] {
+  const meta = chunk.get(3) as ThriftStruct;
+  const reader = new CompactReader(file, Number(meta.get(9)));
+  const header = reader.struct();
+  const numValues = (header.get(5) as ThriftStruct).get(1) as number;
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+  let offset = reader.offset;
+
+  const levelsLength = view.getUint32(offset, true);
+  offset += 4;
+  const levels: number[] = [];
+  const levelsEnd = offset + levelsLength;
+  while (offset < levelsEnd) {
+    const runLength = file[offset++] >> 1;
+    const level = file[offset++];
+    levels.push(...Array(runLength).fill(level));
+  }
+  expect(levels).toHaveLength(numValues);
+
+  return levels.map((level) => {
+    if (!level) return null;
+    const value = view.getBigInt64(offset, true);
+    offset += 8;
+    return value;
+  });
+}
+
+describe('parquet', () => {
+  it('maps BigQuery types to physical types', () => {
+    expect(parquetType('INT64')).toBe('INT64');
+    expect(parquetType('integer')).toBe('INT64');
+    expect(parquetType('FLOAT64')).toBe('DOUBLE');
+    expect(parquetType('BOOL')).toBe('BOOLEAN');
+    expect(parquetType('NUMERIC')).toBe('BYTE_ARRAY');
+    expect(parquetType('TIMESTAMP')).toBe('BYTE_ARRAY');
+  });
+
+  it('writes magic bytes, schema and row counts', () => {
+    const writer = new ParquetWriter([
+      { name: 'id', type: 'INT64' },
+      { name: 'name', type: 'STRING' },
+      { name: 'score', type: 'FLOAT64' },
+      { name: 'active', type: 'BOOL' },
+    ]);
+    const file = concat([
+      writer.begin(),
+      writer.writeRowGroup([
+        [1, 'a', 1.5, true],
+        [2, null, null, false],
+      ]),
+      writer.writeRowGroup([]),
+      writer.writeRowGroup([[3, 'c', 2, null]]),
+      writer.end(),
+    ]);
+
+    expect(text(file.slice(0, 4))).toBe('PAR1');
+    expect(text(file.slice(-4))).toBe('PAR1');
+
+    const metadata = readFooter(file);
+    expect(metadata.get(3)).toBe(3n);
+    expect(text(metadata.get(6))).toBe('smolquery');
+
+    const schema = metadata.get(2) as ThriftStruct[];
+    expect(schema.map((element) => text(element.get(4)))).toEqual(['schema', 'id', 'name', 'score', 'active']);
+    expect(schema[0].get(5)).toBe(4);
+    // INT64, BYTE_ARRAY, DOUBLE, BOOLEAN
+    expect(schema.slice(1).map((element) => element.get(1))).toEqual([2, 6, 5, 0]);
+
+    // the empty batch adds no row group
+    const rowGroups = metadata.get(4) as ThriftStruct[];
+    expect(rowGroups.map((group) => group.get(3))).toEqual([2n, 1n]);
+    expect((rowGroups[0].get(1) as ThriftStruct[]).length).toBe(4);
+  });
+
+  it('encodes nulls through definition levels', () => {
+    const writer = new ParquetWriter([{ name: 'n', type: 'INTEGER' }]);
+    const file = concat([
+      writer.begin(),
+      writer.writeRowGroup([[1], [null], [null], ['9007199254740993']]),
+      writer.end(),
+    ]);
+
+    const [group] = readFooter(file).get(4) as ThriftStruct[];
+    const [chunk] = group.get(1) as ThriftStruct[];
+    expect(readInt64Column(file, chunk)).toEqual([1n, null, null, 9007199254740993n]);
+  });
+});
@@ -0,0 +1,159 @@
+import type { ResultField } from '../services/bigqueryDecoder';
+import { flattenColumns, getColumnValue, isNullValue, stringifyValue } from '../utils/resultFormat';
+import type { DisplayColumn } from '../utils/resultFormat';
+import { ParquetWriter } from './parquet';
+
+/**
+ * Result encoders for export and the clipboard.
+ *
+ * Nested values follow one policy across the tabular formats (CSV, TSV, Parquet):
+ * - 'flatten' (default): non-repeated RECORDs expand into dotted columns ("address.city"),
+ *   as in the results table; REPEATED fields stay one column holding a JSON array
+ * - 'json': every top-level field is one column and RECORD/REPEATED values are JSON text
+ * JSON and JSON Lines keep rows as nested objects. INT64 values too large for a double are
+ * written as strings of digits, so no format loses precision.
+ */
+
+export type ExportFormat = 'csv' | 'tsv' | 'json' | 'jsonl' | 'parquet';
+export type NestedPolicy = 'flatten' | 'json';
+export type ExportChunk = string | Uint8Array;
+
+export interface ExportFormatInfo {
+  format: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+  // whether the nested policy applies
+  tabular: boolean;
+}
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+  { format: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv', tabular: true },
+  { format: 'tsv', label: 'TSV', extension: 'tsv', mimeType: 'text/tab-separated-values', tabular: true },
+  { format: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json', tabular: false },
+  { format: 'jsonl', label: 'JSON Lines', extension: 'jsonl', mimeType: 'application/x-ndjson', tabular: false },
+  { format: 'parquet', label: 'Parquet', extension: 'parquet', mimeType: 'application/vnd.apache.parquet', tabular: true },
+];
+
+export function getExportFormat(format: ExportFormat): ExportFormatInfo {
+  const info = EXPORT_FORMATS.find((f) => f.format === format);
+  if (!info) throw new Error(`Unknown export format: ${format}`);
+  return info;
+}
+
+/**
+ * Streaming encoder: `begin` once, `encodeRows` per batch of rows, `end` once
+ */
+export interface ResultEncoder {
+  begin(): ExportChunk | null;
+  encodeRows(rows: Record<string, unknown>[]): ExportChunk;
+  end(): ExportChunk | null;
+}
+
+/**
+ * Columns of a tabular export under the given nested policy
+ */
+export function exportColumns(schema: ResultField[], nested: NestedPolicy = 'flatten'): DisplayColumn[] {
+  if (nested === 'flatten') return flattenColumns(schema);
+  return schema.map((field) => ({
+    key: field.name,
+    path: [field.name],
+    type: field.type,
+    repeated: field.mode?.toUpperCase() === 'REPEATED',
+    field,
+  }));
+}
+
+/**
+ * Schema derived from the first row, for results without one (the development mock)
+ */
+export function inferSchema(rows: Record<string, unknown>[]): ResultField[] {
+  const first = rows[0];
+  return first ? Object.keys(first).map((name) => ({ name, type: '' })) : [];
+}
+
+/**
+ * Plain-text cell value: empty for NULL, JSON for RECORD/REPEATED values
+ */
+export function cellText(value: unknown): string {
+  if (isNullValue(value)) return '';
+  if (typeof value === 'object') return stringifyValue(value);
+  return String(value);
+}
+
+/**
+ * RFC 4180 field: quoted when it holds a comma, quote or line break
+ */
+export function csvField(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * TSV field: tabs, line breaks and backslashes are backslash-escaped
+ */
+export function tsvField(text: string): string {
+  return text.replace(/[\\\t\n\r]/g, (c) => ({ '\\': '\\\\', '\t': '\\t', '\n': '\\n', '\r': '\\r' })[c]!);
+}
+
+function delimitedEncoder(columns: DisplayColumn[], separator: string, field: (text: string) => string, eol: string): ResultEncoder {
+  const line = (cells: string[]) => cells.map(field).join(separator) + eol;
+  return {
+    begin: () => line(columns.map((c) => c.key)),
+    encodeRows: (rows) => rows.map((row) => line(columns.map((c) => cellText(getColumnValue(row, c.path))))).join(''),
+    end: () => null,
+  };
+}
+
+function jsonEncoder(lines: boolean): ResultEncoder {
+  let first = true;
+  return {
+    begin: () => (lines ? null : '['),
+    encodeRows: (rows) => {
+      if (lines) return rows.map((row) => `${stringifyValue(row)}\n`).join('');
+      const text = rows.map((row, i) => `${first && i === 0 ? '' : ','}\n${stringifyValue(row)}`).join('');
+      if (rows.length) first = false;
+      return text;
+    },
+    end: () => (lines ? null : `${first ? '' : '\n'}]\n`),
+  };
+}
+
+export function createEncoder(format: ExportFormat, schema: ResultField[], nested: NestedPolicy = 'flatten'): ResultEncoder {
+  switch (format) {
+    case 'csv':
+      return delimitedEncoder(exportColumns(schema, nested), ',', csvField, '\r\n');
+    case 'tsv':
+      return delimitedEncoder(exportColumns(schema, nested), '\t', tsvField, '\n');
+    case 'json':
+      return jsonEncoder(false);
+    case 'jsonl':
+      return jsonEncoder(true);
+    case 'parquet': {
+      const columns = exportColumns(schema, nested);
+      const writer = new ParquetWriter(columns.map((c) => ({ name: c.key, type: c.repeated ? 'JSON' : c.type })));
+      return {
+        begin: () => writer.begin(),
+        encodeRows: (rows) => writer.writeRowGroup(rows.map((row) => columns.map((c) => getColumnValue(row, c.path)))),
+        end: () => writer.end(),
+      };
+    }
+    default:
+      throw new Error(`Unknown export format: ${format}`);
+  }
+}
+
+/**
+ * Cells as TSV with a header line, for pasting into spreadsheets
+ */
+export function toTsv(headers: string[], rows: unknown[][]): string {
+  return [headers, ...rows.map((row) => row.map(cellText))].map((cells) => cells.map(tsvField).join('\t')).join('\n');
+}
+
+/**
+ * Cells as a GitHub-flavoured Markdown table
+ */
+export function toMarkdownTable(headers: string[], rows: unknown[][]): string {
+  const escape = (text: string) => text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+  const line = (cells: string[]) => `| ${cells.map(escape).join(' | ')} |`;
+  return [line(headers), line(headers.map(() => '---')), ...rows.map((row) => line(row.map(cellText)))].join('\n');
+}
@@ -0,0 +1,401 @@
+import { stringifyValue } from '../utils/resultFormat';
+
+/**
+ * Minimal streaming Apache Parquet writer for result export.
+ * - flat schema of OPTIONAL columns; each writeRowGroup call emits one row group with one
+ *   uncompressed PLAIN data page per column, so rows never need to be held all at once
+ * - INT64, DOUBLE and BOOLEAN columns keep their type; every other BigQuery type (exact
+ *   decimals, dates, timestamps, JSON, ...) is written as UTF-8 text in its lossless form
+ * - metadata is Thrift compact protocol, as the format requires
+ * See https://parquet.apache.org/docs/file-format/
+ */
+
+export interface ParquetColumn {
+  name: string;
+  // BigQuery column type
+  type: string;
+}
+
+type PhysicalType = 'BOOLEAN' | 'INT64' | 'DOUBLE' | 'BYTE_ARRAY';
+
+// parquet.thrift enum values
+const PHYSICAL_TYPES: Record<PhysicalType, number> = { BOOLEAN: 0, INT64: 2, DOUBLE: 5, BYTE_ARRAY: 6 };
+const REPETITION_OPTIONAL = 1;
+const CONVERTED_TYPE_UTF8 = 0;
+const ENCODING_PLAIN = 0;
+const ENCODING_RLE = 3;
+const CODEC_UNCOMPRESSED = 0;
+const PAGE_TYPE_DATA = 0;
+
+// Thrift compact protocol type ids
+const CT_I32 = 5;
+const CT_I64 = 6;
+const CT_BINARY = 8;
+const CT_LIST = 9;
+const CT_STRUCT = 12;
+
+const textEncoder = new TextEncoder();
+const MAGIC = textEncoder.encode('PAR1');
+
+export function parquetType(bigQueryType: string): PhysicalType {
+  switch (bigQueryType.toUpperCase()) {
+    case 'INTEGER':
+    case 'INT64':
+    case 'BIGINT':
+      return 'INT64';
+    case 'FLOAT':
+    case 'FLOAT64':
+    case 'NUMBER':
+      return 'DOUBLE';
+    case 'BOOLEAN':
+    case 'BOOL':
+      return 'BOOLEAN';
+    default:
+      return 'BYTE_ARRAY';
+  }
+}
+
+class ByteBuilder {
+  private chunks: Uint8Array[] = [];
+  length = 0;
+
+  bytes(data: Uint8Array) {
+    this.chunks.push(data);
+    this.length += data.length;
+  }
+
+  byte(value: number) {
+    this.bytes(Uint8Array.of(value & 0xff));
+  }
+
+  uint32(value: number) {
+    const data = new Uint8Array(4);
+    new DataView(data.buffer).setUint32(0, value, true);
+    this.bytes(data);
+  }
+
+  int64(value: bigint) {
+    const data = new Uint8Array(8);
+    new DataView(data.buffer).setBigInt64(0, value, true);
+    this.bytes(data);
+  }
+
+  double(value: number) {
+    const data = new Uint8Array(8);
+    new DataView(data.buffer).setFloat64(0, value, true);
+    this.bytes(data);
+  }
+
+  varint(value: number | bigint) {
+    let v = BigInt(value);
+    const out: number[] = [];
+    do {
+      let b = Number(v & 0x7fn);
+      v >>= 7n;
+      if (v > 0n) b |= 0x80;
+      out.push(b);
+    } while (v > 0n);
+    this.bytes(Uint8Array.from(out));
+  }
+
+  toBytes(): Uint8Array {
+    const result = new Uint8Array(this.length);
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      result.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return result;
+  }
+}
+
+const zigzag = (value: number | bigint) => {
+  const v = BigInt(value);
+  return BigInt.asUintN(64, (v << 1n) ^ (v >> 63n));
+};
+
+/**
+ * Writes Thrift structs in the compact protocol. Fields must be written in increasing id order.
+ */
+class CompactWriter {
+  readonly out = new ByteBuilder();
+  private lastFieldIds: number[] = [0];
+
+  private fieldHeader(id: number, type: number) {
+    const last = this.lastFieldIds[this.lastFieldIds.length - 1];
+    const delta = id - last;
+    if (delta > 0 && delta <= 15) {
+      this.out.byte((delta << 4) | type);
+    } else {
+      this.out.byte(type);
+      this.out.varint(zigzag(id));
+    }
+    this.lastFieldIds[this.lastFieldIds.length - 1] = id;
+  }
+
+  private listHeader(size: number, elementType: number) {
+    if (size < 15) {
+      this.out.byte((size << 4) | elementType);
+    } else {
+      this.out.byte(0xf0 | elementType);
+      this.out.varint(size);
+    }
+  }
+
+  private structBody(write: () => void) {
+    this.lastFieldIds.push(0);
+    write();
+    this.out.byte(0);
+    this.lastFieldIds.pop();
+  }
+
+  i32(id: number, value: number) {
+    this.fieldHeader(id, CT_I32);
+    this.out.varint(zigzag(value));
+  }
+
+  i64(id: number, value: number | bigint) {
+    this.fieldHeader(id, CT_I64);
+    this.out.varint(zigzag(value));
+  }
+
+  string(id: number, value: string) {
+    const data = textEncoder.encode(value);
+    this.fieldHeader(id, CT_BINARY);
+    this.out.varint(data.length);
+    this.out.bytes(data);
+  }
+
+  struct(id: number, write: () => void) {
+    this.fieldHeader(id, CT_STRUCT);
+    this.structBody(write);
+  }
+
+  i32List(id: number, values: number[]) {
+    this.fieldHeader(id, CT_LIST);
+    this.listHeader(values.length, CT_I32);
+    for (const value of values) this.out.varint(zigzag(value));
+  }
+
+  stringList(id: number, values: string[]) {
+    this.fieldHeader(id, CT_LIST);
+    this.listHeader(values.length, CT_BINARY);
+    for (const value of values) {
+      const data = textEncoder.encode(value);
+      this.out.varint(data.length);
+      this.out.bytes(data);
+    }
+  }
+
+  structList<T>(id: number, items: T[], write: (item: T) => void) {
+    this.fieldHeader(id, CT_LIST);
+    this.listHeader(items.length, CT_STRUCT);
+    for (const item of items) this.structBody(() => write(item));
+  }
+
+  // top-level struct, e.g. FileMetaData or a PageHeader
+  message(write: () => void): Uint8Array {
+    this.structBody(write);
+    return this.out.toBytes();
+  }
+}
+
+interface ColumnChunkMeta {
+  name: string;
+  type: PhysicalType;
+  offset: number;
+  size: number;
+  numValues: number;
+}
+
+interface RowGroupMeta {
+  numRows: number;
+  size: number;
+  columns: ColumnChunkMeta[];
+}
+
+function toInt64(value: unknown): bigint | null {
+  try {
+    if (typeof value === 'bigint') return BigInt.asIntN(64, value);
+    if (typeof value === 'number') return Number.isFinite(value) ? BigInt(Math.trunc(value)) : null;
+    return BigInt.asIntN(64, BigInt(String(value)));
+  } catch {
+    return null;
+  }
+}
+
+function toText(value: unknown): string {
+  return typeof value === 'object' ? stringifyValue(value) : String(value);
+}
+
+/**
+ * Definition levels (1 = value present) as RLE runs, prefixed with their byte length
+ */
+function encodeDefinitionLevels(present: boolean[]): Uint8Array {
+  const runs = new ByteBuilder();
+  for (let i = 0; i < present.length; ) {
+    let end = i;
+    while (end < present.length && present[end] === present[i]) end++;
+    runs.varint((end - i) * 2);
+    runs.byte(present[i] ? 1 : 0);
+    i = end;
+  }
+  const out = new ByteBuilder();
+  out.uint32(runs.length);
+  out.bytes(runs.toBytes());
+  return out.toBytes();
+}
+
+function encodeValues(type: PhysicalType, values: unknown[]): Uint8Array {
+  const out = new ByteBuilder();
+  switch (type) {
+    case 'INT64':
+      for (const value of values) out.int64(value as bigint);
+      break;
+    case 'DOUBLE':
+      for (const value of values) out.double(value as number);
+      break;
+    case 'BOOLEAN': {
+      // bit-packed, least significant bit first
+      const packed = new Uint8Array(Math.ceil(values.length / 8));
+      values.forEach((value, i) => {
+        if (value) packed[i >> 3] |= 1 << (i & 7);
+      });
+      out.bytes(packed);
+      break;
+    }
+    case 'BYTE_ARRAY':
+      for (const value of values) {
+        const data = textEncoder.encode(value as string);
+        out.uint32(data.length);
+        out.bytes(data);
+      }
+      break;
+  }
+  return out.toBytes();
+}
+
+export class ParquetWriter {
+  private columns: { name: string; type: PhysicalType }[];
+  private offset = 0;
+  private rowGroups: RowGroupMeta[] = [];
+
+  constructor(columns: ParquetColumn[]) {
+    this.columns = columns.map((column) => ({ name: column.name, type: parquetType(column.type) }));
+  }
+
+  private convert(type: PhysicalType, value: unknown): unknown {
+    if (value === null || value === undefined) return null;
+    switch (type) {
+      case 'INT64':
+        return toInt64(value);
+      case 'DOUBLE': {
+        const number = Number(value);
+        return Number.isNaN(number) && String(value) !== 'NaN' ? null : number;
+      }
+      case 'BOOLEAN':
+        return value === true || value === 'true';
+      default:
+        return toText(value);
+    }
+  }
+
+  begin(): Uint8Array {
+    this.offset = MAGIC.length;
+    return MAGIC;
+  }
+
+  /**
+   * Encode `rows` (one array of column values per row) as a row group
+   */
+  writeRowGroup(rows: unknown[][]): Uint8Array {
+    if (rows.length === 0) return new Uint8Array(0);
+    const out = new ByteBuilder();
+    const group: RowGroupMeta = { numRows: rows.length, size: 0, columns: [] };
+
+    this.columns.forEach((column, index) => {
+      const converted = rows.map((row) => this.convert(column.type, row[index]));
+      const present = converted.map((value) => value !== null);
+      const levels = encodeDefinitionLevels(present);
+      const values = encodeValues(column.type, converted.filter((value) => value !== null));
+      const pageSize = levels.length + values.length;
+
+      const pageHeader = new CompactWriter();
+      const headerBytes = pageHeader.message(() => {
+        pageHeader.i32(1, PAGE_TYPE_DATA);
+        pageHeader.i32(2, pageSize);
+        pageHeader.i32(3, pageSize);
+        pageHeader.struct(5, () => {
+          pageHeader.i32(1, rows.length);
+          pageHeader.i32(2, ENCODING_PLAIN);
+          pageHeader.i32(3, ENCODING_RLE);
+          pageHeader.i32(4, ENCODING_RLE);
+        });
+      });
+
+      const chunkOffset = this.offset + out.length;
+      out.bytes(headerBytes);
+      out.bytes(levels);
+      out.bytes(values);
+      group.columns.push({
+        name: column.name,
+        type: column.type,
+        offset: chunkOffset,
+        size: headerBytes.length + pageSize,
+        numValues: rows.length,
+      });
+    });
+
+    group.size = out.length;
+    this.offset += out.length;
+    this.rowGroups.push(group);
+    return out.toBytes();
+  }
+
+  /**
+   * File footer: FileMetaData, its length and the closing magic
+   */
+  end(): Uint8Array {
+    const meta = new CompactWriter();
+    const numRows = this.rowGroups.reduce((sum, group) => sum + group.numRows, 0);
+    const metadata = meta.message(() => {
+      meta.i32(1, 1);
+      meta.structList(2, [null, ...this.columns], (column) => {
+        if (column === null) {
+          meta.string(4, 'schema');
+          meta.i32(5, this.columns.length);
+          return;
+        }
+        meta.i32(1, PHYSICAL_TYPES[column.type]);
+        meta.i32(3, REPETITION_OPTIONAL);
+        meta.string(4, column.name);
+        if (column.type === 'BYTE_ARRAY') meta.i32(6, CONVERTED_TYPE_UTF8);
+      });
+      meta.i64(3, numRows);
+      meta.structList(4, this.rowGroups, (group) => {
+        meta.structList(1, group.columns, (chunk) => {
+          meta.i64(2, chunk.offset);
+          meta.struct(3, () => {
+            meta.i32(1, PHYSICAL_TYPES[chunk.type]);
+            meta.i32List(2, [ENCODING_PLAIN, ENCODING_RLE]);
+            meta.stringList(3, [chunk.name]);
+            meta.i32(4, CODEC_UNCOMPRESSED);
+            meta.i64(5, chunk.numValues);
+            meta.i64(6, chunk.size);
+            meta.i64(7, chunk.size);
+            meta.i64(9, chunk.offset);
+          });
+        });
+        meta.i64(2, group.size);
+        meta.i64(3, group.numRows);
+      });
+      meta.string(6, 'smolquery');
+    });
+
+    const out = new ByteBuilder();
+    out.bytes(metadata);
+    out.uint32(metadata.length);
+    out.bytes(MAGIC);
+    return out.toBytes();
+  }
+}
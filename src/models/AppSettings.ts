@@ -0,0 +1,29 @@
+import type { CommaStyle, KeywordCase } from '../editor/formatter';
+
+/**
+ * User-editable application settings shared by PanelManager and SettingsPanel.
+ */
+export interface AppSettings {
+  darkMode: boolean;
+  // rows loaded from BigQuery per results window; the grid scrolls through a whole window
+  pageSize: number;
+  // bytes; queries whose dry run exceeds this are refused (null = no limit)
+  maxBytesBilled: number | null;
+  // dry-run the editor contents automatically when typing pauses
+  autoEstimate: boolean;
+  // SQL formatter style
+  keywordCase: KeywordCase;
+  indentWidth: number;
+  commaStyle: CommaStyle;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  darkMode: false,
+  // queryService's DEFAULT_PAGE_SIZE
+  pageSize: 1000,
+  maxBytesBilled: null,
+  autoEstimate: false,
+  keywordCase: 'upper',
+  indentWidth: 2,
+  commaStyle: 'trailing',
+};
@@ -0,0 +1,78 @@
+import Query from './Query';
+import type { QueryPayload } from './Query';
+import type { QueryResult } from '../services/queryService';
+
+export interface EditorTabPayload {
+  id: string;
+  query: QueryPayload;
+  accountId?: string | null;
+}
+
+/**
+ * One editor tab: a Query plus the result state of its last run.
+ * Only the id, the Query and the chosen account are persisted; results are re-run on demand.
+ */
+export class EditorTab {
+  id: string;
+  query: Query;
+  // Account (UserSession.accountId) that runs this tab's queries; null follows the active account
+  accountId: string | null = null;
+  // Last run: the full result (for paging) and the window of rows currently loaded
+  result: QueryResult | null = null;
+  rows: QueryResult['rows'] = [];
+  schema: QueryResult['schema'] = [];
+  jobId: string | null = null;
+  error: string | null = null;
+  totalRows: number | null = null;
+  rowOffset = 0;
+  // Failure to fetch another window; the loaded rows stay in place
+  pageError: string | null = null;
+  executing = false;
+  fetchingRows = false;
+  abortController: AbortController | null = null;
+  // Running export of the last result and its progress or outcome
+  exportController: AbortController | null = null;
+  exportStatus: string | null = null;
+
+  constructor(payload: { id: string; query: Query }) {
+    this.id = payload.id;
+    this.query = payload.query;
+  }
+
+  static create(query?: Query) {
+    const id = `tab-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    return new EditorTab({ id, query: query ?? new Query({ id: `editor-${Date.now().toString(36)}`, sql: '' }) });
+  }
+
+  static fromJSON(json: EditorTabPayload) {
+    if (!json || typeof json !== 'object' || typeof json.id !== 'string') {
+      throw new TypeError('Invalid EditorTab payload');
+    }
+    const tab = new EditorTab({ id: json.id, query: Query.fromJSON(json.query) });
+    tab.accountId = typeof json.accountId === 'string' ? json.accountId : null;
+    return tab;
+  }
+
+  toJSON(): EditorTabPayload {
+    return { id: this.id, query: this.query.toJSON(), accountId: this.accountId };
+  }
+
+  // Tab label: the query name, else the first line of SQL
+  get title() {
+    const firstLine = this.query.sql.trim().split('\n')[0];
+    return this.query.name || firstLine.slice(0, 30) || 'New query';
+  }
+
+  clearResult() {
+    this.result = null;
+    this.rows = [];
+    this.schema = [];
+    this.jobId = null;
+    this.totalRows = null;
+    this.rowOffset = 0;
+    this.pageError = null;
+    this.exportStatus = null;
+  }
+}
+
+export default EditorTab;
@@ -1,18 +1,26 @@
-export type PanelType = 'results' | 'schema' | 'settings' | 'console';
+export type PanelType = 'results' | 'schema' | 'settings' | 'console' | 'saved-queries' | 'history';
 
 export const PanelTypes = {
   Results: 'results' as PanelType,
   Schema: 'schema' as PanelType,
   Settings: 'settings' as PanelType,
   Console: 'console' as PanelType,
+  SavedQueries: 'saved-queries' as PanelType,
+  History: 'history' as PanelType,
 };
 
+// Where a panel sits around the editor
+export type PanelDock = 'left' | 'right' | 'bottom';
+
+export const PanelDocks: PanelDock[] = ['left', 'right', 'bottom'];
+
 export interface PanelPayload {
   id: string;
   type: PanelType;
   title?: string;
   open?: boolean;
   order?: number;
+  dock?: PanelDock;
 }
 
 export class Panel {
@@ -21,6 +29,7 @@ export class Panel {
   title?: string;
   open: boolean;
   order: number;
+  dock: PanelDock;
 
   constructor(payload: PanelPayload) {
     if (!payload || typeof payload !== 'object') throw new TypeError('Invalid Panel payload');
@@ -29,6 +38,7 @@ export class Panel {
     this.title = payload.title;
     this.open = payload.open ?? true;
     this.order = typeof payload.order === 'number' ? payload.order : 0;
+    this.dock = PanelDocks.includes(payload.dock as PanelDock) ? (payload.dock as PanelDock) : 'bottom';
   }
 
   static fromJSON(json: PanelPayload) {
@@ -42,6 +52,7 @@ export class Panel {
       title: this.title,
       open: this.open,
       order: this.order,
+      dock: this.dock,
     };
   }
 
@@ -1,4 +1,4 @@
-export type QueryStatus = 'draft' | 'running' | 'completed' | 'failed';
+export type QueryStatus = 'draft' | 'running' | 'completed' | 'failed' | 'cancelled';
 
 export interface QueryPayload {
   id: string;
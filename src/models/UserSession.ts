@@ -1,24 +1,56 @@
+export interface UserPreferences {
+  // command id -> keybinding; null removes the command's default binding
+  keybindings?: Record<string, string | null>;
+}
+
+/**
+ * Where queries run: the billing project jobs are created in, the dataset unqualified
+ * table names resolve against (`dataset` in the billing project or `project.dataset`)
+ * and the processing location
+ */
+export interface QueryContext {
+  projectId: string | null;
+  datasetId: string | null;
+  location: string | null;
+}
+
 export interface UserSessionPayload {
   userId?: string | null;
+  email?: string | null;
   provider?: string | null;
   accessToken?: string | null;
   refreshToken?: string | null;
   expiresAt?: string | null;
+  projectId?: string | null;
+  datasetId?: string | null;
+  location?: string | null;
+  preferences?: UserPreferences | null;
 }
 
 export class UserSession {
   userId?: string | null;
+  // shown to tell accounts apart; not every provider knows it
+  email?: string | null;
   provider?: string | null;
   accessToken?: string | null;
   refreshToken?: string | null;
   expiresAt?: Date | null;
+  projectId: string | null;
+  datasetId: string | null;
+  location: string | null;
+  preferences: UserPreferences;
 
   constructor(payload?: UserSessionPayload) {
     this.userId = payload?.userId ?? null;
+    this.email = payload?.email ?? null;
     this.provider = payload?.provider ?? null;
     this.accessToken = payload?.accessToken ?? null;
     this.refreshToken = payload?.refreshToken ?? null;
     this.expiresAt = payload?.expiresAt ? new Date(payload.expiresAt) : null;
+    this.projectId = payload?.projectId ?? null;
+    this.datasetId = payload?.datasetId ?? null;
+    this.location = payload?.location ?? null;
+    this.preferences = { ...(payload?.preferences ?? {}) };
   }
 
   static fromJSON(json?: UserSessionPayload) {
@@ -28,25 +60,56 @@ export class UserSession {
   toJSON(): UserSessionPayload {
     return {
       userId: this.userId ?? null,
+      email: this.email ?? null,
       provider: this.provider ?? null,
       accessToken: this.accessToken ?? null,
       refreshToken: this.refreshToken ?? null,
       expiresAt: this.expiresAt ? this.expiresAt.toISOString() : null,
+      projectId: this.projectId,
+      datasetId: this.datasetId,
+      location: this.location,
+      preferences: this.preferences,
     };
   }
 
+  // Identifies the account among the stored sessions: one session per provider and user
+  get accountId(): string {
+    return `${this.provider ?? 'token'}:${this.userId ?? ''}`;
+  }
+
+  get context(): QueryContext {
+    return { projectId: this.projectId, datasetId: this.datasetId, location: this.location };
+  }
+
   isAuthenticated(): boolean {
     if (!this.accessToken) return false;
     if (this.expiresAt && this.expiresAt.getTime() < Date.now()) return false;
     return true;
   }
 
+  // Signed in, though the access token may have expired and need a refresh
+  hasCredentials(): boolean {
+    return !!this.accessToken;
+  }
+
+  // True when the access token is gone or expires in less than `ms`
+  expiresWithin(ms: number): boolean {
+    if (!this.accessToken) return true;
+    return !!this.expiresAt && this.expiresAt.getTime() - Date.now() < ms;
+  }
+
+  // Clears the credentials and the query context chosen with them; preferences belong to
+  // the device and are kept
   clear() {
     this.userId = null;
+    this.email = null;
     this.provider = null;
     this.accessToken = null;
     this.refreshToken = null;
     this.expiresAt = null;
+    this.projectId = null;
+    this.datasetId = null;
+    this.location = null;
   }
 }
 
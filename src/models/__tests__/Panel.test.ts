@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import Panel, { PanelTypes, type PanelType } from '../Panel';
+import Panel, { PanelTypes, type PanelDock, type PanelType } from '../Panel';
 
 describe('Panel model', () => {
   let testPanel: Panel;
@@ -81,6 +81,8 @@ describe('Panel model', () => {
       expect(PanelTypes.Schema).toBe('schema');
       expect(PanelTypes.Settings).toBe('settings');
       expect(PanelTypes.Console).toBe('console');
+      expect(PanelTypes.SavedQueries).toBe('saved-queries');
+      expect(PanelTypes.History).toBe('history');
     });
 
     it('supports all panel types in constructor', () => {
@@ -158,6 +160,19 @@ describe('Panel model', () => {
     });
   });
 
+  describe('dock', () => {
+    it('defaults to the bottom dock', () => {
+      expect(new Panel({ id: 'p', type: PanelTypes.Results }).dock).toBe('bottom');
+    });
+
+    it('keeps valid docks and rejects unknown ones', () => {
+      expect(Panel.fromJSON({ id: 'p', type: PanelTypes.Schema, dock: 'left' }).toJSON().dock).toBe('left');
+      expect(
+        Panel.fromJSON({ id: 'p', type: PanelTypes.Schema, dock: 'top' as unknown as PanelDock }).dock
+      ).toBe('bottom');
+    });
+  });
+
   describe('toggle', () => {
     it('toggles open state from true to false', () => {
       expect(testPanel.open).toBe(true);
@@ -176,7 +176,7 @@ describe('Query model', () => {
 
   describe('status management', () => {
     it('supports all valid status values', () => {
-      const statuses: QueryStatus[] = ['draft', 'running', 'completed', 'failed'];
+      const statuses: QueryStatus[] = ['draft', 'running', 'completed', 'failed', 'cancelled'];
 
       statuses.forEach(status => {
         const q = new Query({ id: 'test', sql: 'SELECT 1', status });
@@ -139,6 +139,31 @@ describe('UserSession model', () => {
       expect(restored.refreshToken).toBe(testSession.refreshToken);
       expect(restored.expiresAt?.getTime()).toBe(testSession.expiresAt?.getTime());
     });
+
+    it('roundtrips the query context', () => {
+      testSession.projectId = 'billing-project';
+      testSession.datasetId = 'analytics';
+      testSession.location = 'EU';
+
+      const restored = UserSession.fromJSON(testSession.toJSON());
+      expect(restored.context).toEqual({ projectId: 'billing-project', datasetId: 'analytics', location: 'EU' });
+      expect(new UserSession().context).toEqual({ projectId: null, datasetId: null, location: null });
+    });
+
+    it('roundtrips the email', () => {
+      testSession.email = 'user@example.com';
+
+      expect(UserSession.fromJSON(testSession.toJSON()).email).toBe('user@example.com');
+      expect(new UserSession().toJSON().email).toBeNull();
+    });
+
+    it('roundtrips preferences', () => {
+      testSession.preferences = { keybindings: { 'query.execute': 'Mod+Enter' } };
+
+      const restored = UserSession.fromJSON(testSession.toJSON());
+      expect(restored.preferences).toEqual({ keybindings: { 'query.execute': 'Mod+Enter' } });
+      expect(new UserSession().preferences).toEqual({});
+    });
   });
 
   describe('isAuthenticated', () => {
@@ -217,6 +242,21 @@ describe('UserSession model', () => {
       expect(testSession.isAuthenticated()).toBe(false);
     });
 
+    it('resets the query context', () => {
+      testSession.projectId = 'billing-project';
+      testSession.location = 'US';
+      testSession.clear();
+
+      expect(testSession.context).toEqual({ projectId: null, datasetId: null, location: null });
+    });
+
+    it('keeps preferences', () => {
+      testSession.preferences = { keybindings: { 'query.execute': null } };
+      testSession.clear();
+
+      expect(testSession.preferences).toEqual({ keybindings: { 'query.execute': null } });
+    });
+
     it('can be called multiple times safely', () => {
       testSession.clear();
       testSession.clear(); // Should not throw
@@ -265,5 +305,33 @@ describe('UserSession model', () => {
       expect(session.accessToken).toBe('new-token');
       expect(session.isAuthenticated()).toBe(true);
     });
+
+    it('keeps credentials after the token expires', () => {
+      const session = new UserSession({
+        accessToken: 'expired-token',
+        expiresAt: new Date(Date.now() - 1000).toISOString()
+      });
+
+      expect(session.isAuthenticated()).toBe(false);
+      expect(session.hasCredentials()).toBe(true);
+      expect(new UserSession().hasCredentials()).toBe(false);
+    });
+
+    it('identifies the account by provider and user', () => {
+      expect(new UserSession({ provider: 'google', userId: '123' }).accountId).toBe('google:123');
+      expect(new UserSession({ accessToken: 'token' }).accountId).toBe('token:');
+    });
+
+    it('tells whether the token expires within a margin', () => {
+      const session = new UserSession({
+        accessToken: 'token',
+        expiresAt: new Date(Date.now() + 60000).toISOString()
+      });
+
+      expect(session.expiresWithin(30000)).toBe(false);
+      expect(session.expiresWithin(120000)).toBe(true);
+      expect(new UserSession({ accessToken: 'token' }).expiresWithin(120000)).toBe(false);
+      expect(new UserSession().expiresWithin(0)).toBe(true);
+    });
   });
 });
@@ -1,26 +1,15 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { signInWithToken, signOut, getSession, signInWithGoogle, signOutFromGoogle, isSignedInWithGoogle, getAuthToken } from '../authService';
-
-// Mock Google API
-const mockGoogleUser = {
-  isSignedIn: vi.fn(),
-  getAuthResponse: vi.fn(),
-  getBasicProfile: vi.fn()
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { signInWithToken, signOut, signOutAll, getSession, listAccounts, getAccount, switchAccount, signOutFromAllProviders, signInWithGoogle, signOutFromGoogle, isSignedInWithGoogle, getAuthToken, updatePreferences, updateQueryContext, registerAuthProvider, subscribeToSession, refreshToken, ensureFreshToken, ReauthenticationRequiredError, REFRESH_MARGIN_MS, setGoogleIdentityProvider, signInWithProvider, signInAgain, signOutFromProvider, listAuthProviders, describeSession } from '../authService';
+import type { AuthProvider, SessionEvent } from '../authService';
+
+// Local fake of the Google identity provider, in place of Google Identity Services
+const fakeGoogle = {
+  requestAccessToken: vi.fn(),
+  getProfile: vi.fn(),
+  revoke: vi.fn()
 };
 
-const mockAuthInstance = {
-  signIn: vi.fn(),
-  signOut: vi.fn()
-};
-
-// Global gapi mock
-global.gapi = {
-  load: vi.fn(),
-  auth2: {
-    init: vi.fn(),
-    getAuthInstance: vi.fn()
-  }
-};
+setGoogleIdentityProvider(fakeGoogle);
 
 // Type definitions for test environment
 interface LocalStorageMock {
@@ -54,20 +43,24 @@ interface GlobalWithStorage {
   };
 })();
 
+// A sign-in method whose tokens `refresh` renews
+function testProvider(refresh: AuthProvider['refresh']): AuthProvider {
+  return { id: 'test', title: 'Test', signIn: vi.fn(), refresh, describe: () => 'Test account' };
+}
+
 describe('authService', () => {
   beforeEach(() => {
     (globalThis as GlobalWithStorage).localStorage.clear();
-    signOut();
+    getSession().preferences = {};
+    signOutAll();
 
     // Reset mocks
     vi.clearAllMocks();
 
     // Setup default mock behaviors
-    global.gapi.load.mockImplementation((_api: string, options: { callback: () => void }) => {
-      options.callback();
-    });
-    global.gapi.auth2.init.mockResolvedValue(undefined);
-    global.gapi.auth2.getAuthInstance.mockReturnValue(mockAuthInstance);
+    fakeGoogle.requestAccessToken.mockResolvedValue({ accessToken: 'google-token', expiresIn: 3600, scope: 'bigquery' });
+    fakeGoogle.getProfile.mockResolvedValue({ id: 'google-user-123', email: 'user@example.com' });
+    fakeGoogle.revoke.mockResolvedValue(undefined);
   });
 
   describe('basic authentication', () => {
@@ -97,81 +90,396 @@ describe('authService', () => {
     });
   });
 
-  describe('Google OAuth integration', () => {
-    it('successfully signs in with Google', async () => {
-      // Setup Google user mock
-      mockGoogleUser.isSignedIn.mockReturnValue(true);
-      mockGoogleUser.getAuthResponse.mockReturnValue({
-        access_token: 'google-token',
-        expires_in: 3600
-      });
-      mockGoogleUser.getBasicProfile.mockReturnValue({
-        getId: () => 'google-user-123'
+  describe('preferences', () => {
+    it('persists preferences across sign-in and sign-out', async () => {
+      updatePreferences({ keybindings: { 'query.execute': 'Alt+E' } });
+
+      const session = await signInWithToken({ accessToken: 'x' });
+      expect(session.preferences.keybindings).toEqual({ 'query.execute': 'Alt+E' });
+
+      signOut();
+      const storedRaw = (globalThis as GlobalWithStorage).localStorage.getItem('smolquery.session');
+      expect(JSON.parse(storedRaw!)).toMatchObject({
+        accessToken: null,
+        preferences: { keybindings: { 'query.execute': 'Alt+E' } },
       });
-      mockAuthInstance.signIn.mockResolvedValue(mockGoogleUser);
+    });
+  });
+
+  describe('query context', () => {
+    it('persists the chosen project and keeps it when the same user signs in again', async () => {
+      await signInWithToken({ userId: 'u1', accessToken: 'a' });
+      updateQueryContext({ projectId: 'billing', datasetId: 'shared.sales', location: 'EU' });
+
+      const storedRaw = (globalThis as GlobalWithStorage).localStorage.getItem('smolquery.session');
+      expect(JSON.parse(storedRaw!)).toMatchObject({ projectId: 'billing', datasetId: 'shared.sales', location: 'EU' });
+
+      const again = await signInWithToken({ userId: 'u1', accessToken: 'b' });
+      expect(again.context).toEqual({ projectId: 'billing', datasetId: 'shared.sales', location: 'EU' });
+
+      const other = await signInWithToken({ userId: 'u2', accessToken: 'c' });
+      expect(other.context).toEqual({ projectId: null, datasetId: null, location: null });
+    });
+
+    it('drops an unqualified default dataset when switching project', async () => {
+      await signInWithToken({ userId: 'u1', accessToken: 'a' });
+      updateQueryContext({ projectId: 'alpha', datasetId: 'sales' });
+
+      expect(updateQueryContext({ projectId: 'beta' }).datasetId).toBeNull();
+      updateQueryContext({ datasetId: 'alpha.sales' });
+      expect(updateQueryContext({ projectId: 'gamma' }).datasetId).toBe('alpha.sales');
+    });
+
+    it('forgets the query context on sign-out', async () => {
+      await signInWithToken({ userId: 'u1', accessToken: 'a' });
+      updateQueryContext({ projectId: 'billing' });
+      signOut();
+
+      expect(getSession().projectId).toBeNull();
+      const session = await signInWithToken({ userId: 'u1', accessToken: 'a' });
+      expect(session.projectId).toBeNull();
+    });
+  });
+
+  describe('accounts', () => {
+    it('keeps every signed-in account and switches between them', async () => {
+      const first = await signInWithToken({ provider: 'test', userId: 'u1', email: 'one@example.com', accessToken: 'a' });
+      updateQueryContext({ projectId: 'alpha' });
+      const second = await signInWithToken({ provider: 'test', userId: 'u2', accessToken: 'b' });
+
+      expect(listAccounts().map((a) => a.accountId)).toEqual(['test:u1', 'test:u2']);
+      expect(getSession()).toBe(second);
+      expect(getAccount('test:u1')).toBe(first);
+
+      expect(switchAccount('test:u1')).toBe(first);
+      expect(getSession().projectId).toBe('alpha');
+      expect(() => switchAccount('test:nobody')).toThrow('Not signed in to test:nobody');
+
+      const storage = (globalThis as GlobalWithStorage).localStorage;
+      const stored = JSON.parse(storage.getItem('smolquery.accounts')!);
+      expect(stored.map((a: { email: string | null }) => a.email)).toEqual(['one@example.com', null]);
+      expect(JSON.parse(storage.getItem('smolquery.session')!)).toMatchObject({ userId: 'u1', projectId: 'alpha' });
+    });
+
+    it('updates the query context of a given account', async () => {
+      const first = await signInWithToken({ provider: 'test', userId: 'u1', accessToken: 'a' });
+      await signInWithToken({ provider: 'test', userId: 'u2', accessToken: 'b' });
+
+      expect(updateQueryContext({ projectId: 'alpha' }, 'test:u1')).toBe(first);
+      expect(first.projectId).toBe('alpha');
+      expect(getSession().projectId).toBeNull();
+      expect(() => updateQueryContext({ projectId: 'beta' }, 'test:nobody')).toThrow('Not signed in to test:nobody');
+    });
+
+    it('signs out of one account without activating another', async () => {
+      await signInWithToken({ provider: 'test', userId: 'u1', accessToken: 'a' });
+      await signInWithToken({ provider: 'test', userId: 'u2', accessToken: 'b' });
+      await signInWithToken({ provider: 'test', userId: 'u3', accessToken: 'c' });
+
+      signOut('test:u1');
+      expect(listAccounts().map((a) => a.accountId)).toEqual(['test:u2', 'test:u3']);
+      expect(getSession().userId).toBe('u3');
+
+      signOut();
+      expect(listAccounts().map((a) => a.accountId)).toEqual(['test:u2']);
+      expect(getSession().hasCredentials()).toBe(false);
+
+      signOut('test:nobody');
+      expect(listAccounts()).toHaveLength(1);
+    });
+
+    it('signs out of every account through its provider', async () => {
+      const provider = testProvider(undefined);
+      provider.signOut = vi.fn().mockResolvedValue(undefined);
+      const unregister = registerAuthProvider(provider);
+      await signInWithToken({ provider: 'test', userId: 'u1', accessToken: 'a' });
+      await signInWithToken({ provider: 'test', userId: 'u2', accessToken: 'b' });
+
+      await signOutFromAllProviders();
+
+      expect(listAccounts()).toEqual([]);
+      expect(getSession().hasCredentials()).toBe(false);
+      expect(provider.signOut).toHaveBeenCalledTimes(2);
+      expect((globalThis as GlobalWithStorage).localStorage.getItem('smolquery.accounts')).toBeNull();
+      unregister();
+    });
+
+    it('adopts a session stored before accounts existed', async () => {
+      (globalThis as GlobalWithStorage).localStorage.setItem(
+        'smolquery.session',
+        JSON.stringify({ provider: 'test', userId: 'u1', accessToken: 'a' })
+      );
+      vi.resetModules();
+      const reloaded = await import('../authService');
+
+      expect(reloaded.listAccounts()).toHaveLength(1);
+      expect(reloaded.listAccounts()[0]).toBe(reloaded.getSession());
+      expect(reloaded.getSession().accountId).toBe('test:u1');
+      reloaded.signOutAll();
+    });
+  });
+
+  describe('providers', () => {
+    it('registers Google, access-token and service-account sign-in', () => {
+      expect(listAuthProviders().map((p) => p.id)).toEqual(expect.arrayContaining(['google', 'token', 'service-account']));
+    });
+
+    it('signs in through a registered provider with its credentials', async () => {
+      const provider = testProvider(undefined);
+      provider.signIn = vi.fn().mockResolvedValue({ userId: 'ci@example.com', accessToken: 'ci-token', expiresIn: 3600 });
+      const unregister = registerAuthProvider(provider);
+
+      const session = await signInWithProvider('test', 'secret');
+
+      expect(provider.signIn).toHaveBeenCalledWith('secret');
+      expect(session).toBe(getSession());
+      expect(session.provider).toBe('test');
+      expect(session.userId).toBe('ci@example.com');
+      expect(session.isAuthenticated()).toBe(true);
+      unregister();
+    });
+
+    it('rejects unknown providers and failed sign-ins without signing in', async () => {
+      const provider = testProvider(undefined);
+      provider.signIn = vi.fn().mockRejectedValue(new Error('bad key'));
+      const unregister = registerAuthProvider(provider);
+
+      await expect(signInWithProvider('nope')).rejects.toThrow('Unknown sign-in method: nope');
+      await expect(signInWithProvider('test', 'x')).rejects.toThrow('bad key');
+      expect(getSession().hasCredentials()).toBe(false);
+      unregister();
+    });
+
+    it('lets the provider clean up after signing out', async () => {
+      const provider = testProvider(undefined);
+      provider.signOut = vi.fn().mockResolvedValue(undefined);
+      const unregister = registerAuthProvider(provider);
+      await signInWithToken({ provider: 'test', userId: 'u1', accessToken: 'test-token' });
+
+      await signOutFromProvider();
+
+      expect(getSession().hasCredentials()).toBe(false);
+      expect(provider.signOut).toHaveBeenCalledWith(expect.objectContaining({ userId: 'u1', accessToken: 'test-token' }));
+      unregister();
+    });
+
+    it('signs in again to an account in place without activating it', async () => {
+      const provider = testProvider(undefined);
+      provider.signIn = vi.fn().mockResolvedValue({ userId: 'u1', accessToken: 'new-token', expiresIn: 3600 });
+      const unregister = registerAuthProvider(provider);
+      const first = await signInWithToken({ provider: 'test', userId: 'u1', accessToken: 'old-token', expiresIn: -1 });
+      updateQueryContext({ projectId: 'alpha' });
+      await signInWithToken({ provider: 'test', userId: 'u2', accessToken: 'b' });
+      const events: SessionEvent[] = [];
+      const unsubscribe = subscribeToSession((event) => events.push(event));
+
+      expect(await signInAgain('test:u1', 'secret')).toBe(first);
+
+      expect(provider.signIn).toHaveBeenCalledWith('secret');
+      expect(first.accessToken).toBe('new-token');
+      expect(first.isAuthenticated()).toBe(true);
+      expect(first.projectId).toBe('alpha');
+      expect(getSession().userId).toBe('u2');
+      expect(events).toEqual([{ type: 'refreshed', session: first }]);
+      unsubscribe();
+      unregister();
+    });
+
+    it('refuses to sign in again as another user', async () => {
+      const provider = testProvider(undefined);
+      provider.signIn = vi.fn().mockResolvedValue({ userId: 'u2', email: 'two@example.com', accessToken: 'b' });
+      const unregister = registerAuthProvider(provider);
+      const first = await signInWithToken({ provider: 'test', userId: 'u1', accessToken: 'a' });
+
+      await expect(signInAgain('test:u1')).rejects.toThrow('Signed in as two@example.com instead of Test account');
+      await expect(signInAgain('test:nobody')).rejects.toThrow('Not signed in to test:nobody');
+      expect(first.accessToken).toBe('a');
+      expect(listAccounts()).toEqual([first]);
+      unregister();
+    });
 
+    it('describes the signed-in account through its provider', async () => {
+      const unregister = registerAuthProvider(testProvider(undefined));
+      expect(describeSession()).toBe('Signed out');
+
+      await signInWithToken({ provider: 'test', accessToken: 'test-token' });
+      expect(describeSession()).toBe('Test account');
+
+      await signInWithToken({ provider: 'unregistered', userId: 'someone', accessToken: 'token' });
+      expect(describeSession()).toBe('someone');
+      unregister();
+    });
+  });
+
+  describe('token refresh', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('replaces the token, persists it and notifies subscribers', async () => {
+      const unregister = registerAuthProvider(testProvider(vi.fn().mockResolvedValue({ accessToken: 'new-token', expiresIn: 3600 })));
+      const events: SessionEvent[] = [];
+      const unsubscribe = subscribeToSession((event) => events.push(event));
+      const session = await signInWithToken({ provider: 'test', accessToken: 'old-token', expiresIn: 60 });
+
+      await refreshToken();
+
+      expect(session.accessToken).toBe('new-token');
+      expect(session.expiresWithin(REFRESH_MARGIN_MS)).toBe(false);
+      expect(JSON.parse(localStorage.getItem('smolquery.session')!).accessToken).toBe('new-token');
+      expect(events).toEqual([{ type: 'refreshed', session }]);
+      unsubscribe();
+      unregister();
+    });
+
+    it('shares one refresh between concurrent callers', async () => {
+      const refresher = vi.fn().mockResolvedValue({ accessToken: 'new-token', expiresIn: 3600 });
+      const unregister = registerAuthProvider(testProvider(refresher));
+      await signInWithToken({ provider: 'test', accessToken: 'old-token', expiresIn: 60 });
+
+      await Promise.all([refreshToken(), refreshToken(), ensureFreshToken()]);
+
+      expect(refresher).toHaveBeenCalledTimes(1);
+      unregister();
+    });
+
+    it('only refreshes tokens that are about to expire', async () => {
+      const refresher = vi.fn().mockResolvedValue({ accessToken: 'new-token', expiresIn: 3600 });
+      const unregister = registerAuthProvider(testProvider(refresher));
+      await signInWithToken({ provider: 'test', accessToken: 'fresh-token', expiresIn: 3600 });
+
+      await ensureFreshToken();
+
+      expect(refresher).not.toHaveBeenCalled();
+      expect(getAuthToken()).toBe('fresh-token');
+      unregister();
+    });
+
+    it('refreshes ahead of expiry on a timer', async () => {
+      vi.useFakeTimers();
+      const refresher = vi.fn().mockResolvedValue({ accessToken: 'new-token', expiresIn: 3600 });
+      const unregister = registerAuthProvider(testProvider(refresher));
+      await signInWithToken({ provider: 'test', accessToken: 'old-token', expiresIn: 600 });
+
+      await vi.advanceTimersByTimeAsync(600 * 1000 - REFRESH_MARGIN_MS - 1);
+      expect(refresher).not.toHaveBeenCalled();
+      await vi.advanceTimersByTimeAsync(1);
+      expect(refresher).toHaveBeenCalledTimes(1);
+      expect(getAuthToken()).toBe('new-token');
+      unregister();
+    });
+
+    it('stops the refresh timer on sign-out', async () => {
+      vi.useFakeTimers();
+      const refresher = vi.fn().mockResolvedValue({ accessToken: 'new-token', expiresIn: 3600 });
+      const unregister = registerAuthProvider(testProvider(refresher));
+      await signInWithToken({ provider: 'test', accessToken: 'old-token', expiresIn: 600 });
+
+      signOut();
+      await vi.advanceTimersByTimeAsync(600 * 1000);
+
+      expect(refresher).not.toHaveBeenCalled();
+      unregister();
+    });
+
+    it('requires re-authentication when the refresh fails', async () => {
+      const unregister = registerAuthProvider(testProvider(vi.fn().mockRejectedValue(new Error('invalid_grant'))));
+      const events: SessionEvent[] = [];
+      const unsubscribe = subscribeToSession((event) => events.push(event));
+      const session = await signInWithToken({ provider: 'test', accessToken: 'old-token', expiresIn: -1 });
+
+      await expect(ensureFreshToken()).rejects.toBeInstanceOf(ReauthenticationRequiredError);
+      expect(events).toEqual([{ type: 'reauthenticationRequired', session, error: 'invalid_grant' }]);
+      unsubscribe();
+      unregister();
+    });
+
+    it('keeps a still valid token when the early refresh fails', async () => {
+      const unregister = registerAuthProvider(testProvider(vi.fn().mockRejectedValue(new Error('offline'))));
+      const session = await signInWithToken({ provider: 'test', accessToken: 'old-token', expiresIn: 60 });
+
+      await expect(ensureFreshToken()).resolves.toBe(session);
+      expect(session.accessToken).toBe('old-token');
+      unregister();
+    });
+
+    it('cannot refresh sessions of providers without a refresher', async () => {
+      await signInWithToken({ accessToken: 'token', expiresIn: 60 });
+
+      await expect(refreshToken()).rejects.toThrow(/Sign in again/);
+    });
+
+    it('does not keep a failed refresh for the next attempt', async () => {
+      const session = await signInWithToken({ provider: 'test', accessToken: 'old-token', expiresIn: 60 });
+      await expect(refreshToken(session)).rejects.toThrow('cannot be refreshed');
+
+      const unregister = registerAuthProvider(testProvider(vi.fn().mockResolvedValue({ accessToken: 'new-token', expiresIn: 3600 })));
+      await expect(refreshToken(session)).resolves.toBe(session);
+      expect(session.accessToken).toBe('new-token');
+      unregister();
+    });
+  });
+
+  describe('Google OAuth integration', () => {
+    it('successfully signs in with Google', async () => {
       const session = await signInWithGoogle();
 
       expect(session).toBeTruthy();
       expect(session?.provider).toBe('google');
       expect(session?.userId).toBe('google-user-123');
       expect(session?.accessToken).toBe('google-token');
-      expect(global.gapi.load).toHaveBeenCalledWith('auth2', expect.any(Object));
-      expect(global.gapi.auth2.init).toHaveBeenCalled();
-      expect(mockAuthInstance.signIn).toHaveBeenCalled();
+      expect(session?.isAuthenticated()).toBe(true);
+      expect(fakeGoogle.requestAccessToken).toHaveBeenCalledWith({ prompt: 'select_account' });
+      expect(fakeGoogle.getProfile).toHaveBeenCalledWith('google-token');
     });
 
     it('returns null when Google sign-in is cancelled', async () => {
-      mockGoogleUser.isSignedIn.mockReturnValue(false);
-      mockAuthInstance.signIn.mockResolvedValue(mockGoogleUser);
+      fakeGoogle.requestAccessToken.mockRejectedValue(new Error('Popup window closed'));
 
       const session = await signInWithGoogle();
 
       expect(session).toBeNull();
+      expect(getSession().isAuthenticated()).toBe(false);
     });
 
-    it('handles Google API initialization failure', async () => {
-      global.gapi.auth2.init.mockRejectedValue(new Error('Init failed'));
+    it('returns null when the Google profile cannot be loaded', async () => {
+      fakeGoogle.getProfile.mockRejectedValue(new Error('Could not load the Google profile (HTTP 401)'));
 
       const session = await signInWithGoogle();
 
       expect(session).toBeNull();
+      expect(getSession().isAuthenticated()).toBe(false);
     });
 
     it('signs out from Google and clears local session', async () => {
-      // First sign in with Google
-      mockGoogleUser.isSignedIn.mockReturnValue(true);
-      mockGoogleUser.getAuthResponse.mockReturnValue({
-        access_token: 'google-token',
-        expires_in: 3600
-      });
-      mockGoogleUser.getBasicProfile.mockReturnValue({
-        getId: () => 'google-user-123'
-      });
-      mockAuthInstance.signIn.mockResolvedValue(mockGoogleUser);
-
       await signInWithGoogle();
       expect(getSession().isAuthenticated()).toBeTruthy();
 
-      // Then sign out
       await signOutFromGoogle();
 
       expect(getSession().isAuthenticated()).toBeFalsy();
-      expect(mockAuthInstance.signOut).toHaveBeenCalled();
+      expect(fakeGoogle.revoke).toHaveBeenCalledWith('google-token');
     });
 
-    it('checks if user is signed in with Google', async () => {
-      // Sign in with Google
-      mockGoogleUser.isSignedIn.mockReturnValue(true);
-      mockGoogleUser.getAuthResponse.mockReturnValue({
-        access_token: 'google-token',
-        expires_in: 3600
-      });
-      mockGoogleUser.getBasicProfile.mockReturnValue({
-        getId: () => 'google-user-123'
-      });
-      mockAuthInstance.signIn.mockResolvedValue(mockGoogleUser);
+    it('signs out locally even when revoking the token fails', async () => {
+      fakeGoogle.revoke.mockRejectedValue(new Error('offline'));
+      await signInWithGoogle();
+
+      await signOutFromGoogle();
 
+      expect(getSession().hasCredentials()).toBe(false);
+    });
+
+    it('does not revoke tokens of other providers', async () => {
+      await signInWithToken({ provider: 'other', accessToken: 'other-token' });
+
+      await signOutFromGoogle();
+
+      expect(fakeGoogle.revoke).not.toHaveBeenCalled();
+      expect(getSession().hasCredentials()).toBe(false);
+    });
+
+    it('checks if user is signed in with Google', async () => {
       await signInWithGoogle();
       expect(isSignedInWithGoogle()).toBeTruthy();
 
@@ -196,5 +504,31 @@ describe('authService', () => {
       signOut();
       expect(getAuthToken()).toBeNull();
     });
+
+    it('refreshes Google tokens without prompting the user', async () => {
+      fakeGoogle.requestAccessToken.mockResolvedValue({ accessToken: 'google-new', expiresIn: 3600, scope: 'bigquery' });
+      const session = await signInWithToken({ provider: 'google', userId: 'google-user-123', accessToken: 'google-old', expiresIn: 60 });
+
+      await refreshToken(session, { userGesture: true });
+
+      expect(fakeGoogle.requestAccessToken).toHaveBeenCalledWith({ prompt: '', hint: 'google-user-123' });
+      expect(session.accessToken).toBe('google-new');
+    });
+
+    it('announces the expiry instead of renewing Google tokens without a click', async () => {
+      vi.useFakeTimers();
+      const events: SessionEvent[] = [];
+      const unsubscribe = subscribeToSession((event) => events.push(event));
+      const session = await signInWithToken({ provider: 'google', userId: 'google-user-123', accessToken: 'google-old', expiresIn: 600 });
+
+      await vi.advanceTimersByTimeAsync(600 * 1000 - REFRESH_MARGIN_MS);
+      expect(events).toEqual([{ type: 'expiring', session }]);
+      await expect(ensureFreshToken(session)).resolves.toBe(session);
+      await expect(refreshToken(session)).rejects.toThrow('can only be renewed with a click');
+      expect(fakeGoogle.requestAccessToken).not.toHaveBeenCalled();
+
+      unsubscribe();
+      vi.useRealTimers();
+    });
   });
 });
@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import { convertSchema, decodeRows, decodeTimestamp, decodeValue } from '../bigqueryDecoder';
+import type { BigQueryField } from '../bigqueryDecoder';
+
+describe('bigqueryDecoder', () => {
+  describe('scalars', () => {
+    it('decodes safe INT64 values as numbers and larger ones as exact bigint', () => {
+      expect(decodeValue('42', { type: 'INT64' })).toBe(42);
+      expect(decodeValue('-7', { type: 'INTEGER' })).toBe(-7);
+      expect(decodeValue('9223372036854775807', { type: 'INT64' })).toBe(9223372036854775807n);
+      expect(decodeValue('-9007199254740993', { type: 'INT64' })).toBe(-9007199254740993n);
+    });
+
+    it('keeps NUMERIC and BIGNUMERIC values as exact decimal strings', () => {
+      expect(decodeValue('123456789012345678901234567.123456789', { type: 'NUMERIC' })).toBe(
+        '123456789012345678901234567.123456789'
+      );
+      expect(decodeValue('0.1', { type: 'BIGNUMERIC' })).toBe('0.1');
+    });
+
+    it('decodes FLOAT64 including special values', () => {
+      expect(decodeValue('1.5', { type: 'FLOAT64' })).toBe(1.5);
+      expect(decodeValue('0', { type: 'FLOAT' })).toBe(0);
+      expect(decodeValue('NaN', { type: 'FLOAT64' })).toBeNaN();
+      expect(decodeValue('-Infinity', { type: 'FLOAT64' })).toBe(-Infinity);
+    });
+
+    it('decodes BOOL values', () => {
+      expect(decodeValue('true', { type: 'BOOL' })).toBe(true);
+      expect(decodeValue('false', { type: 'BOOLEAN' })).toBe(false);
+    });
+
+    it('decodes TIMESTAMP seconds with microsecond precision', () => {
+      expect(decodeValue('1.7040672E9', { type: 'TIMESTAMP' })).toBe('2024-01-01T00:00:00.000Z');
+      expect(decodeValue('1704067200.123456', { type: 'TIMESTAMP' })).toBe(
+        '2024-01-01T00:00:00.123456Z'
+      );
+      expect(decodeTimestamp('1704067200123456', true)).toBe('2024-01-01T00:00:00.123456Z');
+      expect(decodeTimestamp('-0.000001')).toBe('1969-12-31T23:59:59.999999Z');
+    });
+
+    it('parses JSON values and keeps invalid JSON as text', () => {
+      expect(decodeValue('{"a":[1,2]}', { type: 'JSON' })).toEqual({ a: [1, 2] });
+      expect(decodeValue('{oops', { type: 'JSON' })).toBe('{oops');
+    });
+
+    it('passes through lossless string types unchanged', () => {
+      const cases: [string, string][] = [
+        ['DATE', '2024-02-29'],
+        ['DATETIME', '2024-02-29T10:11:12.123456'],
+        ['TIME', '23:59:59.999999'],
+        ['GEOGRAPHY', 'POINT(1 2)'],
+        ['BYTES', 'AQID'],
+        ['INTERVAL', '1-2 3 4:5:6.789'],
+        ['STRING', 'hello'],
+      ];
+      cases.forEach(([type, value]) => expect(decodeValue(value, { type })).toBe(value));
+    });
+
+    it('returns null for NULL cells', () => {
+      expect(decodeValue(null, { type: 'INT64' })).toBeNull();
+      expect(decodeValue(undefined, { type: 'STRING' })).toBeNull();
+    });
+  });
+
+  describe('nested values', () => {
+    const fields: BigQueryField[] = [
+      { name: 'id', type: 'INT64', mode: 'REQUIRED' },
+      { name: 'tags', type: 'STRING', mode: 'REPEATED' },
+      {
+        name: 'address',
+        type: 'RECORD',
+        mode: 'NULLABLE',
+        fields: [
+          { name: 'city', type: 'STRING' },
+          { name: 'zip', type: 'INT64' },
+        ],
+      },
+      {
+        name: 'orders',
+        type: 'STRUCT',
+        mode: 'REPEATED',
+        fields: [
+          { name: 'amount', type: 'NUMERIC' },
+          { name: 'items', type: 'INT64', mode: 'REPEATED' },
+        ],
+      },
+    ];
+
+    it('recurses into RECORD and REPEATED structures', () => {
+      const rows = [
+        {
+          f: [
+            { v: '1' },
+            { v: [{ v: 'a' }, { v: 'b' }] },
+            { v: { f: [{ v: 'Paris' }, { v: '75001' }] } },
+            {
+              v: [
+                { v: { f: [{ v: '9.99' }, { v: [{ v: '1' }, { v: '2' }] }] } },
+                { v: { f: [{ v: '0.01' }, { v: [] }] } },
+              ],
+            },
+          ],
+        },
+        { f: [{ v: '2' }, { v: [] }, { v: null }, { v: [] }] },
+      ];
+
+      expect(decodeRows(rows, fields)).toEqual([
+        {
+          id: 1,
+          tags: ['a', 'b'],
+          address: { city: 'Paris', zip: 75001 },
+          orders: [
+            { amount: '9.99', items: [1, 2] },
+            { amount: '0.01', items: [] },
+          ],
+        },
+        { id: 2, tags: [], address: null, orders: [] },
+      ]);
+    });
+
+    it('converts schemas with mode and nested fields', () => {
+      expect(convertSchema(fields)).toEqual([
+        { name: 'id', type: 'INT64', mode: 'REQUIRED' },
+        { name: 'tags', type: 'STRING', mode: 'REPEATED' },
+        {
+          name: 'address',
+          type: 'RECORD',
+          mode: 'NULLABLE',
+          fields: [
+            { name: 'city', type: 'STRING' },
+            { name: 'zip', type: 'INT64' },
+          ],
+        },
+        {
+          name: 'orders',
+          type: 'STRUCT',
+          mode: 'REPEATED',
+          fields: [
+            { name: 'amount', type: 'NUMERIC' },
+            { name: 'items', type: 'INT64', mode: 'REPEATED' },
+          ],
+        },
+      ]);
+    });
+
+    it('names unnamed columns by position', () => {
+      expect(decodeRows([{ f: [{ v: 'x' }] }], [{ type: 'STRING' }])).toEqual([{ field_0: 'x' }]);
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import authService from '../authService';
+import {
+  executeCommand,
+  findCommandForEvent,
+  findKeybindingConflicts,
+  getCommands,
+  getKeybinding,
+  getRecentCommandIds,
+  isKeybindingCustomized,
+  MAX_RECENT_COMMANDS,
+  recordCommandUse,
+  registerCommands,
+  resetAllKeybindings,
+  resetKeybinding,
+  setKeybinding,
+  subscribeToCommands,
+} from '../commandService';
+import type { Command } from '../commandService';
+
+const command = (id: string, defaultBinding: string | null): Command => ({
+  id,
+  title: id,
+  category: 'Test',
+  defaultBinding,
+  run: vi.fn(),
+});
+
+describe('commandService', () => {
+  let commands: Command[];
+  let unregister: () => void;
+
+  beforeEach(() => {
+    commands = [command('a', 'Mod+E'), command('b', 'Alt+T'), command('c', null)];
+    unregister = registerCommands(commands);
+  });
+
+  afterEach(() => {
+    unregister();
+    resetAllKeybindings();
+  });
+
+  it('registers, runs and unregisters commands', () => {
+    expect(getCommands().map((c) => c.id)).toEqual(['a', 'b', 'c']);
+    expect(executeCommand('a')).toBe(true);
+    expect(commands[0].run).toHaveBeenCalled();
+
+    unregister();
+    expect(getCommands()).toEqual([]);
+    expect(executeCommand('a')).toBe(false);
+  });
+
+  it('keeps the newer command when an id is registered again', () => {
+    const replacement = command('a', 'Mod+R');
+    const unregisterReplacement = registerCommands([replacement]);
+
+    unregister();
+    expect(getCommands()).toEqual([replacement]);
+    unregisterReplacement();
+  });
+
+  it('finds the command bound to a key press', () => {
+    expect(findCommandForEvent(new KeyboardEvent('keydown', { key: 'e', ctrlKey: true }))).toBe(commands[0]);
+    expect(findCommandForEvent(new KeyboardEvent('keydown', { key: 't', code: 'KeyT', altKey: true }))).toBe(commands[1]);
+    expect(findCommandForEvent(new KeyboardEvent('keydown', { key: 'x', ctrlKey: true }))).toBeUndefined();
+  });
+
+  it('stores overrides in the session preferences', () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeToCommands(listener);
+
+    setKeybinding('a', 'ctrl+shift+y');
+    setKeybinding('b', null);
+
+    expect(getKeybinding(commands[0])).toBe('Mod+Shift+Y');
+    expect(getKeybinding(commands[1])).toBeNull();
+    expect(authService.getSession().preferences.keybindings).toEqual({ a: 'Mod+Shift+Y', b: null });
+    expect(isKeybindingCustomized('a')).toBe(true);
+    expect(listener).toHaveBeenCalledTimes(2);
+
+    resetKeybinding('b');
+    expect(getKeybinding(commands[1])).toBe('Alt+T');
+    unsubscribe();
+  });
+
+  it('drops overrides that match the default binding', () => {
+    setKeybinding('a', 'Alt+Y');
+    setKeybinding('a', 'Ctrl+E');
+
+    expect(isKeybindingCustomized('a')).toBe(false);
+  });
+
+  it('rejects unknown commands and invalid bindings', () => {
+    expect(() => setKeybinding('missing', 'Alt+Y')).toThrow('Unknown command: missing');
+    expect(() => setKeybinding('a', 'Ctrl+')).toThrow('Invalid keybinding: Ctrl+');
+  });
+
+  it('reports shared bindings and bindings the editor uses', () => {
+    setKeybinding('c', 'Alt+T');
+    setKeybinding('a', 'Mod+/');
+
+    expect(findKeybindingConflicts()).toEqual([
+      { binding: 'Mod+/', commandIds: ['a'], editorCommand: 'Toggle line comment' },
+      { binding: 'Alt+T', commandIds: ['b', 'c'], editorCommand: null },
+    ]);
+  });
+
+  describe('recent commands', () => {
+    let stored: string | null;
+
+    beforeEach(() => {
+      stored = null;
+      vi.mocked(localStorage.getItem).mockImplementation((key) => (key === 'smolquery.recentCommands' ? stored : null));
+      vi.mocked(localStorage.setItem).mockImplementation((key, value) => {
+        if (key === 'smolquery.recentCommands') stored = value;
+      });
+    });
+
+    afterEach(() => {
+      vi.mocked(localStorage.getItem).mockReset();
+      vi.mocked(localStorage.setItem).mockReset();
+    });
+
+    it('keeps the most recent uses first, without duplicates', () => {
+      recordCommandUse('a');
+      recordCommandUse('b');
+      recordCommandUse('a');
+
+      expect(getRecentCommandIds()).toEqual(['a', 'b']);
+    });
+
+    it('keeps a bounded list', () => {
+      for (let i = 0; i < MAX_RECENT_COMMANDS + 3; i++) recordCommandUse(`command-${i}`);
+
+      const recent = getRecentCommandIds();
+      expect(recent).toHaveLength(MAX_RECENT_COMMANDS);
+      expect(recent[0]).toBe(`command-${MAX_RECENT_COMMANDS + 2}`);
+    });
+
+    it('ignores unreadable data', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      stored = '{broken';
+
+      expect(getRecentCommandIds()).toEqual([]);
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+    });
+  });
+});
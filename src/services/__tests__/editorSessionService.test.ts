@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import EditorTab from '../../models/EditorTab';
+import Query from '../../models/Query';
+import { loadEditorSession, saveEditorSession } from '../editorSessionService';
+
+describe('editorSessionService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('round-trips tabs, their order and the active tab', () => {
+    const first = new EditorTab({ id: 'tab-1', query: new Query({ id: 'q1', sql: 'SELECT 1' }) });
+    const second = new EditorTab({ id: 'tab-2', query: new Query({ id: 'q2', sql: 'SELECT 2', name: 'Two' }) });
+    second.rows = [{ n: 1 }];
+    second.accountId = 'google:123';
+
+    saveEditorSession({ tabs: [first, second], activeTabId: 'tab-2' });
+    const [key, value] = vi.mocked(localStorage.setItem).mock.calls[0];
+    expect(key).toBe('smolquery.editorSession');
+    expect(JSON.parse(value).tabs[1]).toEqual({ id: 'tab-2', query: second.query.toJSON(), accountId: 'google:123' });
+
+    vi.mocked(localStorage.getItem).mockReturnValueOnce(value);
+    const session = loadEditorSession();
+    expect(session.activeTabId).toBe('tab-2');
+    expect(session.tabs.map((t) => [t.id, t.query.sql, t.title])).toEqual([
+      ['tab-1', 'SELECT 1', 'SELECT 1'],
+      ['tab-2', 'SELECT 2', 'Two'],
+    ]);
+    expect(session.tabs.map((t) => t.accountId)).toEqual([null, 'google:123']);
+    expect(session.tabs[1].rows).toEqual([]);
+  });
+
+  it('starts empty without a stored session', () => {
+    expect(loadEditorSession()).toEqual({ tabs: [], activeTabId: null });
+  });
+
+  it('drops invalid tabs and falls back to the first tab', () => {
+    vi.mocked(localStorage.getItem).mockReturnValueOnce(
+      JSON.stringify({
+        tabs: [{ id: 'broken' }, { id: 'tab-1', query: { id: 'q1', sql: 'SELECT 1' } }],
+        activeTabId: 'broken',
+      })
+    );
+
+    const session = loadEditorSession();
+    expect(session.tabs.map((t) => t.id)).toEqual(['tab-1']);
+    expect(session.activeTabId).toBe('tab-1');
+  });
+
+  it('ignores storage errors', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.mocked(localStorage.getItem).mockReturnValueOnce('{not json');
+    vi.mocked(localStorage.setItem).mockImplementationOnce(() => {
+      throw new Error('quota exceeded');
+    });
+
+    expect(loadEditorSession().tabs).toEqual([]);
+    expect(() => saveEditorSession({ tabs: [EditorTab.create()], activeTabId: null })).not.toThrow();
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+});
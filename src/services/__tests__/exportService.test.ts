@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import UserSession from '../../models/UserSession';
+import { createFileSink, exportResults, iterateResultRows } from '../exportService';
+import type { ExportSink } from '../exportService';
+import { fetchResultsPage, QueryCancelledError } from '../queryService';
+import type { QueryResult } from '../queryService';
+import type { ExportChunk } from '../../export/encoders';
+
+vi.mock('../queryService', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../queryService')>();
+  return { ...actual, fetchResultsPage: vi.fn() };
+});
+
+const schema = [{ name: 'n', type: 'INTEGER' }];
+const session = new UserSession({ accessToken: 'token' });
+
+function memorySink() {
+  const chunks: ExportChunk[] = [];
+  const sink: ExportSink & { chunks: ExportChunk[]; closed: boolean; aborted: boolean } = {
+    chunks,
+    closed: false,
+    aborted: false,
+    write: async (chunk) => {
+      chunks.push(chunk);
+    },
+    close: async () => {
+      sink.closed = true;
+    },
+    abort: async () => {
+      sink.aborted = true;
+    },
+  };
+  return sink;
+}
+
+function pagedResult(): QueryResult {
+  return {
+    jobId: 'job1',
+    projectId: 'p',
+    rows: [{ n: 1 }],
+    schema,
+    totalRows: 3,
+    pageToken: 'after-first',
+  };
+}
+
+describe('exportService', () => {
+  beforeEach(() => {
+    vi.mocked(fetchResultsPage).mockReset();
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('uses the loaded rows when they are the whole result', async () => {
+    const result: QueryResult = { jobId: 'local-1', rows: [{ n: 1 }, { n: 2 }], schema, totalRows: 2 };
+    const batches = [];
+    for await (const rows of iterateResultRows(result, session)) batches.push(rows);
+
+    expect(batches).toEqual([[{ n: 1 }, { n: 2 }]]);
+    expect(fetchResultsPage).not.toHaveBeenCalled();
+  });
+
+  it('pages through the whole result from the first row', async () => {
+    vi.mocked(fetchResultsPage)
+      .mockResolvedValueOnce({ rows: [{ n: 1 }, { n: 2 }], schema, totalRows: 3, pageToken: 't2' })
+      .mockResolvedValueOnce({ rows: [{ n: 3 }], schema, totalRows: 3, pageToken: null });
+
+    const sink = memorySink();
+    const progress = vi.fn();
+    const written = await exportResults(pagedResult(), session, { format: 'csv', pageSize: 2, onProgress: progress }, sink);
+
+    expect(written).toBe(3);
+    expect(sink.chunks.join('')).toBe('n\r\n1\r\n2\r\n3\r\n');
+    expect(sink.closed).toBe(true);
+    expect(progress.mock.calls).toEqual([
+      [2, 3],
+      [3, 3],
+    ]);
+    expect(vi.mocked(fetchResultsPage).mock.calls.map((call) => call[2])).toEqual([
+      { startIndex: 0, maxResults: 2, signal: undefined },
+      { pageToken: 't2', maxResults: 2, signal: undefined },
+    ]);
+  });
+
+  it('stops when cancelled and aborts the sink', async () => {
+    const controller = new AbortController();
+    vi.mocked(fetchResultsPage).mockImplementationOnce(async () => {
+      controller.abort();
+      return { rows: [{ n: 1 }], schema, totalRows: 3, pageToken: 't2' };
+    });
+
+    const sink = memorySink();
+    await expect(
+      exportResults(pagedResult(), session, { format: 'jsonl', signal: controller.signal }, sink)
+    ).rejects.toBeInstanceOf(QueryCancelledError);
+    expect(fetchResultsPage).toHaveBeenCalledTimes(1);
+    expect(sink.aborted).toBe(true);
+    expect(sink.closed).toBe(false);
+  });
+
+  it('aborts the sink when a page fetch fails', async () => {
+    vi.mocked(fetchResultsPage).mockRejectedValueOnce(new Error('BigQuery page fetch failed: boom'));
+
+    const sink = memorySink();
+    await expect(exportResults(pagedResult(), session, { format: 'json' }, sink)).rejects.toThrow('boom');
+    expect(sink.aborted).toBe(true);
+  });
+
+  describe('createFileSink', () => {
+    afterEach(() => {
+      delete (globalThis as { showSaveFilePicker?: unknown }).showSaveFilePicker;
+    });
+
+    it('streams to the file chosen in the save dialog', async () => {
+      const stream = { write: vi.fn(), close: vi.fn(), abort: vi.fn() };
+      const picker = vi.fn().mockResolvedValue({ createWritable: async () => stream });
+      Object.assign(globalThis, { showSaveFilePicker: picker });
+
+      const sink = await createFileSink('jsonl', 'results');
+      await sink!.write('{}\n');
+      await sink!.close();
+
+      expect(picker.mock.calls[0][0].suggestedName).toBe('results.jsonl');
+      expect(stream.write).toHaveBeenCalledWith('{}\n');
+      expect(stream.close).toHaveBeenCalled();
+    });
+
+    it('returns null when the save dialog is dismissed', async () => {
+      const picker = vi.fn().mockRejectedValue(new DOMException('The user aborted a request.', 'AbortError'));
+      Object.assign(globalThis, { showSaveFilePicker: picker });
+
+      expect(await createFileSink('csv', 'results')).toBeNull();
+    });
+
+    it('falls back to a download link', async () => {
+      const createObjectURL = vi.fn((_blob: Blob) => 'blob:export');
+      Object.assign(URL, { createObjectURL, revokeObjectURL: vi.fn() });
+      const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+        expect(this.download).toBe('results.csv');
+        expect(this.href).toBe('blob:export');
+      });
+
+      const sink = await createFileSink('csv', 'results');
+      await sink!.write('a\r\n');
+      await sink!.write('1\r\n');
+      await sink!.close();
+
+      expect(click).toHaveBeenCalledTimes(1);
+      const blob = createObjectURL.mock.calls[0][0];
+      expect(blob.type).toBe('text/csv');
+      expect(blob.size).toBe(6);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createGoogleIdentityServicesProvider } from '../googleIdentity';
+
+type TokenClientConfig = {
+  client_id: string;
+  scope: string;
+  callback: (response: Record<string, unknown>) => void;
+  error_callback?: (error: { type: string; message?: string }) => void;
+};
+
+// Fake google.accounts.oauth2: each token request answers through the client's callbacks
+let answer: (config: TokenClientConfig) => void;
+const oauth2 = {
+  initTokenClient: vi.fn((config: TokenClientConfig) => ({
+    requestAccessToken: vi.fn(() => answer(config))
+  })),
+  revoke: vi.fn((_token: string, done?: () => void) => done?.())
+};
+
+const config = { clientId: 'client-id', scope: 'https://www.googleapis.com/auth/bigquery' };
+
+describe('googleIdentity', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    globalThis.google = { accounts: { oauth2 } };
+    answer = (c) => c.callback({ access_token: 'gis-token', expires_in: '3599', scope: c.scope });
+  });
+
+  afterEach(() => {
+    globalThis.google = undefined;
+    vi.unstubAllGlobals();
+  });
+
+  it('requests an access token from the token client', async () => {
+    const provider = createGoogleIdentityServicesProvider(config);
+
+    const token = await provider.requestAccessToken({ prompt: 'select_account', hint: 'user@example.com' });
+
+    expect(token).toEqual({ accessToken: 'gis-token', expiresIn: 3599, scope: config.scope });
+    expect(oauth2.initTokenClient).toHaveBeenCalledWith(expect.objectContaining({
+      client_id: 'client-id',
+      scope: config.scope
+    }));
+    const client = oauth2.initTokenClient.mock.results[0].value;
+    expect(client.requestAccessToken).toHaveBeenCalledWith({ prompt: 'select_account', hint: 'user@example.com' });
+  });
+
+  it('rejects when Google answers with an error', async () => {
+    answer = (c) => c.callback({ error: 'access_denied', error_description: 'The user denied access' });
+    const provider = createGoogleIdentityServicesProvider(config);
+
+    await expect(provider.requestAccessToken({ prompt: '' })).rejects.toThrow('The user denied access');
+  });
+
+  it('rejects when the popup is closed', async () => {
+    answer = (c) => c.error_callback?.({ type: 'popup_closed', message: 'Popup window closed' });
+    const provider = createGoogleIdentityServicesProvider(config);
+
+    await expect(provider.requestAccessToken({ prompt: 'select_account' })).rejects.toThrow('Popup window closed');
+  });
+
+  it('explains when Google Identity Services is not loaded', async () => {
+    globalThis.google = undefined;
+    const provider = createGoogleIdentityServicesProvider(config);
+
+    await expect(provider.requestAccessToken({ prompt: '' })).rejects.toThrow(/gsi\/client/);
+  });
+
+  it('loads the profile from the userinfo endpoint', async () => {
+    const fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ sub: '1234', email: 'user@example.com', name: 'User' })
+    });
+    vi.stubGlobal('fetch', fetch);
+    const provider = createGoogleIdentityServicesProvider(config);
+
+    const profile = await provider.getProfile('gis-token');
+
+    expect(profile).toEqual({ id: '1234', email: 'user@example.com', name: 'User' });
+    expect(fetch).toHaveBeenCalledWith('https://www.googleapis.com/oauth2/v3/userinfo', {
+      headers: { Authorization: 'Bearer gis-token' }
+    });
+  });
+
+  it('rejects when the profile cannot be loaded', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 401 }));
+    const provider = createGoogleIdentityServicesProvider(config);
+
+    await expect(provider.getProfile('bad-token')).rejects.toThrow('HTTP 401');
+  });
+
+  it('revokes the token', async () => {
+    const provider = createGoogleIdentityServicesProvider(config);
+
+    await provider.revoke('gis-token');
+
+    expect(oauth2.revoke).toHaveBeenCalledWith('gis-token', expect.any(Function));
+  });
+});
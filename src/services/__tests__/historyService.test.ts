@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterAll, vi } from 'vitest';
+import {
+  clearHistory,
+  listHistory,
+  localStorageHistoryStore,
+  MAX_HISTORY_ENTRIES,
+  recordExecution,
+  setHistoryStore,
+  subscribeToHistory,
+} from '../historyService';
+import type { HistoryEntry } from '../historyService';
+
+let stored: HistoryEntry[] = [];
+
+function run(queryId: string, sql: string, startedAt: string, status: HistoryEntry['status'] = 'completed') {
+  return {
+    queryId,
+    sql,
+    startedAt,
+    endedAt: startedAt,
+    durationMs: 0,
+    jobId: null,
+    bytesProcessed: null,
+    rowCount: null,
+    status,
+    error: null,
+  };
+}
+
+describe('historyService', () => {
+  beforeEach(() => {
+    stored = [];
+    setHistoryStore({
+      load: async () => [...stored],
+      persist: async (entries) => {
+        stored = entries;
+      },
+    });
+  });
+
+  afterAll(() => {
+    setHistoryStore(localStorageHistoryStore);
+  });
+
+  it('records entries newest first and notifies subscribers', async () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeToHistory(listener);
+
+    const first = await recordExecution(run('q1', 'SELECT 1', '2024-01-01T00:00:00.000Z'));
+    await recordExecution(run('q1', 'SELECT 2', '2024-01-02T00:00:00.000Z'));
+    unsubscribe();
+    await clearHistory();
+
+    expect(first.id).toMatch(/^run-/);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps at most MAX_HISTORY_ENTRIES entries', async () => {
+    stored = Array.from({ length: MAX_HISTORY_ENTRIES }, (_, i) => ({
+      id: `old-${i}`,
+      ...run('q', 'SELECT 1', '2024-01-01T00:00:00.000Z'),
+    }));
+
+    const recorded = await recordExecution(run('q', 'SELECT 2', '2024-02-01T00:00:00.000Z'));
+
+    expect(stored).toHaveLength(MAX_HISTORY_ENTRIES);
+    expect(stored[0].id).toBe(recorded.id);
+    expect(stored.some((e) => e.id === `old-${MAX_HISTORY_ENTRIES - 1}`)).toBe(false);
+  });
+
+  it('filters by text, status and query', async () => {
+    await recordExecution({ ...run('q1', 'SELECT * FROM sales', '2024-01-01T00:00:00.000Z'), queryName: 'Revenue' });
+    await recordExecution(run('q1', 'SELECT * FROM salez', '2024-01-02T00:00:00.000Z', 'failed'));
+    await recordExecution(run('q2', 'SELECT * FROM users', '2024-01-03T00:00:00.000Z'));
+
+    expect((await listHistory()).map((e) => e.sql)).toEqual([
+      'SELECT * FROM users',
+      'SELECT * FROM salez',
+      'SELECT * FROM sales',
+    ]);
+    expect((await listHistory({ text: 'revenue' })).map((e) => e.sql)).toEqual(['SELECT * FROM sales']);
+    expect((await listHistory({ status: 'failed' })).map((e) => e.sql)).toEqual(['SELECT * FROM salez']);
+    expect((await listHistory({ queryId: 'q2' })).map((e) => e.sql)).toEqual(['SELECT * FROM users']);
+    expect(await listHistory({ text: 'users', queryId: 'q1' })).toEqual([]);
+  });
+
+  it('clears the history', async () => {
+    await recordExecution(run('q1', 'SELECT 1', '2024-01-01T00:00:00.000Z'));
+    await clearHistory();
+    expect(await listHistory()).toEqual([]);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import Panel from '../../models/Panel';
+import {
+  clampDockSize,
+  DEFAULT_DOCK_SIZES,
+  DEFAULT_PANEL_LAYOUT,
+  loadPanelLayout,
+  MAX_DOCK_SIZE,
+  savePanelLayout,
+  sortPanels,
+} from '../layoutService';
+
+describe('layoutService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('starts from the default layout', () => {
+    const { panels, sizes } = loadPanelLayout();
+    expect(panels.map((p) => [p.type, p.open, p.order, p.dock])).toEqual(
+      DEFAULT_PANEL_LAYOUT.map((p) => [p.type, false, p.order, p.dock])
+    );
+    expect(sizes).toEqual(DEFAULT_DOCK_SIZES);
+  });
+
+  it('round-trips open state, order, docks and sizes', () => {
+    const { panels, sizes } = loadPanelLayout();
+    panels[0].order = 10;
+    panels[0].dock = 'right';
+    panels[2].openPanel();
+    savePanelLayout({ panels, sizes: { ...sizes, bottom: 0, left: 33 } });
+
+    const [key, value] = vi.mocked(localStorage.setItem).mock.calls[0];
+    expect(key).toBe('smolquery.panelLayout');
+    vi.mocked(localStorage.getItem).mockReturnValueOnce(value);
+
+    const restored = loadPanelLayout();
+    expect(restored.panels.map((p) => p.type)).toEqual(['schema', 'settings', 'saved-queries', 'history', 'console', 'results']);
+    expect(restored.panels.map((p) => p.order)).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(restored.panels.find((p) => p.type === 'settings')?.open).toBe(true);
+    expect(restored.panels.find((p) => p.type === 'results')?.dock).toBe('right');
+    expect(restored.sizes).toEqual({ left: 33, right: DEFAULT_DOCK_SIZES.right, bottom: 0 });
+  });
+
+  it('reads layouts saved as a bare panel array', () => {
+    vi.mocked(localStorage.getItem).mockReturnValueOnce(
+      JSON.stringify([{ id: 'history', type: 'history', open: true, order: 0 }])
+    );
+
+    const { panels, sizes } = loadPanelLayout();
+    expect(panels[0]).toMatchObject({ type: 'history', open: true, dock: 'left' });
+    expect(sizes).toEqual(DEFAULT_DOCK_SIZES);
+  });
+
+  it('drops unknown panels and appends ones missing from the stored layout', () => {
+    vi.mocked(localStorage.getItem).mockReturnValueOnce(
+      JSON.stringify({
+        panels: [
+          { id: 'gone', type: 'gone', open: true, order: 0 },
+          { id: 'history', type: 'history', open: true, order: 1 },
+        ],
+      })
+    );
+
+    const { panels } = loadPanelLayout();
+    expect(panels[0].type).toBe('history');
+    expect(panels).toHaveLength(DEFAULT_PANEL_LAYOUT.length);
+    expect(panels.map((p) => p.type)).not.toContain('gone');
+  });
+
+  it('ignores unreadable layouts and clamps sizes', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.mocked(localStorage.getItem).mockReturnValueOnce('{not json');
+    expect(loadPanelLayout().panels).toHaveLength(DEFAULT_PANEL_LAYOUT.length);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+
+    vi.mocked(localStorage.getItem).mockReturnValueOnce(JSON.stringify({ sizes: { left: 150, right: -5 } }));
+    expect(loadPanelLayout().sizes).toEqual({ ...DEFAULT_DOCK_SIZES, left: MAX_DOCK_SIZE, right: 0 });
+    expect(clampDockSize(Number.NaN)).toBe(0);
+  });
+
+  it('sorts and renumbers panels', () => {
+    const panels = [
+      new Panel({ id: 'b', type: 'schema', order: 7 }),
+      new Panel({ id: 'a', type: 'results', order: -2 }),
+    ];
+    expect(sortPanels(panels).map((p) => [p.id, p.order])).toEqual([
+      ['a', 0],
+      ['b', 1],
+    ]);
+  });
+});
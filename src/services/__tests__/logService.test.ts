@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  clearLog,
+  describeError,
+  formatLogEvents,
+  getLogEvents,
+  log,
+  logger,
+  MAX_LOG_EVENTS,
+  subscribeToLog,
+} from '../logService';
+
+describe('logService', () => {
+  beforeEach(() => {
+    clearLog();
+    for (const level of ['debug', 'info', 'warn', 'error'] as const) {
+      vi.spyOn(console, level).mockImplementation(() => {});
+    }
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('records events and forwards them to the browser console', () => {
+    const event = logger.warn('query', 'Retrying', { attempt: 2 });
+
+    expect(event).toMatchObject({ level: 'warn', source: 'query', message: 'Retrying', details: { attempt: 2 } });
+    expect(getLogEvents()).toEqual([event]);
+    expect(console.warn).toHaveBeenCalledWith('[query] Retrying', { attempt: 2 });
+  });
+
+  it('filters by minimum severity and source', () => {
+    logger.debug('query', 'a');
+    logger.info('auth', 'b');
+    logger.error('query', 'c');
+
+    expect(getLogEvents({ minLevel: 'info' }).map((e) => e.message)).toEqual(['b', 'c']);
+    expect(getLogEvents({ source: 'query' }).map((e) => e.message)).toEqual(['a', 'c']);
+    expect(getLogEvents({ minLevel: 'warn', source: 'auth' })).toEqual([]);
+  });
+
+  it('keeps only the most recent events', () => {
+    for (let i = 0; i < MAX_LOG_EVENTS + 5; i++) log('debug', 'test', `event ${i}`);
+
+    const events = getLogEvents();
+    expect(events).toHaveLength(MAX_LOG_EVENTS);
+    expect(events[0].message).toBe('event 5');
+  });
+
+  it('notifies subscribers until they unsubscribe', () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeToLog(listener);
+
+    const event = logger.info('auth', 'Signed in');
+    unsubscribe();
+    logger.info('auth', 'Signed out');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(event);
+  });
+
+  it('formats events as text', () => {
+    const events = [
+      { id: 1, timestamp: '2024-01-01T00:00:00.000Z', level: 'info' as const, source: 'query', message: 'Done' },
+      {
+        id: 2,
+        timestamp: '2024-01-01T00:00:01.000Z',
+        level: 'error' as const,
+        source: 'auth',
+        message: 'Failed',
+        details: { error: 'denied' },
+      },
+    ];
+
+    expect(formatLogEvents(events)).toBe(
+      '2024-01-01T00:00:00.000Z INFO [query] Done\n2024-01-01T00:00:01.000Z ERROR [auth] Failed {"error":"denied"}'
+    );
+  });
+
+  it('describes thrown values', () => {
+    expect(describeError(new Error('boom'))).toBe('boom');
+    expect(describeError({ message: 'api error' })).toBe('api error');
+    expect(describeError('plain')).toBe('plain');
+  });
+});
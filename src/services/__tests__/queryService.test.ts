@@ -1,17 +1,50 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import Query from '../../models/Query';
 import UserSession from '../../models/UserSession';
-import { executeQuery } from '../queryService';
+import {
+  BytesLimitExceededError,
+  estimateQuery,
+  executeQuery,
+  fetchResultsPage,
+  NoProjectSelectedError,
+  QueryCancelledError
+} from '../queryService';
+import { localStorageHistoryStore, setHistoryStore } from '../historyService';
+import { ReauthenticationRequiredError, registerAuthProvider } from '../authService';
+import type { AuthProvider } from '../authService';
+import type { HistoryEntry } from '../historyService';
+
+// BigQuery endpoints; each gets the gapi.client.request options routed to it
+const jobs = {
+  query: vi.fn(),
+  insert: vi.fn(),
+  getQueryResults: vi.fn(),
+  cancel: vi.fn()
+};
+
+interface RequestOptions {
+  path: string;
+  method: string;
+  params: Record<string, unknown>;
+  body?: unknown;
+  headers: Record<string, string>;
+}
+
+const BIGQUERY_ROOT = 'https://bigquery.googleapis.com/bigquery/v2/';
+
+function routeRequest(request: RequestOptions) {
+  const path = request.path.replace(BIGQUERY_ROOT, '');
+  if (/^projects\/[^/]+\/queries$/.test(path)) return jobs.query(request);
+  if (/^projects\/[^/]+\/queries\/[^/]+$/.test(path)) return jobs.getQueryResults(request);
+  if (/^projects\/[^/]+\/jobs$/.test(path)) return jobs.insert(request);
+  if (/^projects\/[^/]+\/jobs\/[^/]+\/cancel$/.test(path)) return jobs.cancel(request);
+  throw new Error(`Unexpected BigQuery request ${request.method} ${path}`);
+}
 
 // Mock gapi globally
 const mockGapi = {
   client: {
-    bigquery: {
-      jobs: {
-        query: vi.fn()
-      }
-    },
-    load: vi.fn()
+    request: vi.fn(routeRequest)
   },
   load: vi.fn()
 };
@@ -24,6 +57,11 @@ declare global {
 
 global.gapi = mockGapi;
 
+// A sign-in method whose tokens `refresh` renews
+function testProvider(refresh: AuthProvider['refresh']): AuthProvider {
+  return { id: 'test', title: 'Test', signIn: vi.fn(), refresh, describe: () => 'Test account' };
+}
+
 describe('queryService', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -34,7 +72,6 @@ describe('queryService', () => {
         config.callback();
       }
     });
-    mockGapi.client.load = vi.fn().mockResolvedValue(undefined);
   });
 
   it('executes query with mock implementation when no session provided', async () => {
@@ -57,6 +94,7 @@ describe('queryService', () => {
     // Mock authenticated session
     const s = new UserSession({
       accessToken: 'valid-token',
+      projectId: 'billing-project',
       expiresAt: new Date(Date.now() + 3600000).toISOString() // 1 hour from now
     });
 
@@ -76,19 +114,22 @@ describe('queryService', () => {
       }
     };
 
-    mockGapi.client.bigquery.jobs.query.mockResolvedValue(mockResponse);
+    jobs.query.mockResolvedValue(mockResponse);
 
     const q = new Query({ id: 't3', sql: 'SELECT 1 as id, "test" as name' });
     const res = await executeQuery(q, s);
 
-    expect(mockGapi.client.bigquery.jobs.query).toHaveBeenCalledWith({
-      projectId: expect.any(String),
-      resource: {
+    expect(jobs.query).toHaveBeenCalledWith({
+      path: `${BIGQUERY_ROOT}projects/billing-project/queries`,
+      method: 'POST',
+      params: {},
+      body: {
         query: 'SELECT 1 as id, "test" as name',
         useLegacySql: false,
         maxResults: 1000,
         timeoutMs: 30000
-      }
+      },
+      headers: { Authorization: 'Bearer valid-token' }
     });
 
     expect(res.jobId).toBe('bigquery-job-123');
@@ -102,6 +143,7 @@ describe('queryService', () => {
   it('handles BigQuery API errors gracefully', async () => {
     const s = new UserSession({
       accessToken: 'valid-token',
+      projectId: 'billing-project',
       expiresAt: new Date(Date.now() + 3600000).toISOString()
     });
 
@@ -114,7 +156,7 @@ describe('queryService', () => {
       }
     };
 
-    mockGapi.client.bigquery.jobs.query.mockRejectedValue(mockError);
+    jobs.query.mockRejectedValue(mockError);
 
     const q = new Query({ id: 't4', sql: 'INVALID SQL' });
 
@@ -132,4 +174,501 @@ describe('queryService', () => {
     ]);
     expect(res.schema.some((s) => s.name === 'n')).toBeTruthy();
   });
+
+  describe('query context', () => {
+    const session = (context: { projectId?: string | null; datasetId?: string; location?: string }) =>
+      new UserSession({
+        accessToken: 'valid-token',
+        expiresAt: new Date(Date.now() + 3600000).toISOString(),
+        ...context
+      });
+
+    it('runs jobs.query in the selected project, dataset and location', async () => {
+      jobs.query.mockResolvedValue({ result: { jobReference: { jobId: 'job-c' } } });
+
+      await executeQuery(
+        new Query({ id: 'c1', sql: 'SELECT * FROM orders' }),
+        session({ projectId: 'billing', datasetId: 'sales', location: 'EU' })
+      );
+
+      expect(jobs.query).toHaveBeenCalledWith(expect.objectContaining({
+        path: `${BIGQUERY_ROOT}projects/billing/queries`,
+        body: expect.objectContaining({
+          defaultDataset: { projectId: 'billing', datasetId: 'sales' },
+          location: 'EU'
+        })
+      }));
+    });
+
+    it('passes a dataset of another project and the location to inserted jobs and dry runs', async () => {
+      jobs.insert.mockResolvedValue({
+        result: { jobReference: { projectId: 'billing', jobId: 'job-c', location: 'asia-northeast1' } }
+      });
+      jobs.getQueryResults.mockResolvedValue({ result: { jobComplete: true } });
+      const s = session({ projectId: 'billing', datasetId: 'shared-data.public', location: 'asia-northeast1' });
+
+      await executeQuery(new Query({ id: 'c2', sql: 'SELECT 1' }), s, { mode: 'job' });
+      await estimateQuery(new Query({ id: 'c2', sql: 'SELECT 1' }), s);
+
+      const [inserted, dryRun] = jobs.insert.mock.calls.map(([request]) => request);
+      for (const request of [inserted, dryRun]) {
+        expect(request.path).toBe(`${BIGQUERY_ROOT}projects/billing/jobs`);
+        expect(request.body.jobReference).toEqual({ projectId: 'billing', location: 'asia-northeast1' });
+        expect(request.body.configuration.query.defaultDataset).toEqual({
+          projectId: 'shared-data',
+          datasetId: 'public'
+        });
+      }
+    });
+
+    it('fails without a billing project instead of guessing one', async () => {
+      const q = new Query({ id: 'c3', sql: 'SELECT 1' });
+
+      await expect(executeQuery(q, session({ projectId: null }))).rejects.toBeInstanceOf(NoProjectSelectedError);
+      expect(q.status).toBe('failed');
+      expect(jobs.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('job lifecycle', () => {
+    const session = () => new UserSession({
+      accessToken: 'valid-token',
+      projectId: 'billing-project',
+      expiresAt: new Date(Date.now() + 3600000).toISOString()
+    });
+
+    const completeResponse = {
+      result: {
+        jobComplete: true,
+        jobReference: { jobId: 'job-1', location: 'US' },
+        schema: { fields: [{ name: 'n', type: 'INTEGER' }] },
+        rows: [{ f: [{ v: '42' }] }]
+      }
+    };
+
+    beforeEach(() => {
+      jobs.insert.mockResolvedValue({
+        result: { jobReference: { projectId: 'p', jobId: 'job-1', location: 'US' } }
+      });
+      jobs.cancel.mockResolvedValue({ result: {} });
+    });
+
+    it('inserts a job and polls getQueryResults until complete', async () => {
+      jobs.getQueryResults
+        .mockResolvedValueOnce({ result: { jobComplete: false } })
+        .mockResolvedValueOnce({ result: { jobComplete: false } })
+        .mockResolvedValueOnce(completeResponse);
+
+      const q = new Query({ id: 'j1', sql: 'SELECT 42 AS n' });
+      const res = await executeQuery(q, session(), { mode: 'job', pollIntervalMs: 1 });
+
+      expect(jobs.insert).toHaveBeenCalledWith(expect.objectContaining({
+        path: `${BIGQUERY_ROOT}projects/billing-project/jobs`,
+        method: 'POST',
+        body: { configuration: { query: { query: 'SELECT 42 AS n', useLegacySql: false } } }
+      }));
+      expect(jobs.getQueryResults).toHaveBeenCalledTimes(3);
+      expect(jobs.getQueryResults).toHaveBeenCalledWith(expect.objectContaining({
+        path: `${BIGQUERY_ROOT}projects/p/queries/job-1`,
+        params: expect.objectContaining({ location: 'US' })
+      }));
+      expect(res.jobId).toBe('job-1');
+      expect(res.rows).toEqual([{ n: 42 }]);
+      expect(q.status).toBe('completed');
+    });
+
+    it('keeps polling when jobs.query returns jobComplete: false', async () => {
+      jobs.query.mockResolvedValue({
+        result: { jobComplete: false, jobReference: { projectId: 'p', jobId: 'job-1' } }
+      });
+      jobs.getQueryResults.mockResolvedValueOnce(completeResponse);
+
+      const res = await executeQuery(new Query({ id: 'j2', sql: 'SELECT 42 AS n' }), session(), {
+        pollIntervalMs: 1
+      });
+
+      expect(jobs.getQueryResults).toHaveBeenCalledTimes(1);
+      expect(res.rows).toEqual([{ n: 42 }]);
+    });
+
+    it('cancels the BigQuery job when the signal aborts', async () => {
+      jobs.getQueryResults.mockResolvedValue({ result: { jobComplete: false } });
+
+      const controller = new AbortController();
+      const q = new Query({ id: 'j3', sql: 'SELECT 42 AS n' });
+      const pending = executeQuery(q, session(), {
+        mode: 'job',
+        signal: controller.signal,
+        pollIntervalMs: 50
+      });
+      setTimeout(() => controller.abort(), 10);
+
+      await expect(pending).rejects.toBeInstanceOf(QueryCancelledError);
+      expect(jobs.cancel).toHaveBeenCalledWith(expect.objectContaining({
+        path: `${BIGQUERY_ROOT}projects/p/jobs/job-1/cancel`,
+        method: 'POST',
+        params: { location: 'US' }
+      }));
+      expect(q.status).toBe('cancelled');
+      expect(q.lastError).toBeNull();
+    });
+
+    it('polls and cancels with the token of the account that runs the job', async () => {
+      jobs.getQueryResults.mockResolvedValue({ result: { jobComplete: false } });
+      jobs.query.mockResolvedValue(completeResponse);
+      const runner = new UserSession({ ...session().toJSON(), accessToken: 'token-a' });
+      const other = new UserSession({ ...session().toJSON(), accessToken: 'token-b' });
+
+      const controller = new AbortController();
+      const pending = executeQuery(new Query({ id: 'j6', sql: 'SELECT 42 AS n' }), runner, {
+        mode: 'job',
+        signal: controller.signal,
+        pollIntervalMs: 5
+      });
+      await executeQuery(new Query({ id: 'j7', sql: 'SELECT 42 AS n' }), other);
+      setTimeout(() => controller.abort(), 10);
+      await expect(pending).rejects.toBeInstanceOf(QueryCancelledError);
+
+      const tokenOf = (mock: typeof jobs.query) => mock.mock.calls.map(([request]) => request.headers.Authorization);
+      expect(tokenOf(jobs.query)).toEqual(['Bearer token-b']);
+      expect(new Set([...tokenOf(jobs.insert), ...tokenOf(jobs.getQueryResults), ...tokenOf(jobs.cancel)]))
+        .toEqual(new Set(['Bearer token-a']));
+      expect(jobs.cancel).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports errors raised while polling', async () => {
+      jobs.getQueryResults.mockRejectedValue({
+        result: { error: { message: 'Resources exceeded' } }
+      });
+
+      const q = new Query({ id: 'j4', sql: 'SELECT 42 AS n' });
+      await expect(executeQuery(q, session(), { mode: 'job' })).rejects.toThrow(
+        'BigQuery execution failed: Resources exceeded'
+      );
+      expect(q.status).toBe('failed');
+    });
+
+    it('cancels mock executions too', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const q = new Query({ id: 'j5', sql: 'SELECT 1' });
+
+      await expect(executeQuery(q, undefined, { signal: controller.signal })).rejects.toThrow(
+        'Query cancelled'
+      );
+      expect(q.status).toBe('cancelled');
+    });
+  });
+
+  describe('paging', () => {
+    const session = new UserSession({
+      accessToken: 'valid-token',
+      projectId: 'billing-project',
+      expiresAt: new Date(Date.now() + 3600000).toISOString()
+    });
+
+    it('returns totalRows and the next page token with the first page', async () => {
+      jobs.query.mockResolvedValue({
+        result: {
+          jobComplete: true,
+          jobReference: { projectId: 'p', jobId: 'job-9', location: 'EU' },
+          schema: { fields: [{ name: 'n', type: 'INTEGER' }] },
+          rows: [{ f: [{ v: '1' }] }],
+          totalRows: '2500',
+          pageToken: 'token-2'
+        }
+      });
+
+      const res = await executeQuery(new Query({ id: 'p1', sql: 'SELECT n' }), session, { maxResults: 1 });
+
+      expect(jobs.query).toHaveBeenCalledWith(expect.objectContaining({
+        body: expect.objectContaining({ maxResults: 1 })
+      }));
+      expect(res.totalRows).toBe(2500);
+      expect(res.pageToken).toBe('token-2');
+      expect(res.projectId).toBe('p');
+      expect(res.location).toBe('EU');
+    });
+
+    it('fetches further pages by token or start index', async () => {
+      jobs.getQueryResults.mockResolvedValue({
+        result: {
+          jobComplete: true,
+          schema: { fields: [{ name: 'n', type: 'INTEGER' }] },
+          rows: [{ f: [{ v: '1001' }] }],
+          totalRows: '2500',
+          pageToken: 'token-3'
+        }
+      });
+      const first = { jobId: 'job-9', projectId: 'p', location: 'EU' };
+
+      const byToken = await fetchResultsPage(first, session, { pageToken: 'token-2', maxResults: 1000 });
+      expect(jobs.getQueryResults).toHaveBeenLastCalledWith(expect.objectContaining({
+        path: `${BIGQUERY_ROOT}projects/p/queries/job-9`,
+        params: expect.objectContaining({ location: 'EU', pageToken: 'token-2' })
+      }));
+      expect(byToken.rows).toEqual([{ n: 1001 }]);
+      expect(byToken.pageToken).toBe('token-3');
+      expect(byToken.jobId).toBe('job-9');
+
+      await fetchResultsPage(first, session, { startIndex: 2000, maxResults: 10 });
+      const params = jobs.getQueryResults.mock.lastCall?.[0].params;
+      expect(params.startIndex).toBe('2000');
+      expect(params.maxResults).toBe(10);
+      expect(params.pageToken).toBeUndefined();
+    });
+
+    it('refuses to page local or unauthenticated results', async () => {
+      await expect(fetchResultsPage({ jobId: 'local-1' }, session)).rejects.toThrow(
+        'Result has no BigQuery job to page through'
+      );
+      await expect(
+        fetchResultsPage({ jobId: 'job-9', projectId: 'p' }, new UserSession())
+      ).rejects.toThrow('User not authenticated');
+    });
+  });
+
+  describe('dry run estimates', () => {
+    const session = new UserSession({
+      accessToken: 'valid-token',
+      projectId: 'billing-project',
+      expiresAt: new Date(Date.now() + 3600000).toISOString()
+    });
+
+    const dryRunResponse = (bytes: string, statementType = 'SELECT') => ({
+      result: {
+        statistics: {
+          totalBytesProcessed: bytes,
+          query: {
+            statementType,
+            referencedTables: [{ projectId: 'p', datasetId: 'd', tableId: 't' }]
+          }
+        }
+      }
+    });
+
+    it('dry-runs the query and reports bytes, tables and cache eligibility', async () => {
+      jobs.insert.mockResolvedValue(dryRunResponse('4509715660'));
+
+      const estimate = await estimateQuery(new Query({ id: 'e1', sql: 'SELECT * FROM d.t' }), session);
+
+      expect(jobs.insert).toHaveBeenCalledWith(expect.objectContaining({
+        path: `${BIGQUERY_ROOT}projects/billing-project/jobs`,
+        body: {
+          configuration: {
+            dryRun: true,
+            query: { query: 'SELECT * FROM d.t', useLegacySql: false, useQueryCache: true }
+          }
+        }
+      }));
+      expect(estimate).toEqual({
+        totalBytesProcessed: 4509715660,
+        referencedTables: ['p.d.t'],
+        cacheEligible: true,
+        statementType: 'SELECT'
+      });
+    });
+
+    it('marks non-deterministic and DML statements as not cacheable', async () => {
+      jobs.insert.mockResolvedValue(dryRunResponse('10'));
+      const volatile = await estimateQuery({ id: 'e2', sql: 'SELECT CURRENT_TIMESTAMP()' }, session);
+      expect(volatile.cacheEligible).toBe(false);
+
+      jobs.insert.mockResolvedValue(dryRunResponse('10', 'UPDATE'));
+      const dml = await estimateQuery({ id: 'e3', sql: 'UPDATE d.t SET a = 1 WHERE TRUE' }, session);
+      expect(dml.cacheEligible).toBe(false);
+    });
+
+    it('returns a zero-byte estimate without a session', async () => {
+      const estimate = await estimateQuery({ id: 'e4', sql: 'SELECT 1' });
+      expect(estimate.totalBytesProcessed).toBe(0);
+      expect(jobs.insert).not.toHaveBeenCalled();
+    });
+
+    it('refuses to execute queries above maxBytesBilled', async () => {
+      jobs.insert.mockResolvedValue(dryRunResponse(String(5 * 1024 ** 3)));
+
+      const q = new Query({ id: 'e5', sql: 'SELECT * FROM d.t' });
+      const pending = executeQuery(q, session, { maxBytesBilled: 1024 ** 3 });
+
+      await expect(pending).rejects.toBeInstanceOf(BytesLimitExceededError);
+      await expect(pending).rejects.toThrow('Query would process 5.0 GB, above the 1.0 GB limit');
+      expect(jobs.query).not.toHaveBeenCalled();
+      expect(q.status).toBe('failed');
+    });
+
+    it('runs queries within the limit and caps billing in BigQuery', async () => {
+      jobs.insert.mockResolvedValue(dryRunResponse('1024'));
+      jobs.query.mockResolvedValue({
+        result: { jobReference: { jobId: 'job-1' }, schema: { fields: [] }, rows: [] }
+      });
+
+      await executeQuery(new Query({ id: 'e6', sql: 'SELECT 1' }), session, { maxBytesBilled: 2048 });
+
+      expect(jobs.query).toHaveBeenCalledWith(expect.objectContaining({
+        body: expect.objectContaining({ maximumBytesBilled: '2048' })
+      }));
+    });
+  });
+
+  describe('token refresh', () => {
+    const completed = {
+      result: {
+        jobReference: { jobId: 'job-after-refresh' },
+        schema: { fields: [{ name: 'one', type: 'INTEGER' }] },
+        rows: [{ f: [{ v: '1' }] }]
+      }
+    };
+
+    function sessionExpiringIn(ms: number) {
+      return new UserSession({
+        provider: 'test',
+        accessToken: 'old-token',
+        projectId: 'billing-project',
+        expiresAt: new Date(Date.now() + ms).toISOString()
+      });
+    }
+
+    it('refreshes the token and retries once when BigQuery answers 401', async () => {
+      const refresher = vi.fn().mockResolvedValue({ accessToken: 'new-token', expiresIn: 3600 });
+      const unregister = registerAuthProvider(testProvider(refresher));
+      jobs.query
+        .mockRejectedValueOnce({ status: 401, result: { error: { code: 401, message: 'Invalid Credentials' } } })
+        .mockResolvedValueOnce(completed);
+      const s = sessionExpiringIn(3600000);
+
+      const res = await executeQuery(new Query({ id: 'r1', sql: 'SELECT 1 AS one' }), s);
+
+      expect(res.jobId).toBe('job-after-refresh');
+      expect(refresher).toHaveBeenCalledTimes(1);
+      expect(jobs.query).toHaveBeenCalledTimes(2);
+      expect(jobs.query.mock.lastCall?.[0].headers).toEqual({ Authorization: 'Bearer new-token' });
+      expect(s.accessToken).toBe('new-token');
+      unregister();
+    });
+
+    it('refreshes a token that is about to expire before calling BigQuery', async () => {
+      const refresher = vi.fn().mockResolvedValue({ accessToken: 'new-token', expiresIn: 3600 });
+      const unregister = registerAuthProvider(testProvider(refresher));
+      jobs.query.mockResolvedValue(completed);
+
+      await executeQuery(new Query({ id: 'r2', sql: 'SELECT 1 AS one' }), sessionExpiringIn(1000));
+
+      expect(refresher).toHaveBeenCalledTimes(1);
+      expect(jobs.query).toHaveBeenCalledTimes(1);
+      expect(jobs.query.mock.lastCall?.[0].headers).toEqual({ Authorization: 'Bearer new-token' });
+      unregister();
+    });
+
+    it('requires re-authentication instead of answering with mock rows', async () => {
+      const s = sessionExpiringIn(-1000);
+      const q = new Query({ id: 'r3', sql: 'SELECT 1' });
+
+      await expect(executeQuery(q, s)).rejects.toBeInstanceOf(ReauthenticationRequiredError);
+      expect(jobs.query).not.toHaveBeenCalled();
+      expect(q.status).toBe('failed');
+    });
+
+    it('surfaces a second 401 after refreshing as a failed query', async () => {
+      const unregister = registerAuthProvider(testProvider(vi.fn().mockResolvedValue({ accessToken: 'new-token' })));
+      jobs.query.mockRejectedValue({ status: 401, result: { error: { code: 401, message: 'Invalid Credentials' } } });
+
+      await expect(executeQuery(new Query({ id: 'r4', sql: 'SELECT 1' }), sessionExpiringIn(3600000)))
+        .rejects.toThrow('BigQuery execution failed: Invalid Credentials');
+      expect(jobs.query).toHaveBeenCalledTimes(2);
+      unregister();
+    });
+  });
+
+  describe('history', () => {
+    let recorded: HistoryEntry[] = [];
+
+    beforeEach(() => {
+      recorded = [];
+      setHistoryStore({
+        load: async () => recorded,
+        persist: async (entries) => {
+          recorded = entries;
+        }
+      });
+    });
+
+    afterEach(() => {
+      setHistoryStore(localStorageHistoryStore);
+    });
+
+    it('records completed executions with timing, job and row count', async () => {
+      const q = new Query({ id: 'h1', name: 'Numbers', sql: 'SELECT * FROM numbers' });
+      await executeQuery(q);
+
+      expect(recorded).toHaveLength(1);
+      expect(recorded[0]).toMatchObject({
+        queryId: 'h1',
+        queryName: 'Numbers',
+        sql: 'SELECT * FROM numbers',
+        jobId: 'local-h1',
+        rowCount: 3,
+        bytesProcessed: null,
+        status: 'completed',
+        error: null
+      });
+      expect(recorded[0].durationMs).toBeGreaterThanOrEqual(0);
+      expect(Date.parse(recorded[0].endedAt)).toBeGreaterThanOrEqual(Date.parse(recorded[0].startedAt));
+    });
+
+    it('records bytes processed reported by BigQuery', async () => {
+      jobs.query.mockResolvedValue({
+        result: { jobComplete: true, jobReference: { jobId: 'job-b' }, totalBytesProcessed: '2048', rows: [] }
+      });
+      const session = new UserSession({
+        accessToken: 'valid-token',
+        projectId: 'billing-project',
+        expiresAt: new Date(Date.now() + 3600000).toISOString()
+      });
+
+      await executeQuery(new Query({ id: 'h2', sql: 'SELECT 1' }), session);
+
+      expect(recorded[0]).toMatchObject({ jobId: 'job-b', bytesProcessed: 2048, rowCount: 0 });
+    });
+
+    it('records failed and cancelled executions', async () => {
+      jobs.query.mockRejectedValue(new Error('Syntax error'));
+      const session = new UserSession({
+        accessToken: 'valid-token',
+        projectId: 'billing-project',
+        expiresAt: new Date(Date.now() + 3600000).toISOString()
+      });
+      await expect(executeQuery(new Query({ id: 'h3', sql: 'SELEC 1' }), session)).rejects.toThrow();
+
+      const controller = new AbortController();
+      controller.abort();
+      await expect(
+        executeQuery(new Query({ id: 'h4', sql: 'SELECT 1' }), undefined, { signal: controller.signal })
+      ).rejects.toBeInstanceOf(QueryCancelledError);
+
+      expect(recorded.map((e) => [e.queryId, e.status])).toEqual([
+        ['h4', 'cancelled'],
+        ['h3', 'failed']
+      ]);
+      expect(recorded[1].error).toContain('Syntax error');
+      expect(recorded[1].rowCount).toBeNull();
+    });
+
+    it('does not fail executions when history cannot be saved', async () => {
+      const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+      setHistoryStore({
+        load: async () => [],
+        persist: async () => {
+          throw new Error('quota exceeded');
+        }
+      });
+
+      await expect(executeQuery(new Query({ id: 'h5', sql: 'SELECT 1' }))).resolves.toBeDefined();
+      expect(error).toHaveBeenCalledWith('[query] Recording query history failed', {
+        queryId: 'h5',
+        error: 'quota exceeded',
+      });
+      error.mockRestore();
+    });
+  });
 });
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import type { QueryPayload } from '../../models/Query';
+import {
+  createSavedQuery,
+  deleteSavedQuery,
+  duplicateSavedQuery,
+  getSavedQuery,
+  listSavedQueries,
+  localStorageStore,
+  renameSavedQuery,
+  saveQuery,
+  searchSavedQueries,
+  setSavedQueryStore,
+} from '../savedQueryService';
+
+let stored: QueryPayload[] = [];
+
+const memoryStore = {
+  async load() {
+    return stored.map((payload) => ({ ...payload }));
+  },
+  async persist(payloads: QueryPayload[]) {
+    stored = payloads;
+  },
+};
+
+describe('savedQueryService', () => {
+  beforeEach(() => {
+    stored = [];
+    setSavedQueryStore(memoryStore);
+  });
+
+  afterAll(() => {
+    setSavedQueryStore(localStorageStore);
+  });
+
+  it('creates queries and persists them as Query payloads', async () => {
+    const query = await createSavedQuery('SELECT 1', '  Daily  ');
+
+    expect(query.name).toBe('Daily');
+    expect(query.id).toMatch(/^saved-/);
+    expect(stored).toEqual([query.toJSON()]);
+    expect((await getSavedQuery(query.id))?.sql).toBe('SELECT 1');
+  });
+
+  it('names unnamed queries and rejects empty SQL', async () => {
+    expect((await createSavedQuery('SELECT 1')).name).toBe('Untitled query');
+    await expect(createSavedQuery('')).rejects.toThrow();
+    expect(stored).toHaveLength(1);
+  });
+
+  it('lists the most recently updated first', async () => {
+    stored = [
+      { id: 'old', sql: 'SELECT 1', updatedAt: '2024-01-01T00:00:00.000Z' },
+      { id: 'new', sql: 'SELECT 2', updatedAt: '2024-06-01T00:00:00.000Z' },
+    ];
+
+    expect((await listSavedQueries()).map((q) => q.id)).toEqual(['new', 'old']);
+  });
+
+  it('skips stored entries that are not valid payloads', async () => {
+    stored = [{ sql: 'SELECT 1' } as QueryPayload, { id: 'ok', sql: 'SELECT 1' }];
+
+    expect((await listSavedQueries()).map((q) => q.id)).toEqual(['ok']);
+  });
+
+  it('searches names and SQL for every word', async () => {
+    await createSavedQuery('SELECT * FROM sales.orders', 'Revenue');
+    await createSavedQuery('SELECT * FROM users', 'Signups');
+
+    expect((await searchSavedQueries('revenue')).map((q) => q.name)).toEqual(['Revenue']);
+    expect((await searchSavedQueries('FROM orders')).map((q) => q.name)).toEqual(['Revenue']);
+    expect((await searchSavedQueries('orders signups'))).toEqual([]);
+    expect(await searchSavedQueries('  ')).toHaveLength(2);
+  });
+
+  it('updates a query in place and drops run state', async () => {
+    const query = await createSavedQuery('SELECT 1', 'One');
+    const edited = query.clone({ sql: 'SELECT 2', status: 'failed', lastError: 'boom' });
+
+    const saved = await saveQuery(edited);
+
+    expect(stored).toHaveLength(1);
+    expect(saved.sql).toBe('SELECT 2');
+    expect(saved.status).toBe('draft');
+    expect(saved.lastError).toBeNull();
+  });
+
+  it('renames, keeping the old name when the new one is blank', async () => {
+    const query = await createSavedQuery('SELECT 1', 'One');
+
+    expect((await renameSavedQuery(query.id, 'Uno')).name).toBe('Uno');
+    expect((await renameSavedQuery(query.id, ' ')).name).toBe('Uno');
+    await expect(renameSavedQuery('missing', 'x')).rejects.toThrow('Saved query not found: missing');
+  });
+
+  it('duplicates under a new id', async () => {
+    const query = await createSavedQuery('SELECT 1', 'One');
+
+    const copy = await duplicateSavedQuery(query.id);
+
+    expect(copy.id).not.toBe(query.id);
+    expect(copy.name).toBe('One (copy)');
+    expect(copy.sql).toBe('SELECT 1');
+    expect(stored).toHaveLength(2);
+  });
+
+  it('deletes queries', async () => {
+    const query = await createSavedQuery('SELECT 1');
+
+    await deleteSavedQuery(query.id);
+
+    expect(stored).toEqual([]);
+    expect(await getSavedQuery(query.id)).toBeNull();
+  });
+
+  it('reports storage failures', async () => {
+    setSavedQueryStore({
+      load: async () => [],
+      persist: async () => {
+        throw new Error('quota exceeded');
+      },
+    });
+
+    await expect(createSavedQuery('SELECT 1')).rejects.toThrow('Failed to save queries: quota exceeded');
+  });
+});
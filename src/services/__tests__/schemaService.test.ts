@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import UserSession from '../../models/UserSession';
+import {
+  clearSchemaCache,
+  getCachedSchema,
+  getTable,
+  listDatasets,
+  listProjects,
+  listTables,
+} from '../schemaService';
+import { signInWithToken, signOut } from '../authService';
+
+// BigQuery endpoints; each gets the gapi.client.request options routed to it
+const bigquery = {
+  projects: { list: vi.fn() },
+  datasets: { list: vi.fn() },
+  tables: { list: vi.fn(), get: vi.fn() },
+};
+
+const BIGQUERY_ROOT = 'https://bigquery.googleapis.com/bigquery/v2/';
+
+function routeRequest(request: { path: string; method: string }) {
+  const path = request.path.replace(BIGQUERY_ROOT, '');
+  if (path === 'projects') return bigquery.projects.list(request);
+  if (/^projects\/[^/]+\/datasets$/.test(path)) return bigquery.datasets.list(request);
+  if (/^projects\/[^/]+\/datasets\/[^/]+\/tables$/.test(path)) return bigquery.tables.list(request);
+  if (/^projects\/[^/]+\/datasets\/[^/]+\/tables\/[^/]+$/.test(path)) return bigquery.tables.get(request);
+  throw new Error(`Unexpected BigQuery request ${request.method} ${path}`);
+}
+
+const mockGapi = {
+  client: {
+    request: vi.fn(routeRequest),
+  },
+  load: vi.fn(),
+};
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  var gapi: any;
+}
+
+global.gapi = mockGapi;
+
+const session = () =>
+  new UserSession({
+    userId: 'u1',
+    accessToken: 'valid-token',
+    expiresAt: new Date(Date.now() + 3600000).toISOString(),
+  });
+
+describe('schemaService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearSchemaCache();
+  });
+
+  it('requires an authenticated session', async () => {
+    await expect(listProjects(new UserSession())).rejects.toThrow('User not authenticated');
+  });
+
+  it('lists projects across pages and caches them per session', async () => {
+    bigquery.projects.list
+      .mockResolvedValueOnce({
+        result: {
+          projects: [{ projectReference: { projectId: 'alpha' }, friendlyName: 'Alpha' }],
+          nextPageToken: 'next',
+        },
+      })
+      .mockResolvedValueOnce({ result: { projects: [{ projectReference: { projectId: 'beta' } }] } });
+
+    const s = session();
+    expect(await listProjects(s)).toEqual([
+      { id: 'alpha', name: 'Alpha' },
+      { id: 'beta', name: undefined },
+    ]);
+    expect(bigquery.projects.list).toHaveBeenLastCalledWith(expect.objectContaining({
+      method: 'GET',
+      params: { pageToken: 'next' },
+      headers: { Authorization: 'Bearer valid-token' },
+    }));
+
+    await listProjects(s);
+    expect(bigquery.projects.list).toHaveBeenCalledTimes(2);
+
+    // another session has its own cache
+    bigquery.projects.list.mockResolvedValueOnce({ result: { projects: [] } });
+    const other = new UserSession({ userId: 'u2', accessToken: 'other-token' });
+    expect(await listProjects(other)).toEqual([]);
+    expect(bigquery.projects.list).toHaveBeenCalledTimes(3);
+    expect(bigquery.projects.list.mock.lastCall?.[0].headers).toEqual({ Authorization: 'Bearer other-token' });
+  });
+
+  it('keeps the cache across token refreshes and drops it on sign-out', async () => {
+    bigquery.projects.list.mockResolvedValue({
+      result: { projects: [{ projectReference: { projectId: 'alpha' } }] },
+    });
+    const s = await signInWithToken({ userId: 'u1', accessToken: 'first-token', expiresIn: 3600 });
+    await listProjects(s);
+
+    s.accessToken = 'refreshed-token';
+    expect(await listProjects(s)).toEqual([{ id: 'alpha', name: undefined }]);
+    expect(bigquery.projects.list).toHaveBeenCalledTimes(1);
+
+    signOut();
+    await listProjects(await signInWithToken({ userId: 'u1', accessToken: 'next-token', expiresIn: 3600 }));
+    expect(bigquery.projects.list).toHaveBeenCalledTimes(2);
+    signOut();
+  });
+
+  it('lists datasets and tables', async () => {
+    bigquery.datasets.list.mockResolvedValue({
+      result: { datasets: [{ datasetReference: { datasetId: 'sales' }, location: 'EU' }] },
+    });
+    bigquery.tables.list.mockResolvedValue({
+      result: { tables: [{ tableReference: { tableId: 'orders' }, type: 'TABLE' }] },
+    });
+
+    const s = session();
+    expect(await listDatasets(s, 'alpha')).toEqual([
+      { projectId: 'alpha', datasetId: 'sales', location: 'EU' },
+    ]);
+    expect(await listTables(s, 'alpha', 'sales')).toEqual([
+      { projectId: 'alpha', datasetId: 'sales', tableId: 'orders', type: 'TABLE' },
+    ]);
+    expect(bigquery.tables.list).toHaveBeenCalledWith(expect.objectContaining({
+      path: `${BIGQUERY_ROOT}projects/alpha/datasets/sales/tables`,
+      params: {},
+    }));
+    expect(getCachedSchema(s).tables).toHaveLength(1);
+  });
+
+  it('loads table details with nested fields, partitioning and clustering', async () => {
+    bigquery.tables.get.mockResolvedValue({
+      result: {
+        type: 'TABLE',
+        description: 'All orders',
+        schema: {
+          fields: [
+            { name: 'id', type: 'INT64', mode: 'REQUIRED', description: 'Order id' },
+            {
+              name: 'items',
+              type: 'RECORD',
+              mode: 'REPEATED',
+              fields: [{ name: 'sku', type: 'STRING' }],
+            },
+          ],
+        },
+        timePartitioning: { type: 'DAY', field: 'created_at', expirationMs: '86400000' },
+        clustering: { fields: ['customer_id'] },
+        numRows: '10',
+        numBytes: '2048',
+      },
+    });
+
+    const s = session();
+    const details = await getTable(s, 'alpha', 'sales', 'orders');
+    expect(details).toEqual({
+      projectId: 'alpha',
+      datasetId: 'sales',
+      tableId: 'orders',
+      type: 'TABLE',
+      description: 'All orders',
+      fields: [
+        { name: 'id', type: 'INT64', mode: 'REQUIRED', description: 'Order id' },
+        { name: 'items', type: 'RECORD', mode: 'REPEATED', fields: [{ name: 'sku', type: 'STRING' }] },
+      ],
+      partitioning: { type: 'DAY', field: 'created_at', expirationMs: 86400000 },
+      clustering: ['customer_id'],
+      numRows: 10,
+      numBytes: 2048,
+    });
+
+    await getTable(s, 'alpha', 'sales', 'orders');
+    expect(bigquery.tables.get).toHaveBeenCalledTimes(1);
+    expect(getCachedSchema(s).details).toEqual([details]);
+  });
+
+  it('describes integer-range and ingestion-time partitioning', async () => {
+    bigquery.tables.get
+      .mockResolvedValueOnce({ result: { rangePartitioning: { field: 'bucket' } } })
+      .mockResolvedValueOnce({ result: { timePartitioning: { type: 'HOUR' } } });
+
+    const s = session();
+    expect((await getTable(s, 'p', 'd', 'ranged')).partitioning).toEqual({ type: 'RANGE', field: 'bucket' });
+    expect((await getTable(s, 'p', 'd', 'ingested')).partitioning).toEqual({ type: 'HOUR', field: null });
+  });
+
+  it('wraps API errors', async () => {
+    bigquery.datasets.list.mockRejectedValue({
+      result: { error: { message: 'Access Denied' } },
+    });
+    await expect(listDatasets(session(), 'secret')).rejects.toThrow(
+      'Failed to list datasets in secret: Access Denied'
+    );
+  });
+});
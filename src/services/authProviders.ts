@@ -0,0 +1,170 @@
+import type UserSession from '../models/UserSession';
+import type { AuthProvider, ProviderSignIn } from './authService';
+import type { GoogleIdentityProvider } from './googleIdentity';
+import { signJwt } from '../utils/jwt';
+
+/**
+ * The sign-in methods authService registers by default:
+ * - google: Google OAuth in the browser, through an identity provider (GIS)
+ * - token: a pasted access token, e.g. from `gcloud auth print-access-token`
+ * - service-account: a service-account JSON key, signed into a JWT locally
+ */
+
+// Running queries (jobs.insert, dry runs included) and cancelling jobs need the full BigQuery
+// scope; bigquery.readonly only covers reading tables and job results
+export const BIGQUERY_SCOPE = 'https://www.googleapis.com/auth/bigquery';
+
+const TOKEN_INFO_URL = 'https://oauth2.googleapis.com/tokeninfo';
+const GOOGLE_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const JWT_BEARER_GRANT = 'urn:ietf:params:oauth:grant-type:jwt-bearer';
+// Google caps self-signed assertions (and so the tokens minted from them) at one hour
+const ASSERTION_LIFETIME_SECONDS = 3600;
+
+export function createGoogleAuthProvider(identity: GoogleIdentityProvider): AuthProvider {
+  return {
+    id: 'google',
+    title: 'Google account',
+
+    async signIn() {
+      const token = await identity.requestAccessToken({ prompt: 'select_account' });
+      const profile = await identity.getProfile(token.accessToken);
+      return { userId: profile.id, email: profile.email ?? null, accessToken: token.accessToken, expiresIn: token.expiresIn };
+    },
+
+    // There is no refresh token in the browser; ask for a new token without the account
+    // chooser instead. The token client still opens a popup, so this needs a click.
+    interactiveRefresh: true,
+    async refresh(session) {
+      const token = await identity.requestAccessToken({ prompt: '', hint: session.userId ?? undefined });
+      return { accessToken: token.accessToken, expiresIn: token.expiresIn };
+    },
+
+    // Revoke the grant, so the next sign-in asks again
+    async signOut(session) {
+      if (session.accessToken) await identity.revoke(session.accessToken);
+    },
+
+    describe: (session) => {
+      const account = session.email ?? session.userId;
+      return account ? `Google account ${account}` : 'Google account';
+    },
+  };
+}
+
+/**
+ * Google's tokeninfo endpoint checks a pasted token and tells its account and remaining
+ * lifetime. Such tokens cannot be renewed; a new one has to be pasted once it expires.
+ */
+export const accessTokenProvider: AuthProvider = {
+  id: 'token',
+  title: 'Access token',
+  credentials: {
+    label: 'Access token',
+    placeholder: 'Paste the output of gcloud auth print-access-token',
+  },
+
+  async signIn(credentials) {
+    const accessToken = credentials?.trim();
+    if (!accessToken) throw new Error('Paste an access token');
+    const response = await fetch(`${TOKEN_INFO_URL}?access_token=${encodeURIComponent(accessToken)}`);
+    if (!response.ok) throw new Error('Google did not accept the access token');
+    const info = (await response.json()) as { email?: string; sub?: string; expires_in?: string | number };
+    return {
+      userId: info.email ?? info.sub ?? null,
+      email: info.email ?? null,
+      accessToken,
+      expiresIn: info.expires_in !== undefined ? Number(info.expires_in) : null,
+    };
+  },
+
+  describe: (session) => (session.userId ? `Access token (${session.userId})` : 'Access token'),
+};
+
+interface ServiceAccountKey {
+  type: string;
+  client_email: string;
+  private_key: string;
+  private_key_id?: string;
+  token_uri?: string;
+}
+
+function parseServiceAccountKey(json: string | undefined): ServiceAccountKey {
+  let key: Partial<ServiceAccountKey>;
+  try {
+    key = JSON.parse(json ?? '');
+  } catch {
+    throw new Error('The service-account key is not valid JSON');
+  }
+  if (key?.type !== 'service_account' || !key.client_email || !key.private_key) {
+    throw new Error('Expected a service-account JSON key with client_email and private_key');
+  }
+  return key as ServiceAccountKey;
+}
+
+/**
+ * Service accounts sign an assertion with their private key and exchange it for an access
+ * token (the OAuth 2.0 JWT bearer grant). Keys stay in memory only, never in localStorage:
+ * after a reload the stored token works until it expires, then the key has to be given again.
+ */
+export function createServiceAccountProvider(scope: string = BIGQUERY_SCOPE): AuthProvider {
+  const keys = new Map<string, ServiceAccountKey>();
+
+  async function mintToken(key: ServiceAccountKey): Promise<ProviderSignIn> {
+    const tokenUrl = key.token_uri || GOOGLE_TOKEN_URL;
+    const now = Math.floor(Date.now() / 1000);
+    const assertion = await signJwt(
+      { iss: key.client_email, scope, aud: tokenUrl, iat: now, exp: now + ASSERTION_LIFETIME_SECONDS },
+      key.private_key,
+      key.private_key_id
+    );
+    const response = await fetch(tokenUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ grant_type: JWT_BEARER_GRANT, assertion }).toString(),
+    });
+    const body = (await response.json().catch(() => ({}))) as {
+      access_token?: string;
+      expires_in?: number;
+      error?: string;
+      error_description?: string;
+    };
+    if (!response.ok || !body.access_token) {
+      throw new Error(body.error_description || body.error || `Token exchange failed (HTTP ${response.status})`);
+    }
+    return {
+      userId: key.client_email,
+      email: key.client_email,
+      accessToken: body.access_token,
+      expiresIn: body.expires_in ?? ASSERTION_LIFETIME_SECONDS,
+    };
+  }
+
+  return {
+    id: 'service-account',
+    title: 'Service account',
+    credentials: {
+      label: 'Service-account JSON key',
+      placeholder: 'Paste the JSON key file contents',
+      multiline: true,
+    },
+
+    async signIn(credentials) {
+      const key = parseServiceAccountKey(credentials);
+      const signedIn = await mintToken(key);
+      keys.set(key.client_email, key);
+      return signedIn;
+    },
+
+    async refresh(session: UserSession) {
+      const key = session.userId ? keys.get(session.userId) : undefined;
+      if (!key) throw new Error('the service-account key is not kept across reloads');
+      return mintToken(key);
+    },
+
+    async signOut(session) {
+      if (session.userId) keys.delete(session.userId);
+    },
+
+    describe: (session) => (session.userId ? `Service account ${session.userId}` : 'Service account'),
+  };
+}
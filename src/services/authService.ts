@@ -1,21 +1,105 @@
 import UserSession from '../models/UserSession';
-
-// Use proper Google API types from @types/gapi
-/// <reference types="gapi" />
-/// <reference types="gapi.auth2" />
+import type { QueryContext, UserPreferences } from '../models/UserSession';
+import { describeError, logger } from './logService';
+import { createGoogleIdentityServicesProvider } from './googleIdentity';
+import type { GoogleIdentityProvider, GoogleOAuthConfig } from './googleIdentity';
+import {
+  accessTokenProvider,
+  BIGQUERY_SCOPE,
+  createGoogleAuthProvider,
+  createServiceAccountProvider,
+} from './authProviders';
 
 /**
  * Minimal authentication service for local development (T012).
  * - signInWithToken: create a session from a token payload and persist to localStorage
  * - signOut: clear in-memory session and localStorage
  * - getSession: return current session instance
+ * - updatePreferences: change and persist user preferences, which survive sign-in and sign-out
+ * - updateQueryContext: change and persist the billing project, default dataset and location
+ * - listAccounts / switchAccount / signOutAll: several signed-in accounts (one per provider and
+ *   user), of which one is active; signOut only signs out of one
+ * - registerAuthProvider / signInWithProvider / signOutFromProvider: sign-in methods (Google,
+ *   pasted access tokens, service-account keys; see authProviders.ts) behind one interface
+ * - refreshToken / ensureFreshToken: renew the access token through the session's provider,
+ *   ahead of expiry on a timer and on demand (e.g. after a 401). Google's token client needs
+ *   a click to renew, so for Google the timer only announces the expiry ('expiring')
  *
- * This is intentionally simple and does not contact any external provider.
+ * signInWithToken itself does not contact any external provider.
  */
 
+// The active session, which also carries the preferences
 const STORAGE_KEY = 'smolquery.session';
+// Every signed-in account, active or not
+const ACCOUNTS_KEY = 'smolquery.accounts';
+// Tokens are renewed this long before they expire
+export const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+/**
+ * Thrown when the access token expired or was rejected and could not be refreshed;
+ * the user has to sign in again.
+ */
+export class ReauthenticationRequiredError extends Error {
+  constructor(reason?: string) {
+    super(`Your session has expired${reason ? ` (${reason})` : ''}. Sign in again to continue.`);
+    this.name = 'ReauthenticationRequiredError';
+  }
+}
+
+export interface RefreshedToken {
+  accessToken: string;
+  // seconds until expiry from now
+  expiresIn?: number | null;
+  // replaces the stored refresh token when the provider rotates it
+  refreshToken?: string | null;
+}
+
+export interface ProviderSignIn extends RefreshedToken {
+  userId?: string | null;
+  email?: string | null;
+}
+
+/**
+ * A way to sign in; sessions record the id of the provider they came from
+ */
+export interface AuthProvider {
+  id: string;
+  // shown in the sign-in dialog
+  title: string;
+  // What the user enters to sign in; providers without it sign in interactively
+  credentials?: { label: string; placeholder: string; multiline?: boolean };
+  signIn(credentials?: string): Promise<ProviderSignIn>;
+  // Left out when the provider's tokens cannot be renewed
+  refresh?(session: UserSession): Promise<RefreshedToken>;
+  // refresh opens a popup, which browsers only allow in response to a click: it is never
+  // started from a timer or a failed call, the user is asked to renew instead
+  interactiveRefresh?: boolean;
+  // Provider-side clean-up (e.g. revoking the token) after the local sign-out
+  signOut?(session: UserSession): Promise<void>;
+  // Names the signed-in account
+  describe(session: UserSession): string;
+}
+
+export type SessionEvent =
+  | { type: 'refreshed'; session: UserSession }
+  // the token of an interactiveRefresh provider expires within REFRESH_MARGIN_MS
+  | { type: 'expiring'; session: UserSession }
+  | { type: 'reauthenticationRequired'; session: UserSession; error: string }
+  | { type: 'signedOut'; accountId: string };
+
+const providers = new Map<string, AuthProvider>();
+const listeners = new Set<(event: SessionEvent) => void>();
+// One refresh at a time per session; concurrent callers share it
+const refreshes = new WeakMap<UserSession, Promise<UserSession>>();
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
 
+const accounts: UserSession[] = loadAccounts();
 let currentSession: UserSession = loadFromStorage() || new UserSession();
+adoptActiveSession();
+
+function notify(event: SessionEvent) {
+  for (const listener of listeners) listener(event);
+}
 
 function saveToStorage(session: UserSession) {
   try {
@@ -35,32 +119,111 @@ function loadFromStorage(): UserSession | null {
   }
 }
 
+function saveAccounts() {
+  try {
+    if (accounts.length) {
+      globalThis.localStorage.setItem(ACCOUNTS_KEY, JSON.stringify(accounts.map((a) => a.toJSON())));
+    } else {
+      globalThis.localStorage.removeItem(ACCOUNTS_KEY);
+    }
+  } catch {
+    // ignore storage failures in non-browser environments
+  }
+}
+
+function loadAccounts(): UserSession[] {
+  try {
+    const raw = globalThis.localStorage.getItem(ACCOUNTS_KEY);
+    const payloads = raw ? JSON.parse(raw) : [];
+    return Array.isArray(payloads) ? payloads.map((p) => UserSession.fromJSON(p)) : [];
+  } catch {
+    return [];
+  }
+}
+
+// The active session is the same object as its account entry; sessions stored before
+// accounts existed become the first account
+function adoptActiveSession() {
+  if (!currentSession.hasCredentials()) return;
+  const index = accounts.findIndex((a) => a.accountId === currentSession.accountId);
+  if (index >= 0) accounts[index] = currentSession;
+  else accounts.push(currentSession);
+}
+
+function persist() {
+  saveToStorage(currentSession);
+  saveAccounts();
+}
+
 export interface SignInPayload {
   provider?: string;
   userId?: string;
+  email?: string | null;
   accessToken: string;
   refreshToken?: string | null;
   // seconds until expiry from now
   expiresIn?: number | null;
 }
 
+/**
+ * Sign in and make the account active. Signing in to an account that is already stored
+ * replaces its token.
+ */
 export async function signInWithToken(payload: SignInPayload): Promise<UserSession> {
   const expiresAt = payload.expiresIn ? new Date(Date.now() + payload.expiresIn * 1000) : null;
   const s = new UserSession({
     provider: payload.provider ?? 'token',
     userId: payload.userId ?? null,
+    email: payload.email ?? null,
     accessToken: payload.accessToken,
     refreshToken: payload.refreshToken ?? null,
     expiresAt: expiresAt ? expiresAt.toISOString() : null,
+    preferences: currentSession.preferences,
   } as unknown as Record<string, unknown>);
 
+  // Signing in again as the same user keeps the project they were working in
+  const index = accounts.findIndex((a) => a.accountId === s.accountId);
+  if (index >= 0) {
+    if (payload.userId) Object.assign(s, accounts[index].context);
+    accounts.splice(index, 1, s);
+  } else {
+    accounts.push(s);
+  }
+
   currentSession = s;
-  saveToStorage(s);
+  persist();
+  scheduleRefresh();
+  logger.info('auth', 'Signed in', { provider: s.provider, userId: s.userId, expiresAt: s.expiresAt?.toISOString() });
   return s;
 }
 
-export function signOut() {
+/**
+ * Sign out of one account, the active one by default. Signing out of the active account
+ * does not activate another one: queries must not quietly run as a different account.
+ */
+export function signOut(accountId?: string) {
+  const account = accountId === undefined ? currentSession : getAccount(accountId);
+  if (!account) return;
+  const index = accounts.indexOf(account);
+  if (index >= 0) accounts.splice(index, 1);
+  const signedOut: SessionEvent = { type: 'signedOut', accountId: account.accountId };
+
+  if (account !== currentSession) {
+    saveAccounts();
+    logger.info('auth', 'Signed out', { provider: account.provider, userId: account.userId });
+    notify(signedOut);
+    return;
+  }
+
+  cancelScheduledRefresh();
   currentSession.clear();
+  logger.info('auth', 'Signed out');
+  saveAccounts();
+  notify(signedOut);
+  if (Object.keys(currentSession.preferences).length > 0) {
+    saveToStorage(currentSession);
+    return;
+  }
   try {
     globalThis.localStorage.removeItem(STORAGE_KEY);
   } catch {
@@ -68,103 +231,302 @@ export function signOut() {
   }
 }
 
+/**
+ * Sign out of every account
+ */
+export function signOutAll() {
+  for (const account of accounts.filter((a) => a !== currentSession)) signOut(account.accountId);
+  signOut();
+}
+
 export function getSession(): UserSession {
   return currentSession;
 }
 
 /**
- * Google OAuth 2.0 integration for BigQuery authentication.
- * Implements PKCE flow for SPA security as per research.md requirements.
+ * The signed-in accounts, in the order they were added
  */
+export function listAccounts(): UserSession[] {
+  return [...accounts];
+}
 
-// Google OAuth configuration
-interface GoogleOAuthConfig {
-  clientId: string;
-  scope: string;
-  discoveryDoc?: string;
+export function getAccount(accountId: string | null | undefined): UserSession | undefined {
+  return accountId ? accounts.find((a) => a.accountId === accountId) : undefined;
 }
 
-const DEFAULT_GOOGLE_CONFIG: GoogleOAuthConfig = {
-  clientId: process.env.VITE_GOOGLE_CLIENT_ID || 'your-client-id.apps.googleusercontent.com',
-  scope: 'https://www.googleapis.com/auth/bigquery.readonly https://www.googleapis.com/auth/userinfo.profile',
-  discoveryDoc: 'https://www.googleapis.com/discovery/v1/apis/bigquery/v2/rest'
-};
+/**
+ * Make a signed-in account the active one; preferences stay as they are
+ */
+export function switchAccount(accountId: string): UserSession {
+  const account = getAccount(accountId);
+  if (!account) throw new Error(`Not signed in to ${accountId}`);
+  if (account === currentSession) return account;
+
+  account.preferences = currentSession.preferences;
+  currentSession = account;
+  persist();
+  scheduleRefresh();
+  logger.info('auth', 'Switched account', { provider: account.provider, userId: account.userId });
+  return account;
+}
 
-let isGoogleApiInitialized = false;
+export function updatePreferences(patch: Partial<UserPreferences>): UserSession {
+  currentSession.preferences = { ...currentSession.preferences, ...patch };
+  persist();
+  return currentSession;
+}
 
 /**
- * Initialize Google API client with OAuth configuration
+ * Change the query context of an account, the active one by default. Switching project
+ * drops a default dataset given without its project, which named a dataset of the
+ * previous project.
  */
-async function initializeGoogleAPI(config: GoogleOAuthConfig = DEFAULT_GOOGLE_CONFIG): Promise<void> {
-  if (isGoogleApiInitialized) return;
+export function updateQueryContext(patch: Partial<QueryContext>, accountId?: string): UserSession {
+  const session = accountId === undefined ? currentSession : getAccount(accountId);
+  if (!session) throw new Error(`Not signed in to ${accountId}`);
+  const switchingProject = patch.projectId !== undefined && patch.projectId !== session.projectId;
+  if (switchingProject && patch.datasetId === undefined && !session.datasetId?.includes('.')) {
+    patch = { ...patch, datasetId: null };
+  }
+  Object.assign(session, patch);
+  persist();
+  logger.info('auth', 'Query context changed', { accountId: session.accountId, ...session.context });
+  return session;
+}
 
-  try {
-    // Check if gapi is available (loaded via script tag or mocked in tests)
-    if (typeof gapi === 'undefined') {
-      throw new Error('Google API client not loaded. Include https://apis.google.com/js/api.js');
-    }
+/**
+ * Add a sign-in method, replacing one with the same id; returns the unregister function
+ */
+export function registerAuthProvider(provider: AuthProvider): () => void {
+  providers.set(provider.id, provider);
+  if (currentSession.provider === provider.id) scheduleRefresh();
+  return () => {
+    if (providers.get(provider.id) === provider) providers.delete(provider.id);
+  };
+}
 
-    // Load auth2 library
-    await new Promise<void>((resolve, reject) => {
-      gapi.load('auth2', {
-        callback: resolve,
-        onerror: reject
-      });
-    });
-
-    // Initialize auth2 with configuration
-    await gapi.auth2.init({
-      client_id: config.clientId,
-      scope: config.scope,
-      fetch_basic_profile: true,
-      plugin_name: 'smolquery'
-    });
-
-    isGoogleApiInitialized = true;
-  } catch (error) {
-    console.error('Failed to initialize Google API:', error);
-    throw error;
+export function getAuthProvider(id: string | null | undefined): AuthProvider | undefined {
+  return id ? providers.get(id) : undefined;
+}
+
+export function listAuthProviders(): AuthProvider[] {
+  return [...providers.values()];
+}
+
+/**
+ * Sign in through a registered provider, with the credentials it asks for.
+ * Throws when the provider rejects them or the user cancels.
+ */
+export async function signInWithProvider(providerId: string, credentials?: string): Promise<UserSession> {
+  const provider = providers.get(providerId);
+  if (!provider) throw new Error(`Unknown sign-in method: ${providerId}`);
+  const signedIn = await provider.signIn(credentials);
+  return signInWithToken({
+    provider: provider.id,
+    userId: signedIn.userId ?? undefined,
+    email: signedIn.email,
+    accessToken: signedIn.accessToken,
+    expiresIn: signedIn.expiresIn,
+    refreshToken: signedIn.refreshToken,
+  });
+}
+
+/**
+ * Sign in again to an account whose token expired, renewing it in place: the account keeps
+ * its query context and stays active or not. Throws when the user signs in as someone else.
+ */
+export async function signInAgain(accountId: string, credentials?: string): Promise<UserSession> {
+  const session = getAccount(accountId);
+  if (!session) throw new Error(`Not signed in to ${accountId}`);
+  const provider = getAuthProvider(session.provider);
+  if (!provider) throw new Error(`Unknown sign-in method: ${session.provider}`);
+  const signedIn = await provider.signIn(credentials);
+  if ((signedIn.userId ?? null) !== session.userId) {
+    const who = signedIn.email ?? signedIn.userId ?? 'another user';
+    throw new Error(`Signed in as ${who} instead of ${describeSession(session)}`);
   }
+
+  session.accessToken = signedIn.accessToken;
+  session.expiresAt = signedIn.expiresIn ? new Date(Date.now() + signedIn.expiresIn * 1000) : null;
+  if (signedIn.refreshToken) session.refreshToken = signedIn.refreshToken;
+  persist();
+  if (session === currentSession) scheduleRefresh();
+  logger.info('auth', 'Signed in again', { provider: session.provider, userId: session.userId });
+  notify({ type: 'refreshed', session });
+  return session;
 }
 
 /**
- * Sign in with Google OAuth 2.0
- * Returns authenticated UserSession or null if sign-in fails/cancelled
+ * Sign out of one account (the active one by default) locally, then let its provider clean
+ * up (e.g. revoke the token)
  */
-export async function signInWithGoogle(): Promise<UserSession | null> {
+export async function signOutFromProvider(accountId?: string): Promise<void> {
+  const account = accountId === undefined ? currentSession : getAccount(accountId);
+  if (!account) return;
+  // signOut clears the active session in place; the provider gets what it was
+  const session = UserSession.fromJSON(account.toJSON());
+  signOut(accountId);
+
+  const provider = getAuthProvider(session.provider);
+  if (!provider?.signOut || !session.accessToken) return;
   try {
-    await initializeGoogleAPI();
+    await provider.signOut(session);
+  } catch (error) {
+    logger.error('auth', 'Provider sign-out failed', { provider: provider.id, error: describeError(error) });
+    // The local sign-out already happened
+  }
+}
 
-    const authInstance = gapi.auth2.getAuthInstance();
+/**
+ * signOutFromProvider for every account
+ */
+export async function signOutFromAllProviders(): Promise<void> {
+  // Copy the list: every sign-out removes its account from it
+  await Promise.all([...accounts].map((a) => signOutFromProvider(a.accountId)));
+}
 
-    if (!authInstance) {
-      throw new Error('Google Auth not initialized');
+/**
+ * A label for the signed-in account, e.g. "Service account ci@project.iam.gserviceaccount.com"
+ */
+export function describeSession(session: UserSession = currentSession): string {
+  if (!session.hasCredentials()) return 'Signed out';
+  return getAuthProvider(session.provider)?.describe(session) ?? session.userId ?? 'Signed in';
+}
+
+/**
+ * Call `listener` when a token is refreshed, the user has to sign in again or an account
+ * signs out; returns the unsubscribe function
+ */
+export function subscribeToSession(listener: (event: SessionEvent) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export interface RefreshOptions {
+  // Called from a click, so providers with an interactiveRefresh may open their popup
+  userGesture?: boolean;
+}
+
+/**
+ * Replace the session's access token with a new one from its provider. The session is
+ * updated in place, so holders of the object see the new token.
+ * Throws ReauthenticationRequiredError, after notifying subscribers, when the provider
+ * cannot refresh.
+ */
+export function refreshToken(
+  session: UserSession = currentSession,
+  options: RefreshOptions = {}
+): Promise<UserSession> {
+  const pending = refreshes.get(session);
+  if (pending) return pending;
+
+  const refresh = (async () => {
+    const provider = getAuthProvider(session.provider);
+    try {
+      if (!session.hasCredentials()) throw new Error('not signed in');
+      if (!provider?.refresh) {
+        throw new Error(`${provider?.title ?? session.provider ?? 'this'} sign-in cannot be refreshed`);
+      }
+      if (provider.interactiveRefresh && !options.userGesture) {
+        throw new Error(`${provider.title} sign-in can only be renewed with a click`);
+      }
+      const token = await provider.refresh(session);
+      session.accessToken = token.accessToken;
+      session.expiresAt = token.expiresIn ? new Date(Date.now() + token.expiresIn * 1000) : null;
+      if (token.refreshToken) session.refreshToken = token.refreshToken;
+    } catch (error) {
+      const reason = describeError(error);
+      logger.warn('auth', 'Token refresh failed', { provider: session.provider, error: reason });
+      notify({ type: 'reauthenticationRequired', session, error: reason });
+      throw new ReauthenticationRequiredError(reason);
     }
 
-    // Attempt sign-in
-    const googleUser = await authInstance.signIn({
-      prompt: 'select_account'
-    });
+    if (accounts.includes(session)) persist();
+    if (session === currentSession) scheduleRefresh();
+    logger.info('auth', 'Token refreshed', { provider: session.provider, expiresAt: session.expiresAt?.toISOString() });
+    notify({ type: 'refreshed', session });
+    return session;
+  })();
+  // Removed only once settled: a refresh can fail before its first await
+  refreshes.set(session, refresh);
+  refresh.finally(() => refreshes.delete(session)).catch(() => {});
+  return refresh;
+}
 
-    if (!googleUser.isSignedIn()) {
-      return null;
+/**
+ * The session with a token valid for at least REFRESH_MARGIN_MS, refreshing it if needed.
+ * A failed refresh only throws once the current token has actually expired.
+ */
+export async function ensureFreshToken(session: UserSession = currentSession): Promise<UserSession> {
+  if (!session.expiresWithin(REFRESH_MARGIN_MS)) return session;
+  // Renewing would need a click; until then the token is used as long as it lasts
+  if (getAuthProvider(session.provider)?.interactiveRefresh && session.isAuthenticated()) return session;
+  try {
+    return await refreshToken(session);
+  } catch (error) {
+    if (session.isAuthenticated()) return session;
+    throw error;
+  }
+}
+
+function cancelScheduledRefresh() {
+  if (refreshTimer) clearTimeout(refreshTimer);
+  refreshTimer = null;
+}
+
+// Refresh the current session's token REFRESH_MARGIN_MS before it expires, or tell
+// subscribers it is expiring when renewing it needs a click
+function scheduleRefresh() {
+  cancelScheduledRefresh();
+  const session = currentSession;
+  if (!session.hasCredentials() || !session.expiresAt) return;
+  const provider = getAuthProvider(session.provider);
+  if (!provider?.refresh) return;
+  const delay = Math.max(0, session.expiresAt.getTime() - Date.now() - REFRESH_MARGIN_MS);
+  refreshTimer = setTimeout(() => {
+    refreshTimer = null;
+    if (provider.interactiveRefresh) {
+      // an expired token is reported by the next call that needs it
+      if (session.isAuthenticated()) notify({ type: 'expiring', session });
+      return;
     }
+    // failures are logged and reported to subscribers by refreshToken
+    refreshToken(session).catch(() => {});
+  }, delay);
+}
+
+/**
+ * Google OAuth 2.0 sign-in for BigQuery, through the Google Identity Services token client
+ * (see googleIdentity.ts). The identity provider can be swapped, e.g. for a fake in tests.
+ */
+
+const DEFAULT_GOOGLE_CONFIG: GoogleOAuthConfig = {
+  clientId: import.meta.env.VITE_GOOGLE_CLIENT_ID || 'your-client-id.apps.googleusercontent.com',
+  scope: `${BIGQUERY_SCOPE} https://www.googleapis.com/auth/userinfo.profile https://www.googleapis.com/auth/userinfo.email`,
+};
 
-    // Extract auth response
-    const authResponse = googleUser.getAuthResponse();
-    const profile = googleUser.getBasicProfile();
+/**
+ * Swap the Google identity provider (e.g. a local fake in tests)
+ */
+export function setGoogleIdentityProvider(next: GoogleIdentityProvider) {
+  registerAuthProvider(createGoogleAuthProvider(next));
+}
 
-    // Create session with Google credentials
-    const session = await signInWithToken({
-      provider: 'google',
-      userId: profile.getId(),
-      accessToken: authResponse.access_token,
-      expiresIn: authResponse.expires_in
-    });
+setGoogleIdentityProvider(createGoogleIdentityServicesProvider(DEFAULT_GOOGLE_CONFIG));
+registerAuthProvider(accessTokenProvider);
+registerAuthProvider(createServiceAccountProvider());
 
-    return session;
+/**
+ * Sign in with Google OAuth 2.0
+ * Returns authenticated UserSession or null if sign-in fails/cancelled
+ */
+export async function signInWithGoogle(): Promise<UserSession | null> {
+  try {
+    return await signInWithProvider('google');
   } catch (error) {
-    console.error('Google sign-in failed:', error);
+    logger.error('auth', 'Google sign-in failed', { error: describeError(error) });
     return null;
   }
 }
@@ -173,21 +535,7 @@ export async function signInWithGoogle(): Promise<UserSession | null> {
  * Sign out from Google OAuth and clear local session
  */
 export async function signOutFromGoogle(): Promise<void> {
-  try {
-    // Sign out locally first
-    signOut();
-
-    // If Google API is initialized, also sign out from Google
-    if (isGoogleApiInitialized && typeof gapi !== 'undefined') {
-      const authInstance = gapi.auth2?.getAuthInstance();
-      if (authInstance) {
-        await authInstance.signOut();
-      }
-    }
-  } catch (error) {
-    console.error('Google sign-out failed:', error);
-    // Continue with local sign-out even if Google sign-out fails
-  }
+  await signOutFromProvider();
 }
 
 /**
@@ -210,7 +558,25 @@ export function getAuthToken(): string | null {
 export const authService = {
   signInWithToken,
   signOut,
+  signOutAll,
   getSession,
+  listAccounts,
+  getAccount,
+  switchAccount,
+  updatePreferences,
+  updateQueryContext,
+  registerAuthProvider,
+  getAuthProvider,
+  listAuthProviders,
+  signInWithProvider,
+  signInAgain,
+  signOutFromProvider,
+  signOutFromAllProviders,
+  describeSession,
+  subscribeToSession,
+  refreshToken,
+  ensureFreshToken,
+  setGoogleIdentityProvider,
   signInWithGoogle,
   signOutFromGoogle,
   isSignedInWithGoogle,
@@ -0,0 +1,193 @@
+/**
+ * Decoding of BigQuery REST (tabledata / getQueryResults) payloads.
+ *
+ * The REST API returns every value as a string inside `{ f: [{ v }] }` trees:
+ * - RECORD/STRUCT values are nested `{ f: [...] }` rows
+ * - REPEATED (ARRAY) values are `[{ v }, ...]` lists
+ * - INT64 and NUMERIC/BIGNUMERIC values must not go through floating point
+ */
+
+export interface BigQueryField {
+  name?: string;
+  type?: string;
+  mode?: string;
+  fields?: BigQueryField[];
+  description?: string;
+}
+
+export interface BigQueryTableCell {
+  v?: unknown;
+}
+
+export interface BigQueryTableRow {
+  f?: BigQueryTableCell[];
+}
+
+/**
+ * Schema column as exposed on QueryResult.schema.
+ * `mode` and `fields` are only present when BigQuery reports them.
+ */
+export interface ResultField {
+  name: string;
+  type: string;
+  mode?: string;
+  fields?: ResultField[];
+}
+
+const RECORD_TYPES = new Set(['RECORD', 'STRUCT']);
+
+export function isRecordType(type?: string | null): boolean {
+  return !!type && RECORD_TYPES.has(type.toUpperCase());
+}
+
+export function isRepeated(field: { mode?: string }): boolean {
+  return field.mode?.toUpperCase() === 'REPEATED';
+}
+
+/**
+ * Convert BigQuery table fields to the QueryResult schema format, keeping nested fields
+ */
+export function convertSchema(fields: BigQueryField[] = []): ResultField[] {
+  return fields.map((field) => {
+    const converted: ResultField = {
+      name: field.name || 'unknown',
+      type: field.type || 'unknown',
+    };
+    if (field.mode) converted.mode = field.mode;
+    if (field.fields?.length) converted.fields = convertSchema(field.fields);
+    return converted;
+  });
+}
+
+/**
+ * INT64 values become numbers when they fit in a double without loss, otherwise bigint.
+ */
+function decodeInteger(value: unknown): number | bigint {
+  const text = String(value);
+  const asNumber = Number(text);
+  if (Number.isSafeInteger(asNumber)) return asNumber;
+  try {
+    return BigInt(text);
+  } catch {
+    return asNumber;
+  }
+}
+
+function decodeFloat(value: unknown): number {
+  // parseFloat understands "NaN", "Infinity" and "-Infinity" as sent by BigQuery
+  return parseFloat(String(value));
+}
+
+/**
+ * TIMESTAMP values arrive as (possibly exponent-formatted) seconds since the epoch, or as
+ * integer microseconds when requested with formatOptions.useInt64Timestamp.
+ * Returns an ISO-8601 string in UTC keeping microsecond precision.
+ */
+export function decodeTimestamp(value: unknown, int64Micros = false): string {
+  const text = String(value);
+  let micros: bigint;
+  if (int64Micros || /^-?\d{13,}$/.test(text)) {
+    micros = BigInt(text);
+  } else {
+    micros = BigInt(Math.round(Number(text) * 1e6));
+  }
+
+  let millis = micros / 1000n;
+  let extraMicros = micros % 1000n;
+  if (extraMicros < 0n) {
+    extraMicros += 1000n;
+    millis -= 1n;
+  }
+
+  const iso = new Date(Number(millis)).toISOString();
+  if (extraMicros === 0n) return iso;
+  return iso.replace('Z', `${String(extraMicros).padStart(3, '0')}Z`);
+}
+
+function decodeJson(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+function decodeScalar(value: unknown, type: string): unknown {
+  switch (type) {
+    case 'INTEGER':
+    case 'INT64':
+      return decodeInteger(value);
+    case 'FLOAT':
+    case 'FLOAT64':
+      return decodeFloat(value);
+    case 'BOOLEAN':
+    case 'BOOL':
+      return value === 'true' || value === true;
+    case 'TIMESTAMP':
+      return decodeTimestamp(value);
+    case 'JSON':
+      return decodeJson(value);
+    // Exact decimals, civil date/time values, WKT geographies, base64 bytes, canonical
+    // interval strings and range literals are already lossless strings.
+    case 'NUMERIC':
+    case 'BIGNUMERIC':
+    case 'DECIMAL':
+    case 'BIGDECIMAL':
+    case 'DATE':
+    case 'DATETIME':
+    case 'TIME':
+    case 'GEOGRAPHY':
+    case 'BYTES':
+    case 'INTERVAL':
+    case 'RANGE':
+    case 'STRING':
+    default:
+      return value;
+  }
+}
+
+function decodeRecord(value: unknown, fields: BigQueryField[]): Record<string, unknown> | unknown {
+  const cells = (value as BigQueryTableRow | null)?.f;
+  if (!Array.isArray(cells)) return value;
+  return decodeCells(cells, fields);
+}
+
+function decodeSingle(value: unknown, field: BigQueryField): unknown {
+  if (value === null || value === undefined) return null;
+  const type = (field.type || '').toUpperCase();
+  if (RECORD_TYPES.has(type)) return decodeRecord(value, field.fields ?? []);
+  return decodeScalar(value, type);
+}
+
+/**
+ * Decode one cell value for the given field, honouring REPEATED mode and nested records
+ */
+export function decodeValue(value: unknown, field: BigQueryField): unknown {
+  if (value === null || value === undefined) return isRepeated(field) ? [] : null;
+
+  if (isRepeated(field)) {
+    const items = Array.isArray(value) ? value : [];
+    return items.map((item) => decodeSingle((item as BigQueryTableCell)?.v, field));
+  }
+  return decodeSingle(value, field);
+}
+
+function decodeCells(cells: BigQueryTableCell[], fields: BigQueryField[]): Record<string, unknown> {
+  const decoded: Record<string, unknown> = {};
+  fields.forEach((field, index) => {
+    const fieldName = field.name || `field_${index}`;
+    decoded[fieldName] = decodeValue(cells[index]?.v, field);
+  });
+  return decoded;
+}
+
+/**
+ * Convert BigQuery table rows to plain objects keyed by column name
+ */
+export function decodeRows(
+  rows: BigQueryTableRow[] = [],
+  fields: BigQueryField[] = []
+): Record<string, unknown>[] {
+  return rows.map((row) => decodeCells(row.f || [], fields));
+}
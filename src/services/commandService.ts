@@ -0,0 +1,213 @@
+import authService from './authService';
+import { EDITOR_KEYBINDINGS } from '../editor/keybindings';
+import { bindingFromEvent, normalizeBinding } from '../utils/keybinding';
+
+/**
+ * Command registry and keymap.
+ * - components register named commands with a default keybinding ('Mod' = Ctrl/Cmd)
+ * - user overrides are stored in the session preferences (`keybindings`), keyed by command id
+ * - conflicts between commands, and with keys the query editor handles, are reported
+ *   for the shortcut help
+ * - recently used commands are remembered in localStorage so the command palette can
+ *   rank them first
+ */
+
+export interface Command {
+  id: string;
+  title: string;
+  // groups commands in the shortcut help
+  category: string;
+  defaultBinding: string | null;
+  run: () => void;
+}
+
+export interface KeybindingConflict {
+  binding: string;
+  // app commands bound to the same keys; the first one wins
+  commandIds: string[];
+  // editor command that takes the keys while the editor has focus
+  editorCommand: string | null;
+}
+
+export const MAX_RECENT_COMMANDS = 10;
+
+const RECENT_STORAGE_KEY = 'smolquery.recentCommands';
+
+const commands = new Map<string, Command>();
+const listeners = new Set<() => void>();
+
+function notify() {
+  for (const listener of listeners) listener();
+}
+
+/**
+ * Register commands, replacing ones with the same id; returns a function that
+ * unregisters them again
+ */
+export function registerCommands(list: Command[]): () => void {
+  for (const command of list) commands.set(command.id, command);
+  notify();
+  return () => {
+    for (const command of list) {
+      if (commands.get(command.id) === command) commands.delete(command.id);
+    }
+    notify();
+  };
+}
+
+/**
+ * Registered commands, in registration order
+ */
+export function getCommands(): Command[] {
+  return [...commands.values()];
+}
+
+export function getCommand(id: string): Command | undefined {
+  return commands.get(id);
+}
+
+export function executeCommand(id: string): boolean {
+  const command = commands.get(id);
+  if (!command) return false;
+  command.run();
+  return true;
+}
+
+function hasOverride(overrides: Record<string, string | null>, id: string): boolean {
+  return Object.prototype.hasOwnProperty.call(overrides, id);
+}
+
+export function getKeybindingOverrides(): Record<string, string | null> {
+  return { ...(authService.getSession().preferences.keybindings ?? {}) };
+}
+
+/**
+ * Canonical binding of a command, taking user overrides into account
+ */
+export function getKeybinding(command: Command): string | null {
+  const overrides = authService.getSession().preferences.keybindings ?? {};
+  const binding = hasOverride(overrides, command.id) ? overrides[command.id] : command.defaultBinding;
+  return binding ? normalizeBinding(binding) : null;
+}
+
+export function isKeybindingCustomized(id: string): boolean {
+  return hasOverride(authService.getSession().preferences.keybindings ?? {}, id);
+}
+
+function saveOverrides(overrides: Record<string, string | null>) {
+  authService.updatePreferences({ keybindings: overrides });
+  notify();
+}
+
+/**
+ * Bind a command to `binding` (null removes its shortcut) and persist the change
+ */
+export function setKeybinding(id: string, binding: string | null) {
+  const command = commands.get(id);
+  if (!command) throw new Error(`Unknown command: ${id}`);
+  const normalized = binding === null ? null : normalizeBinding(binding);
+  if (binding !== null && !normalized) throw new Error(`Invalid keybinding: ${binding}`);
+
+  const overrides = getKeybindingOverrides();
+  const defaultBinding = command.defaultBinding ? normalizeBinding(command.defaultBinding) : null;
+  if (normalized === defaultBinding) {
+    delete overrides[id];
+  } else {
+    overrides[id] = normalized;
+  }
+  saveOverrides(overrides);
+}
+
+export function resetKeybinding(id: string) {
+  const overrides = getKeybindingOverrides();
+  delete overrides[id];
+  saveOverrides(overrides);
+}
+
+export function resetAllKeybindings() {
+  saveOverrides({});
+}
+
+/**
+ * The command bound to the keys of `e`, among `list` (all registered commands by default)
+ */
+export function findCommandForEvent(e: KeyboardEvent, list: Command[] = getCommands()): Command | undefined {
+  const binding = bindingFromEvent(e);
+  if (!binding) return undefined;
+  return list.find((command) => getKeybinding(command) === binding);
+}
+
+/**
+ * Bindings shared by several commands or taken by the query editor
+ */
+export function findKeybindingConflicts(list: Command[] = getCommands()): KeybindingConflict[] {
+  const byBinding = new Map<string, string[]>();
+  for (const command of list) {
+    const binding = getKeybinding(command);
+    if (binding) byBinding.set(binding, [...(byBinding.get(binding) ?? []), command.id]);
+  }
+
+  const editorCommands = new Map<string, string>();
+  for (const { binding, title } of EDITOR_KEYBINDINGS) {
+    const normalized = normalizeBinding(binding);
+    if (normalized) editorCommands.set(normalized, title);
+  }
+
+  const conflicts: KeybindingConflict[] = [];
+  for (const [binding, commandIds] of byBinding) {
+    const editorCommand = editorCommands.get(binding) ?? null;
+    if (commandIds.length > 1 || editorCommand) conflicts.push({ binding, commandIds, editorCommand });
+  }
+  return conflicts;
+}
+
+/**
+ * Ids of recently used commands, most recent first
+ */
+export function getRecentCommandIds(): string[] {
+  try {
+    const raw = globalThis.localStorage.getItem(RECENT_STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === 'string') : [];
+  } catch (error) {
+    console.warn('Could not read recent commands:', error);
+    return [];
+  }
+}
+
+export function recordCommandUse(id: string) {
+  const recent = [id, ...getRecentCommandIds().filter((other) => other !== id)].slice(0, MAX_RECENT_COMMANDS);
+  try {
+    globalThis.localStorage.setItem(RECENT_STORAGE_KEY, JSON.stringify(recent));
+  } catch (error) {
+    console.warn('Could not save recent commands:', error);
+  }
+}
+
+/**
+ * Call `listener` whenever commands or keybindings change; returns the unsubscribe function
+ */
+export function subscribeToCommands(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export const commandService = {
+  registerCommands,
+  getCommands,
+  getCommand,
+  executeCommand,
+  getKeybinding,
+  setKeybinding,
+  resetKeybinding,
+  resetAllKeybindings,
+  findCommandForEvent,
+  findKeybindingConflicts,
+  getRecentCommandIds,
+  recordCommandUse,
+  subscribeToCommands,
+};
+
+export default commandService;
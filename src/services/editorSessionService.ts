@@ -0,0 +1,66 @@
+import EditorTab from '../models/EditorTab';
+import type { EditorTabPayload } from '../models/EditorTab';
+
+/**
+ * Persists the open editor tabs, their order and the active tab across reloads.
+ * Storage failures are logged and otherwise ignored: losing the tab layout must not
+ * break the editor.
+ */
+
+export interface EditorSession {
+  tabs: EditorTab[];
+  activeTabId: string | null;
+}
+
+interface EditorSessionPayload {
+  tabs: EditorTabPayload[];
+  activeTabId: string | null;
+}
+
+const STORAGE_KEY = 'smolquery.editorSession';
+
+/**
+ * Restore the saved session; invalid tabs are dropped and an unknown
+ * active tab falls back to the first one
+ */
+export function loadEditorSession(): EditorSession {
+  let payload: Partial<EditorSessionPayload> | null = null;
+  try {
+    const raw = globalThis.localStorage.getItem(STORAGE_KEY);
+    payload = raw ? JSON.parse(raw) : null;
+  } catch (error) {
+    console.warn('Could not read the editor session:', error);
+  }
+
+  const tabs: EditorTab[] = [];
+  for (const tab of Array.isArray(payload?.tabs) ? payload.tabs : []) {
+    try {
+      tabs.push(EditorTab.fromJSON(tab));
+    } catch {
+      // skip tabs that are not valid payloads
+    }
+  }
+  const activeTabId = tabs.some((t) => t.id === payload?.activeTabId)
+    ? (payload?.activeTabId as string)
+    : (tabs[0]?.id ?? null);
+  return { tabs, activeTabId };
+}
+
+export function saveEditorSession(session: EditorSession) {
+  const payload: EditorSessionPayload = {
+    tabs: session.tabs.map((tab) => tab.toJSON()),
+    activeTabId: session.activeTabId,
+  };
+  try {
+    globalThis.localStorage.setItem(STORAGE_KEY, JSON.stringify(payload));
+  } catch (error) {
+    console.warn('Could not save the editor session:', error);
+  }
+}
+
+export const editorSessionService = {
+  loadEditorSession,
+  saveEditorSession,
+};
+
+export default editorSessionService;
@@ -0,0 +1,171 @@
+import type UserSession from '../models/UserSession';
+import { createEncoder, getExportFormat, inferSchema } from '../export/encoders';
+import type { ExportChunk, ExportFormat, NestedPolicy } from '../export/encoders';
+import { fetchResultsPage, QueryCancelledError } from './queryService';
+import type { QueryResult } from './queryService';
+import { logger } from './logService';
+
+/**
+ * Exports query results to a file.
+ * - rows are read page by page with fetchResultsPage and encoded as they arrive, so only
+ *   one page is in memory at a time
+ * - output goes to an ExportSink; the file sink streams to disk through the File System
+ *   Access API where the browser has it and falls back to a Blob download otherwise
+ */
+
+export const EXPORT_PAGE_SIZE = 10000;
+
+export interface ExportSink {
+  write(chunk: ExportChunk): Promise<void>;
+  close(): Promise<void>;
+  // discard a partly written export
+  abort(): Promise<void>;
+}
+
+export interface ExportOptions {
+  format: ExportFormat;
+  nested?: NestedPolicy;
+  pageSize?: number;
+  signal?: AbortSignal;
+  onProgress?: (rowsWritten: number, totalRows: number | null) => void;
+}
+
+/**
+ * Row batches of a result, from the first row: the loaded rows when they are the whole
+ * result, otherwise every page fetched from BigQuery
+ */
+export async function* iterateResultRows(
+  result: QueryResult,
+  session: UserSession | undefined,
+  options: Pick<ExportOptions, 'pageSize' | 'signal'> = {}
+): AsyncGenerator<Record<string, unknown>[]> {
+  const complete = result.totalRows === undefined || result.rows.length >= result.totalRows;
+  if (complete || !result.jobId) {
+    yield result.rows;
+    return;
+  }
+
+  let pageToken: string | null | undefined;
+  let fetched = 0;
+  do {
+    if (options.signal?.aborted) throw new QueryCancelledError(result.jobId);
+    const page = await fetchResultsPage(result, session, {
+      ...(pageToken ? { pageToken } : { startIndex: 0 }),
+      maxResults: options.pageSize ?? EXPORT_PAGE_SIZE,
+      signal: options.signal,
+    });
+    fetched += page.rows.length;
+    yield page.rows;
+    pageToken = page.pageToken;
+  } while (pageToken && fetched < (result.totalRows ?? Infinity));
+}
+
+/**
+ * Encode every row of `result` into `sink`; returns the number of rows written.
+ * The sink is aborted when reading or writing fails.
+ */
+export async function exportResults(
+  result: QueryResult,
+  session: UserSession | undefined,
+  options: ExportOptions,
+  sink: ExportSink
+): Promise<number> {
+  const schema = result.schema.length ? result.schema : inferSchema(result.rows);
+  const encoder = createEncoder(options.format, schema, options.nested);
+  const totalRows = result.totalRows ?? null;
+  let rowsWritten = 0;
+
+  logger.info('export', 'Export started', { jobId: result.jobId, format: options.format, totalRows });
+  try {
+    const begin = encoder.begin();
+    if (begin) await sink.write(begin);
+    for await (const rows of iterateResultRows(result, session, options)) {
+      await sink.write(encoder.encodeRows(rows));
+      rowsWritten += rows.length;
+      options.onProgress?.(rowsWritten, totalRows);
+    }
+    const end = encoder.end();
+    if (end) await sink.write(end);
+    await sink.close();
+  } catch (error) {
+    await sink.abort().catch(() => {});
+    const cancelled = error instanceof QueryCancelledError;
+    logger[cancelled ? 'warn' : 'error']('export', cancelled ? 'Export cancelled' : 'Export failed', {
+      jobId: result.jobId,
+      rowsWritten,
+      ...(cancelled ? {} : { error: error instanceof Error ? error.message : String(error) }),
+    });
+    throw error;
+  }
+  logger.info('export', 'Export finished', { jobId: result.jobId, format: options.format, rowsWritten });
+  return rowsWritten;
+}
+
+// File System Access API, not yet in the TypeScript DOM lib
+interface SaveFilePickerWindow {
+  showSaveFilePicker?: (options: {
+    suggestedName: string;
+    types?: { description: string; accept: Record<string, string[]> }[];
+  }) => Promise<{ createWritable(): Promise<FileSystemWritableFileStream> }>;
+}
+
+interface FileSystemWritableFileStream {
+  write(data: ExportChunk): Promise<void>;
+  close(): Promise<void>;
+  abort(): Promise<void>;
+}
+
+/**
+ * Sink that saves to a user-chosen file, or null when the user dismisses the save dialog
+ */
+export async function createFileSink(format: ExportFormat, baseName: string): Promise<ExportSink | null> {
+  const info = getExportFormat(format);
+  const fileName = `${baseName}.${info.extension}`;
+  const picker = (globalThis as SaveFilePickerWindow).showSaveFilePicker;
+
+  if (picker) {
+    try {
+      const handle = await picker({
+        suggestedName: fileName,
+        types: [{ description: info.label, accept: { [info.mimeType]: [`.${info.extension}`] } }],
+      });
+      const stream = await handle.createWritable();
+      return {
+        write: (chunk) => stream.write(chunk),
+        close: () => stream.close(),
+        abort: () => stream.abort(),
+      };
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return null;
+      throw error;
+    }
+  }
+
+  // Without streaming file access the parts are kept until the download starts
+  let parts: BlobPart[] = [];
+  return {
+    write: async (chunk) => {
+      parts.push(chunk as BlobPart);
+    },
+    close: async () => {
+      const url = URL.createObjectURL(new Blob(parts, { type: info.mimeType }));
+      parts = [];
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    },
+    abort: async () => {
+      parts = [];
+    },
+  };
+}
+
+export const exportService = {
+  iterateResultRows,
+  exportResults,
+  createFileSink,
+};
+
+export default exportService;
@@ -0,0 +1,126 @@
+/**
+ * Google sign-in through the Google Identity Services (GIS) token client, which replaces the
+ * deprecated gapi.auth2 library. Needs https://accounts.google.com/gsi/client on the page.
+ *
+ * The token model never hands a refresh token to the browser: renewing a token asks GIS for a
+ * new one without prompting, which works while the user stays signed in to Google.
+ */
+
+export interface GoogleOAuthConfig {
+  clientId: string;
+  scope: string;
+}
+
+export interface GoogleToken {
+  accessToken: string;
+  // seconds until expiry
+  expiresIn: number;
+  // the scopes the user actually granted
+  scope: string;
+}
+
+export interface GoogleProfile {
+  // the stable account id ("sub")
+  id: string;
+  email?: string;
+  name?: string;
+}
+
+// '' only prompts the first time; 'none' never does; 'select_account' always shows the chooser
+export type GooglePrompt = '' | 'none' | 'consent' | 'select_account';
+
+export interface GoogleTokenRequest {
+  prompt: GooglePrompt;
+  // account id or email to preselect
+  hint?: string;
+}
+
+/**
+ * What authService needs from Google; tests swap in a fake through setGoogleIdentityProvider
+ */
+export interface GoogleIdentityProvider {
+  requestAccessToken(request: GoogleTokenRequest): Promise<GoogleToken>;
+  getProfile(accessToken: string): Promise<GoogleProfile>;
+  revoke(accessToken: string): Promise<void>;
+}
+
+const USERINFO_URL = 'https://www.googleapis.com/oauth2/v3/userinfo';
+
+// The parts of google.accounts.oauth2 used here
+interface GisTokenResponse {
+  access_token?: string;
+  expires_in?: number | string;
+  scope?: string;
+  error?: string;
+  error_description?: string;
+}
+
+interface GisTokenClient {
+  requestAccessToken(overrides?: { prompt?: string; hint?: string }): void;
+}
+
+interface GisOAuth2 {
+  initTokenClient(config: {
+    client_id: string;
+    scope: string;
+    callback: (response: GisTokenResponse) => void;
+    // the popup was closed or could not be opened
+    error_callback?: (error: { type: string; message?: string }) => void;
+  }): GisTokenClient;
+  revoke(accessToken: string, done?: () => void): void;
+}
+
+declare global {
+  var google: { accounts?: { oauth2?: GisOAuth2 } } | undefined;
+}
+
+function gisOAuth2(): GisOAuth2 {
+  const oauth2 = typeof google === 'undefined' ? undefined : google?.accounts?.oauth2;
+  if (!oauth2) {
+    throw new Error('Google Identity Services not loaded. Include https://accounts.google.com/gsi/client');
+  }
+  return oauth2;
+}
+
+/**
+ * The browser implementation, backed by the GIS token client
+ */
+export function createGoogleIdentityServicesProvider(config: GoogleOAuthConfig): GoogleIdentityProvider {
+  return {
+    requestAccessToken({ prompt, hint }) {
+      return new Promise<GoogleToken>((resolve, reject) => {
+        // A client per request, so each request gets its own callback
+        const client = gisOAuth2().initTokenClient({
+          client_id: config.clientId,
+          scope: config.scope,
+          callback: (response) => {
+            if (response.error || !response.access_token) {
+              reject(new Error(response.error_description || response.error || 'Google returned no access token'));
+              return;
+            }
+            resolve({
+              accessToken: response.access_token,
+              expiresIn: Number(response.expires_in ?? 0),
+              scope: response.scope ?? config.scope,
+            });
+          },
+          error_callback: (error) => reject(new Error(error.message || `Google sign-in failed: ${error.type}`)),
+        });
+        client.requestAccessToken({ prompt, ...(hint ? { hint } : {}) });
+      });
+    },
+
+    async getProfile(accessToken) {
+      const response = await fetch(USERINFO_URL, { headers: { Authorization: `Bearer ${accessToken}` } });
+      if (!response.ok) {
+        throw new Error(`Could not load the Google profile (HTTP ${response.status})`);
+      }
+      const info = (await response.json()) as { sub: string; email?: string; name?: string };
+      return { id: info.sub, email: info.email, name: info.name };
+    },
+
+    revoke(accessToken) {
+      return new Promise<void>((resolve) => gisOAuth2().revoke(accessToken, () => resolve()));
+    },
+  };
+}
@@ -0,0 +1,128 @@
+import type { QueryStatus } from '../models/Query';
+
+/**
+ * Execution history.
+ * - executeQuery records one entry per execution, whatever its outcome
+ * - entries live behind an async HistoryStore (localStorage by default), newest first,
+ *   capped at MAX_HISTORY_ENTRIES
+ * - subscribers are notified after every change so open views can refresh
+ */
+
+export type HistoryStatus = Extract<QueryStatus, 'completed' | 'failed' | 'cancelled'>;
+
+export interface HistoryEntry {
+  id: string;
+  queryId: string;
+  queryName?: string;
+  sql: string;
+  startedAt: string;
+  endedAt: string;
+  durationMs: number;
+  jobId: string | null;
+  bytesProcessed: number | null;
+  rowCount: number | null;
+  status: HistoryStatus;
+  error: string | null;
+}
+
+export interface HistoryFilter {
+  // every word must appear in the SQL or the query name (case-insensitive)
+  text?: string;
+  status?: HistoryStatus;
+  queryId?: string;
+}
+
+export interface HistoryStore {
+  load(): Promise<HistoryEntry[]>;
+  persist(entries: HistoryEntry[]): Promise<void>;
+}
+
+export const MAX_HISTORY_ENTRIES = 500;
+
+const STORAGE_KEY = 'smolquery.history';
+
+export const localStorageHistoryStore: HistoryStore = {
+  async load() {
+    try {
+      const raw = globalThis.localStorage.getItem(STORAGE_KEY);
+      if (!raw) return [];
+      const parsed = JSON.parse(raw);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  },
+  async persist(entries) {
+    globalThis.localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  },
+};
+
+let store: HistoryStore = localStorageHistoryStore;
+const listeners = new Set<() => void>();
+
+/**
+ * Swap the storage backend (e.g. an in-memory store in tests)
+ */
+export function setHistoryStore(next: HistoryStore) {
+  store = next;
+}
+
+/**
+ * Call `listener` after every history change; returns the unsubscribe function
+ */
+export function subscribeToHistory(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notify() {
+  for (const listener of listeners) listener();
+}
+
+function newId(): string {
+  return `run-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Record a finished execution; the oldest entries are dropped past MAX_HISTORY_ENTRIES
+ */
+export async function recordExecution(entry: Omit<HistoryEntry, 'id'>): Promise<HistoryEntry> {
+  const recorded: HistoryEntry = { id: newId(), ...entry };
+  const entries = await store.load();
+  await store.persist([recorded, ...entries].slice(0, MAX_HISTORY_ENTRIES));
+  notify();
+  return recorded;
+}
+
+/**
+ * History entries, newest first, optionally filtered
+ */
+export async function listHistory(filter: HistoryFilter = {}): Promise<HistoryEntry[]> {
+  const words = (filter.text ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+  const entries = await store.load();
+  return entries
+    .filter((entry) => !filter.status || entry.status === filter.status)
+    .filter((entry) => !filter.queryId || entry.queryId === filter.queryId)
+    .filter((entry) => {
+      if (words.length === 0) return true;
+      const haystack = `${entry.queryName ?? ''}\n${entry.sql}`.toLowerCase();
+      return words.every((word) => haystack.includes(word));
+    })
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+export async function clearHistory(): Promise<void> {
+  await store.persist([]);
+  notify();
+}
+
+export const historyService = {
+  recordExecution,
+  listHistory,
+  clearHistory,
+  subscribeToHistory,
+};
+
+export default historyService;
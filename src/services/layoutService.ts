@@ -0,0 +1,104 @@
+import Panel, { PanelDocks, PanelTypes } from '../models/Panel';
+import type { PanelDock, PanelPayload, PanelType } from '../models/Panel';
+
+/**
+ * Persists the panel layout: which panels are open, their dock and order, and the size
+ * of each dock area.
+ * Stored layouts are merged with DEFAULT_PANEL_LAYOUT so panels added in later versions
+ * show up and panels that no longer exist are dropped.
+ */
+
+// Share of the workspace each dock area takes, in percent; 0 means collapsed
+export type DockSizes = Record<PanelDock, number>;
+
+export interface PanelLayout {
+  panels: Panel[];
+  sizes: DockSizes;
+}
+
+export const DEFAULT_PANEL_LAYOUT: PanelPayload[] = [
+  { id: 'results', type: PanelTypes.Results, title: 'Results', open: false, order: 0, dock: 'bottom' },
+  { id: 'schema', type: PanelTypes.Schema, title: 'Schema', open: false, order: 1, dock: 'left' },
+  { id: 'settings', type: PanelTypes.Settings, title: 'Settings', open: false, order: 2, dock: 'right' },
+  { id: 'saved-queries', type: PanelTypes.SavedQueries, title: 'Saved Queries', open: false, order: 3, dock: 'left' },
+  { id: 'history', type: PanelTypes.History, title: 'History', open: false, order: 4, dock: 'left' },
+  { id: 'console', type: PanelTypes.Console, title: 'Console', open: false, order: 5, dock: 'bottom' },
+];
+
+export const DEFAULT_DOCK_SIZES: DockSizes = { left: 25, right: 25, bottom: 40 };
+
+// Dock areas never take more than this share, so the editor stays visible
+export const MAX_DOCK_SIZE = 80;
+
+const STORAGE_KEY = 'smolquery.panelLayout';
+
+/**
+ * Panels in display order, renumbered 0..n-1
+ */
+export function sortPanels(panels: Panel[]): Panel[] {
+  const sorted = [...panels].sort((a, b) => a.order - b.order);
+  sorted.forEach((panel, index) => {
+    panel.order = index;
+  });
+  return sorted;
+}
+
+export function clampDockSize(size: number): number {
+  return Number.isFinite(size) ? Math.min(Math.max(size, 0), MAX_DOCK_SIZE) : 0;
+}
+
+function readSizes(stored: Partial<DockSizes> | undefined): DockSizes {
+  const sizes = { ...DEFAULT_DOCK_SIZES };
+  for (const dock of PanelDocks) {
+    const size = stored?.[dock];
+    if (typeof size === 'number') sizes[dock] = clampDockSize(size);
+  }
+  return sizes;
+}
+
+export function loadPanelLayout(): PanelLayout {
+  let stored: { panels?: PanelPayload[]; sizes?: Partial<DockSizes> } = {};
+  try {
+    const raw = globalThis.localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    // Layouts saved before dock sizes existed are a bare panel array
+    stored = Array.isArray(parsed) ? { panels: parsed } : (parsed ?? {});
+  } catch (error) {
+    console.warn('Could not read the panel layout:', error);
+  }
+  const storedPanels = Array.isArray(stored.panels) ? stored.panels : [];
+
+  const byType = new Map<PanelType, PanelPayload>();
+  for (const payload of storedPanels) {
+    if (payload && typeof payload === 'object') byType.set(payload.type, payload);
+  }
+  // Panels missing from the stored layout go after the stored ones
+  const panels = DEFAULT_PANEL_LAYOUT.map((defaults) => {
+    const saved = byType.get(defaults.type);
+    return Panel.fromJSON({
+      ...defaults,
+      open: typeof saved?.open === 'boolean' ? saved.open : defaults.open,
+      order: typeof saved?.order === 'number' ? saved.order : storedPanels.length + (defaults.order ?? 0),
+      dock: saved?.dock ?? defaults.dock,
+    });
+  });
+  return { panels: sortPanels(panels), sizes: readSizes(stored.sizes) };
+}
+
+export function savePanelLayout(layout: PanelLayout) {
+  const payload = { panels: layout.panels.map((panel) => panel.toJSON()), sizes: layout.sizes };
+  try {
+    globalThis.localStorage.setItem(STORAGE_KEY, JSON.stringify(payload));
+  } catch (error) {
+    console.warn('Could not save the panel layout:', error);
+  }
+}
+
+export const layoutService = {
+  loadPanelLayout,
+  savePanelLayout,
+  sortPanels,
+  clampDockSize,
+};
+
+export default layoutService;
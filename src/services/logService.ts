@@ -0,0 +1,118 @@
+/**
+ * Structured application log, shown in the Console panel.
+ * - services log events with a severity, a source ('query', 'auth', ...) and optional details
+ * - events are kept in memory (the last MAX_LOG_EVENTS) and forwarded to the browser console
+ * - subscribers are notified of every new event
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+// Ordered from least to most severe
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+export interface LogEvent {
+  id: number;
+  timestamp: string;
+  level: LogLevel;
+  source: string;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+export interface LogFilter {
+  // only events at this severity or above
+  minLevel?: LogLevel;
+  source?: string;
+}
+
+export const MAX_LOG_EVENTS = 1000;
+
+let events: LogEvent[] = [];
+let nextId = 1;
+const listeners = new Set<(event: LogEvent) => void>();
+
+/**
+ * Message of an unknown thrown value, for log details
+ */
+export function describeError(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (error && typeof error === 'object' && 'message' in error) {
+    return String((error as { message?: unknown }).message);
+  }
+  return String(error);
+}
+
+export function log(level: LogLevel, source: string, message: string, details?: Record<string, unknown>): LogEvent {
+  const event: LogEvent = {
+    id: nextId++,
+    timestamp: new Date().toISOString(),
+    level,
+    source,
+    message,
+    ...(details ? { details } : {}),
+  };
+  events.push(event);
+  if (events.length > MAX_LOG_EVENTS) events = events.slice(-MAX_LOG_EVENTS);
+
+  const args: unknown[] = [`[${source}] ${message}`];
+  if (details) args.push(details);
+  console[level](...args);
+
+  for (const listener of listeners) listener(event);
+  return event;
+}
+
+export const logger = {
+  debug: (source: string, message: string, details?: Record<string, unknown>) => log('debug', source, message, details),
+  info: (source: string, message: string, details?: Record<string, unknown>) => log('info', source, message, details),
+  warn: (source: string, message: string, details?: Record<string, unknown>) => log('warn', source, message, details),
+  error: (source: string, message: string, details?: Record<string, unknown>) => log('error', source, message, details),
+};
+
+/**
+ * Logged events, oldest first
+ */
+export function getLogEvents(filter: LogFilter = {}): LogEvent[] {
+  const minIndex = LOG_LEVELS.indexOf(filter.minLevel ?? 'debug');
+  return events.filter(
+    (event) =>
+      LOG_LEVELS.indexOf(event.level) >= minIndex && (!filter.source || event.source === filter.source)
+  );
+}
+
+export function clearLog() {
+  events = [];
+}
+
+/**
+ * Call `listener` with every new event; returns the unsubscribe function
+ */
+export function subscribeToLog(listener: (event: LogEvent) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * One line per event: time, level, source, message and JSON details
+ */
+export function formatLogEvents(list: LogEvent[]): string {
+  return list
+    .map((event) => {
+      const details = event.details ? ` ${JSON.stringify(event.details)}` : '';
+      return `${event.timestamp} ${event.level.toUpperCase()} [${event.source}] ${event.message}${details}`;
+    })
+    .join('\n');
+}
+
+export const logService = {
+  log,
+  logger,
+  getLogEvents,
+  clearLog,
+  subscribeToLog,
+  formatLogEvents,
+};
+
+export default logService;
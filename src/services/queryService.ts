@@ -1,6 +1,14 @@
 import Query from '../models/Query';
 import type { QueryPayload } from '../models/Query';
 import UserSession from '../models/UserSession';
+import type { QueryContext } from '../models/UserSession';
+import { convertSchema, decodeRows } from './bigqueryDecoder';
+import type { BigQueryField, BigQueryTableRow, ResultField } from './bigqueryDecoder';
+import { formatBytes } from '../utils/bytes';
+import { recordExecution } from './historyService';
+import type { HistoryStatus } from './historyService';
+import { describeError, logger } from './logService';
+import { ensureFreshToken, ReauthenticationRequiredError, refreshToken } from './authService';
 
 /// <reference types="gapi" />
 /// <reference types="gapi.client" />
@@ -13,17 +21,9 @@ declare global {
 }
 
 // Simple interfaces for BigQuery API responses
-interface BigQueryField {
-  name?: string;
-  type?: string;
-}
-
-interface BigQueryTableCell {
-  v?: unknown;
-}
-
-interface BigQueryTableRow {
-  f?: BigQueryTableCell[];
+interface BigQueryDatasetReference {
+  projectId: string;
+  datasetId: string;
 }
 
 interface BigQueryQueryRequest {
@@ -31,12 +31,154 @@ interface BigQueryQueryRequest {
   useLegacySql?: boolean;
   maxResults?: number;
   timeoutMs?: number;
+  maximumBytesBilled?: string;
+  defaultDataset?: BigQueryDatasetReference;
+  location?: string;
+}
+
+interface BigQueryJobReference {
+  projectId?: string;
+  jobId?: string;
+  location?: string;
+}
+
+interface BigQueryQueryResponse {
+  jobReference?: BigQueryJobReference;
+  jobComplete?: boolean;
+  schema?: { fields?: BigQueryField[] };
+  rows?: BigQueryTableRow[];
+  // int64 values are serialized as strings by the REST API
+  totalRows?: string | number;
+  pageToken?: string;
+  totalBytesProcessed?: string | number;
 }
 
+/**
+ * One page of query results.
+ * `rows` only holds the rows of this page; `totalRows` is the size of the whole result and
+ * `pageToken` (when set) fetches the page that follows through fetchResultsPage.
+ */
 export interface QueryResult {
   jobId?: string;
+  projectId?: string;
+  location?: string;
   rows: Record<string, unknown>[];
-  schema: { name: string; type: string }[];
+  schema: ResultField[];
+  totalRows?: number;
+  pageToken?: string | null;
+  // bytes scanned by the job, when BigQuery reports it
+  totalBytesProcessed?: number;
+}
+
+/**
+ * Page request for fetchResultsPage. `startIndex` jumps to an absolute row;
+ * otherwise `pageToken` continues from the previous page.
+ */
+export interface PageRequest {
+  pageToken?: string | null;
+  startIndex?: number;
+  maxResults?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Execution options.
+ * - mode 'sync' (default) uses jobs.query and keeps polling if BigQuery reports jobComplete: false
+ * - mode 'job' inserts the job with jobs.insert and polls jobs.getQueryResults until it completes
+ * - signal cancels a running execution; BigQuery jobs are cancelled through jobs.cancel
+ */
+export interface ExecuteOptions {
+  mode?: 'sync' | 'job';
+  signal?: AbortSignal;
+  // initial delay between polls, doubled after every incomplete poll up to maxPollIntervalMs
+  pollIntervalMs?: number;
+  maxPollIntervalMs?: number;
+  // rows returned with the first page; further pages are fetched with fetchResultsPage
+  maxResults?: number;
+  // refuse queries whose dry run reports more bytes than this, and cap billing in BigQuery
+  maxBytesBilled?: number | null;
+}
+
+/**
+ * Dry-run result: what BigQuery would scan without running the query.
+ */
+export interface QueryEstimate {
+  totalBytesProcessed: number;
+  // fully qualified `project.dataset.table` names
+  referencedTables: string[];
+  // false when the statement can never be served from the query cache
+  cacheEligible: boolean;
+  statementType?: string;
+}
+
+// first page size; keeps the UI responsive and memory bounded for large results
+export const DEFAULT_PAGE_SIZE = 1000;
+const DEFAULT_POLL_INTERVAL_MS = 500;
+const DEFAULT_MAX_POLL_INTERVAL_MS = 8000;
+// server-side wait per getQueryResults call; kept short so cancellation stays responsive
+const POLL_TIMEOUT_MS = 10000;
+
+/**
+ * Thrown when an execution is aborted through ExecuteOptions.signal.
+ */
+export class QueryCancelledError extends Error {
+  jobId?: string;
+
+  constructor(jobId?: string) {
+    super('Query cancelled');
+    this.name = 'QueryCancelledError';
+    this.jobId = jobId;
+  }
+}
+
+/**
+ * Thrown when a dry run reports more bytes than ExecuteOptions.maxBytesBilled allows.
+ */
+export class BytesLimitExceededError extends Error {
+  estimate: QueryEstimate;
+  limit: number;
+
+  constructor(estimate: QueryEstimate, limit: number) {
+    super(
+      `Query would process ${formatBytes(estimate.totalBytesProcessed)}, ` +
+        `above the ${formatBytes(limit)} limit`
+    );
+    this.name = 'BytesLimitExceededError';
+    this.estimate = estimate;
+    this.limit = limit;
+  }
+}
+
+/**
+ * Thrown when a query would run without a billing project: none is selected in the
+ * session and VITE_BIGQUERY_PROJECT_ID is not set.
+ */
+export class NoProjectSelectedError extends Error {
+  constructor() {
+    super('No billing project selected. Choose the project to run queries in.');
+    this.name = 'NoProjectSelectedError';
+  }
+}
+
+/**
+ * Resolve after `ms`, or reject with QueryCancelledError as soon as the signal aborts.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new QueryCancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new QueryCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
 
 function isSelect(sql: string) {
@@ -50,180 +192,532 @@ function fakeSchemaFromRows(rows: Record<string, unknown>[]) {
 }
 
 /**
- * Initialize BigQuery API client if not already initialized
+ * Load the Google API client library if not already loaded. BigQuery is reached through
+ * gapi.client.request, so its discovery document is not needed.
  */
-async function initializeBigQueryAPI(): Promise<void> {
+export async function initializeBigQueryAPI(): Promise<void> {
   if (typeof gapi === 'undefined') {
     throw new Error('Google API client not loaded. Include https://apis.google.com/js/api.js');
   }
 
-  // Load the BigQuery API if not already loaded
-  if (!gapi.client.bigquery) {
+  if (!gapi.client?.request) {
     await new Promise<void>((resolve, reject) => {
-      gapi.load('client', {
-        callback: async () => {
-          try {
-            await gapi.client.load('bigquery', 'v2');
-            resolve();
-          } catch (error) {
-            reject(error);
-          }
-        },
-        onerror: reject
-      });
+      gapi.load('client', { callback: () => resolve(), onerror: reject });
     });
   }
 }
 
 /**
- * Convert BigQuery table field to our schema format
+ * Extract a readable message from a gapi error response or a thrown Error
  */
-function convertBigQuerySchema(fields: BigQueryField[] = []): { name: string; type: string }[] {
-  return fields.map(field => ({
-    name: field.name || 'unknown',
-    type: field.type || 'unknown'
-  }));
+function extractErrorMessage(error: unknown): string {
+  let errorMessage = 'Unknown BigQuery error';
+  if (error && typeof error === 'object') {
+    if ('result' in error && error.result && typeof error.result === 'object' && 'error' in error.result) {
+      const apiError = (error.result as Record<string, unknown>).error;
+      errorMessage = (apiError as Record<string, unknown>)?.message as string || (apiError as Record<string, unknown>)?.code as string || errorMessage;
+    } else if ('message' in error) {
+      errorMessage = String((error as { message: unknown }).message);
+    }
+  }
+  return errorMessage;
+}
+
+function isUnauthorized(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return false;
+  const { status, result } = error as { status?: unknown; result?: { error?: { code?: unknown } } };
+  return status === 401 || result?.error?.code === 401;
 }
 
+const BIGQUERY_ROOT = 'https://bigquery.googleapis.com/bigquery/v2';
+
 /**
- * Convert BigQuery table rows to our format
+ * A BigQuery REST call; path is relative to the v2 root, see bigQueryPath
  */
-function convertBigQueryRows(
-  rows: BigQueryTableRow[] = [],
-  schema: BigQueryField[] = []
-): Record<string, unknown>[] {
-  return rows.map(row => {
-    const convertedRow: Record<string, unknown> = {};
-    const values = row.f || [];
-
-    schema.forEach((field, index) => {
-      const fieldName = field.name || `field_${index}`;
-      const value = values[index]?.v;
-
-      // Convert BigQuery value based on type
-      let convertedValue: unknown = value;
-      if (value !== null && value !== undefined) {
-        switch (field.type) {
-          case 'INTEGER':
-          case 'INT64':
-            convertedValue = value ? parseInt(String(value), 10) : null;
-            break;
-          case 'FLOAT':
-          case 'FLOAT64':
-            convertedValue = value ? parseFloat(String(value)) : null;
-            break;
-          case 'BOOLEAN':
-          case 'BOOL':
-            convertedValue = value === 'true' || value === true;
-            break;
-          case 'TIMESTAMP':
-            convertedValue = value ? new Date(Number(value) * 1000).toISOString() : null;
-            break;
-          default:
-            convertedValue = value;
-        }
-      }
+export interface BigQueryRequest {
+  path: string;
+  method?: 'GET' | 'POST';
+  params?: Record<string, unknown>;
+  body?: unknown;
+}
 
-      convertedRow[fieldName] = convertedValue;
-    });
+/**
+ * Path of a BigQuery REST resource from its segments, e.g. ('projects', projectId, 'jobs')
+ */
+export function bigQueryPath(...segments: string[]): string {
+  return segments.map(encodeURIComponent).join('/');
+}
 
-    return convertedRow;
+// The token goes with each request rather than through gapi.client.setToken: runs and
+// schema loads of different accounts overlap, and the shared client token would send one
+// account's polls and cancels with another account's token
+function sendBigQueryRequest(session: UserSession, request: BigQueryRequest) {
+  // Leave out unset parameters, e.g. the location of a job that has none
+  const params = Object.entries(request.params ?? {}).filter(([, value]) => value !== undefined);
+  return gapi.client.request({
+    path: `${BIGQUERY_ROOT}/${request.path}`,
+    method: request.method ?? 'GET',
+    params: Object.fromEntries(params),
+    body: request.body,
+    headers: { Authorization: `Bearer ${session.accessToken}` },
   });
-}/**
- * Execute query using BigQuery API or fallback to mock for development
+}
+
+/**
+ * Make a BigQuery API call with the session's access token, refreshed first when it is about
+ * to expire. A 401 refreshes the token and retries the call once; when the token cannot be
+ * refreshed, ReauthenticationRequiredError is thrown.
  */
-async function executeBigQueryQuery(
-  sql: string,
-  projectId: string,
-  _session: UserSession
-): Promise<{ jobId: string; rows: Record<string, unknown>[]; schema: { name: string; type: string }[] }> {
-  await initializeBigQueryAPI();
+export async function callBigQuery<T = Record<string, unknown>>(
+  session: UserSession,
+  request: BigQueryRequest
+): Promise<{ result?: T }> {
+  await ensureFreshToken(session);
+  try {
+    return await sendBigQueryRequest(session, request);
+  } catch (error) {
+    if (!isUnauthorized(error)) throw error;
+    logger.warn('query', 'Access token rejected, refreshing and retrying', { provider: session.provider });
+    await refreshToken(session);
+    return await sendBigQueryRequest(session, request);
+  }
+}
 
-  // Create a query job
-  const queryRequest: BigQueryQueryRequest = {
-    query: sql,
-    useLegacySql: false,
-    maxResults: 1000, // Limit results for UI performance
-    timeoutMs: 30000   // 30 second timeout
+function toQueryResult(
+  response: BigQueryQueryResponse,
+  reference: BigQueryJobReference = {}
+): QueryResult {
+  const jobReference = { ...reference, ...response.jobReference };
+  const jobId = jobReference.jobId || 'unknown';
+  const schema = convertSchema(response.schema?.fields);
+  const rows = decodeRows(response.rows, response.schema?.fields);
+  const totalRows = response.totalRows !== undefined ? Number(response.totalRows) : rows.length;
+  return {
+    jobId,
+    projectId: jobReference.projectId,
+    location: jobReference.location,
+    rows,
+    schema,
+    totalRows,
+    pageToken: response.pageToken ?? null,
+    totalBytesProcessed:
+      response.totalBytesProcessed !== undefined ? Number(response.totalBytesProcessed) : undefined,
   };
+}
 
+/**
+ * Best-effort jobs.cancel; the caller already treats the execution as cancelled.
+ */
+async function cancelBigQueryJob(session: UserSession, reference: BigQueryJobReference): Promise<void> {
+  if (!reference.jobId || !reference.projectId) return;
   try {
-    // Execute the query
-    const response = await gapi.client.bigquery.jobs.query({
-      projectId: projectId,
-      resource: queryRequest
+    await callBigQuery(session, {
+      path: bigQueryPath('projects', reference.projectId, 'jobs', reference.jobId, 'cancel'),
+      method: 'POST',
+      params: { location: reference.location },
     });
+    logger.info('query', 'jobs.cancel', { jobId: reference.jobId });
+  } catch (error) {
+    logger.error('query', 'BigQuery job cancellation failed', { jobId: reference.jobId, error: describeError(error) });
+  }
+}
 
-    const queryResult = response.result;
+/**
+ * Poll jobs.getQueryResults with exponential backoff until the job completes.
+ */
+async function pollQueryResults(
+  session: UserSession,
+  reference: BigQueryJobReference,
+  options: ExecuteOptions
+): Promise<BigQueryQueryResponse> {
+  let delay = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  const maxDelay = options.maxPollIntervalMs ?? DEFAULT_MAX_POLL_INTERVAL_MS;
+
+  for (let attempt = 1; ; attempt++) {
+    if (options.signal?.aborted) throw new QueryCancelledError(reference.jobId);
+
+    logger.debug('query', 'jobs.getQueryResults', { jobId: reference.jobId, attempt });
+    const response = await callBigQuery<BigQueryQueryResponse>(session, {
+      path: bigQueryPath('projects', reference.projectId ?? '', 'queries', reference.jobId ?? ''),
+      params: {
+        location: reference.location,
+        maxResults: options.maxResults ?? DEFAULT_PAGE_SIZE,
+        timeoutMs: POLL_TIMEOUT_MS,
+      },
+    });
+    const result = response.result;
 
-    if (!queryResult) {
+    if (!result) {
       throw new Error('No result returned from BigQuery');
     }
+    if (result.jobComplete !== false) {
+      return { ...result, jobReference: result.jobReference ?? reference };
+    }
 
-    const jobId = queryResult.jobReference?.jobId || 'unknown';
-    const schema = convertBigQuerySchema(queryResult.schema?.fields);
-    const rows = convertBigQueryRows(queryResult.rows, queryResult.schema?.fields);
+    logger.debug('query', 'Job still running, polling again', { jobId: reference.jobId, attempt, delayMs: delay });
+    await sleep(delay, options.signal);
+    delay = Math.min(delay * 2, maxDelay);
+  }
+}
 
-    return { jobId, rows, schema };
-  } catch (error: unknown) {
-    console.error('BigQuery API error:', error);
-
-    // Extract meaningful error message
-    let errorMessage = 'Unknown BigQuery error';
-    if (error && typeof error === 'object') {
-      if ('result' in error && error.result && typeof error.result === 'object' && 'error' in error.result) {
-        const apiError = (error.result as Record<string, unknown>).error;
-        errorMessage = (apiError as Record<string, unknown>)?.message as string || (apiError as Record<string, unknown>)?.code as string || errorMessage;
-      } else if ('message' in error) {
-        errorMessage = String((error as { message: unknown }).message);
+/**
+ * Execute query using BigQuery API or fallback to mock for development
+ */
+async function executeBigQueryQuery(
+  sql: string,
+  session: UserSession,
+  context: ResolvedContext,
+  options: ExecuteOptions = {}
+): Promise<QueryResult> {
+  await initializeBigQueryAPI();
+
+  const { projectId, defaultDataset, location } = context;
+  let reference: BigQueryJobReference = { projectId };
+
+  try {
+    let queryResult: BigQueryQueryResponse | undefined;
+
+    if (options.mode === 'job') {
+      logger.debug('query', 'jobs.insert', { projectId, location });
+      const response = await callBigQuery<{ jobReference?: BigQueryJobReference }>(session, {
+        path: bigQueryPath('projects', projectId, 'jobs'),
+        method: 'POST',
+        body: {
+          ...(location ? { jobReference: { projectId, location } } : {}),
+          configuration: {
+            query: {
+              query: sql,
+              useLegacySql: false,
+              ...(defaultDataset ? { defaultDataset } : {}),
+              ...(options.maxBytesBilled ? { maximumBytesBilled: String(options.maxBytesBilled) } : {}),
+            },
+          },
+        },
+      });
+      reference = { projectId, ...response.result?.jobReference };
+      if (!reference.jobId) {
+        throw new Error('No job reference returned from BigQuery');
+      }
+      logger.info('query', 'Job inserted', { jobId: reference.jobId, location: reference.location });
+      queryResult = await pollQueryResults(session, reference, options);
+    } else {
+      // Create a query job
+      const queryRequest: BigQueryQueryRequest = {
+        query: sql,
+        useLegacySql: false,
+        maxResults: options.maxResults ?? DEFAULT_PAGE_SIZE, // Limit results for UI performance
+        timeoutMs: 30000   // 30 second timeout
+      };
+      if (options.maxBytesBilled) {
+        queryRequest.maximumBytesBilled = String(options.maxBytesBilled);
+      }
+      if (defaultDataset) queryRequest.defaultDataset = defaultDataset;
+      if (location) queryRequest.location = location;
+
+      // Execute the query
+      logger.debug('query', 'jobs.query', { projectId, location });
+      const response = await callBigQuery<BigQueryQueryResponse>(session, {
+        path: bigQueryPath('projects', projectId, 'queries'),
+        method: 'POST',
+        body: queryRequest,
+      });
+
+      queryResult = response.result;
+
+      if (!queryResult) {
+        throw new Error('No result returned from BigQuery');
       }
+
+      // jobs.query returns early for long-running jobs; keep polling the same job
+      if (queryResult.jobComplete === false) {
+        reference = { projectId, ...queryResult.jobReference };
+        logger.info('query', 'Job not complete yet, polling', { jobId: reference.jobId });
+        queryResult = await pollQueryResults(session, reference, options);
+      }
+    }
+
+    return toQueryResult(queryResult, reference);
+  } catch (error: unknown) {
+    if (error instanceof QueryCancelledError) {
+      await cancelBigQueryJob(session, reference);
+      throw new QueryCancelledError(reference.jobId);
     }
+    if (error instanceof ReauthenticationRequiredError) throw error;
 
-    throw new Error(`BigQuery execution failed: ${errorMessage}`);
+    logger.error('query', 'BigQuery execution failed', { jobId: reference.jobId, error: extractErrorMessage(error) });
+    throw new Error(`BigQuery execution failed: ${extractErrorMessage(error)}`);
   }
 }
 
+interface BigQueryTableReference {
+  projectId?: string;
+  datasetId?: string;
+  tableId?: string;
+}
+
+// The parts of a dry-run job that estimateQuery reads
+interface BigQueryDryRunJob {
+  statistics?: {
+    totalBytesProcessed?: string;
+    query?: { totalBytesProcessed?: string; referencedTables?: BigQueryTableReference[]; statementType?: string };
+  };
+}
+
+// Functions whose results are never cached by BigQuery
+const NON_DETERMINISTIC_SQL =
+  /\b(CURRENT_(DATE|TIME|TIMESTAMP|DATETIME)|SESSION_USER|RAND|GENERATE_UUID|NOW)\s*\(/i;
+
+function isCacheEligible(sql: string, statementType?: string): boolean {
+  if (statementType && statementType !== 'SELECT') return false;
+  return !NON_DETERMINISTIC_SQL.test(sql);
+}
+
 /**
- * Get BigQuery project ID from environment or user session
+ * Dry-run a query (jobs.insert with dryRun: true) to learn its cost before running it.
  */
-function getBigQueryProjectId(_session?: UserSession): string {
-  // Try to get from environment first
-  const envProjectId = import.meta.env.VITE_BIGQUERY_PROJECT_ID;
-  if (envProjectId) {
-    return envProjectId;
+async function dryRunBigQueryQuery(
+  sql: string,
+  session: UserSession,
+  context: ResolvedContext
+): Promise<QueryEstimate> {
+  await initializeBigQueryAPI();
+
+  const { projectId, defaultDataset, location } = context;
+  try {
+    logger.debug('query', 'jobs.insert (dry run)', { projectId, location });
+    const response = await callBigQuery<BigQueryDryRunJob>(session, {
+      path: bigQueryPath('projects', projectId, 'jobs'),
+      method: 'POST',
+      body: {
+        ...(location ? { jobReference: { projectId, location } } : {}),
+        configuration: {
+          dryRun: true,
+          query: {
+            query: sql,
+            useLegacySql: false,
+            useQueryCache: true,
+            ...(defaultDataset ? { defaultDataset } : {}),
+          },
+        },
+      },
+    });
+    const statistics = response.result?.statistics ?? {};
+    const queryStatistics = statistics.query ?? {};
+    const tables: BigQueryTableReference[] = queryStatistics.referencedTables ?? [];
+    const statementType: string | undefined = queryStatistics.statementType;
+
+    return {
+      totalBytesProcessed: Number(
+        statistics.totalBytesProcessed ?? queryStatistics.totalBytesProcessed ?? 0
+      ),
+      referencedTables: tables.map((t) => `${t.projectId}.${t.datasetId}.${t.tableId}`),
+      cacheEligible: isCacheEligible(sql, statementType),
+      statementType,
+    };
+  } catch (error: unknown) {
+    if (error instanceof ReauthenticationRequiredError) throw error;
+    logger.error('query', 'BigQuery dry run failed', { error: extractErrorMessage(error) });
+    throw new Error(`BigQuery dry run failed: ${extractErrorMessage(error)}`);
   }
+}
 
-  // For now, use a default project ID - in production this should be configured
-  // TODO: Allow users to configure their project ID in settings
-  return 'your-bigquery-project-id';
+/**
+ * Estimate the bytes a query would process.
+ * Signed-out sessions get a zero-byte estimate, mirroring executeQuery's local mock.
+ */
+export async function estimateQuery(
+  query: Query | QueryPayload,
+  session?: UserSession
+): Promise<QueryEstimate> {
+  const q = query instanceof Query ? query : Query.fromJSON(query as QueryPayload);
+  q.validate();
+
+  if (session?.hasCredentials()) {
+    return dryRunBigQueryQuery(q.sql, session, resolveQueryContext(session.context));
+  }
+  return {
+    totalBytesProcessed: 0,
+    referencedTables: [],
+    cacheEligible: isCacheEligible(q.sql, isSelect(q.sql) ? 'SELECT' : undefined),
+  };
+}
+
+/**
+ * Fetch another page of an executed query's results with jobs.getQueryResults.
+ * Only the requested page is returned so callers can keep memory bounded.
+ */
+export async function fetchResultsPage(
+  result: Pick<QueryResult, 'jobId' | 'projectId' | 'location'>,
+  session: UserSession | undefined,
+  request: PageRequest = {}
+): Promise<QueryResult> {
+  if (!result.jobId || !result.projectId) {
+    throw new Error('Result has no BigQuery job to page through');
+  }
+  if (!session?.hasCredentials()) {
+    throw new Error('User not authenticated');
+  }
+
+  await initializeBigQueryAPI();
+
+  const reference = { projectId: result.projectId, jobId: result.jobId, location: result.location };
+  const params: Record<string, unknown> = {
+    location: result.location,
+    maxResults: request.maxResults ?? DEFAULT_PAGE_SIZE,
+    timeoutMs: POLL_TIMEOUT_MS,
+  };
+  if (request.startIndex !== undefined) {
+    params.startIndex = String(request.startIndex);
+  } else if (request.pageToken) {
+    params.pageToken = request.pageToken;
+  }
+
+  try {
+    logger.debug('query', 'jobs.getQueryResults (page)', {
+      jobId: result.jobId,
+      startIndex: request.startIndex,
+      pageToken: request.pageToken ?? undefined,
+    });
+    const response = await callBigQuery<BigQueryQueryResponse>(session, {
+      path: bigQueryPath('projects', result.projectId, 'queries', result.jobId),
+      params,
+    });
+    if (request.signal?.aborted) throw new QueryCancelledError(result.jobId);
+    if (!response.result) {
+      throw new Error('No result returned from BigQuery');
+    }
+    return toQueryResult(response.result, reference);
+  } catch (error: unknown) {
+    if (error instanceof QueryCancelledError || error instanceof ReauthenticationRequiredError) throw error;
+    logger.error('query', 'BigQuery page fetch failed', { jobId: result.jobId, error: extractErrorMessage(error) });
+    throw new Error(`BigQuery page fetch failed: ${extractErrorMessage(error)}`);
+  }
+}
+
+// A QueryContext with its billing project settled and the dataset as an API reference
+interface ResolvedContext {
+  projectId: string;
+  defaultDataset?: BigQueryDatasetReference;
+  location?: string;
+}
+
+/**
+ * Billing project, default dataset and location for a session's jobs. The session's
+ * project wins over VITE_BIGQUERY_PROJECT_ID; a dataset without a project prefix lives in
+ * the billing project.
+ */
+function resolveQueryContext(context: QueryContext): ResolvedContext {
+  const projectId = context.projectId || import.meta.env.VITE_BIGQUERY_PROJECT_ID;
+  if (!projectId) throw new NoProjectSelectedError();
+
+  const resolved: ResolvedContext = { projectId };
+  const dataset = context.datasetId?.trim();
+  if (dataset) {
+    const dot = dataset.lastIndexOf('.');
+    resolved.defaultDataset = dot === -1
+      ? { projectId, datasetId: dataset }
+      : { projectId: dataset.slice(0, dot), datasetId: dataset.slice(dot + 1) };
+  }
+  if (context.location) resolved.location = context.location;
+  return resolved;
+}
+
+/**
+ * Add an execution to the history. History is best-effort: a storage failure is logged
+ * and never fails the execution itself.
+ */
+async function recordHistory(
+  q: Query,
+  startedAt: Date,
+  status: HistoryStatus,
+  details: { result?: QueryResult; jobId?: string; error?: string | null }
+) {
+  const endedAt = new Date();
+  const result = details.result;
+  try {
+    await recordExecution({
+      queryId: q.id,
+      queryName: q.name,
+      sql: q.sql,
+      startedAt: startedAt.toISOString(),
+      endedAt: endedAt.toISOString(),
+      durationMs: endedAt.getTime() - startedAt.getTime(),
+      jobId: result?.jobId ?? details.jobId ?? null,
+      bytesProcessed: result?.totalBytesProcessed ?? null,
+      rowCount: result ? (result.totalRows ?? result.rows.length) : null,
+      status,
+      error: details.error ?? null,
+    });
+  } catch (error) {
+    logger.error('query', 'Recording query history failed', { queryId: q.id, error: describeError(error) });
+  }
 }
 
 /**
  * Query execution service with BigQuery API integration.
  * - Validates the Query model
- * - Uses BigQuery API for authenticated sessions
- * - Falls back to mock for unauthenticated sessions or development
- * - Updates query status throughout execution
+ * - Uses BigQuery API for signed-in sessions, refreshing an expired access token first
+ * - Falls back to mock for signed-out sessions or development
+ * - Updates query status throughout execution (cancelled executions end as 'cancelled')
+ * - Records every execution in the history service
  */
 export async function executeQuery(
   query: Query | QueryPayload,
-  session?: UserSession
+  session?: UserSession,
+  options: ExecuteOptions = {}
 ): Promise<QueryResult> {
   // Normalize Query
   const q = query instanceof Query ? query : Query.fromJSON(query as QueryPayload);
   q.validate();
 
-  // Check authentication for BigQuery API
-  const isAuthenticated = session?.isAuthenticated() ?? false;
+  const startedAt = new Date();
+  logger.info('query', 'Executing query', { queryId: q.id, mode: options.mode ?? 'sync' });
+  try {
+    const result = await runQuery(q, session, options);
+    logger.info('query', 'Query completed', {
+      queryId: q.id,
+      jobId: result.jobId,
+      durationMs: Date.now() - startedAt.getTime(),
+      totalRows: result.totalRows,
+      totalBytesProcessed: result.totalBytesProcessed,
+    });
+    await recordHistory(q, startedAt, 'completed', { result });
+    return result;
+  } catch (err: unknown) {
+    const durationMs = Date.now() - startedAt.getTime();
+    if (err instanceof QueryCancelledError) {
+      logger.warn('query', 'Query cancelled', { queryId: q.id, jobId: err.jobId, durationMs });
+      await recordHistory(q, startedAt, 'cancelled', { jobId: err.jobId, error: err.message });
+    } else {
+      logger.error('query', 'Query failed', { queryId: q.id, durationMs, error: q.lastError });
+      await recordHistory(q, startedAt, 'failed', { error: q.lastError });
+    }
+    throw err;
+  }
+}
+
+async function runQuery(q: Query, session: UserSession | undefined, options: ExecuteOptions): Promise<QueryResult> {
+  // Signed-in sessions always go to BigQuery; an expired token is refreshed there (or the
+  // user is asked to sign in again) rather than quietly answered by the mock
+  const signedIn = session?.hasCredentials() ?? false;
 
   q.status = 'running';
   q.updatedAt = new Date();
 
   try {
     // Use BigQuery API if authenticated, otherwise use mock
-    if (isAuthenticated && session) {
-      const projectId = getBigQueryProjectId(session);
-      const result = await executeBigQueryQuery(q.sql, projectId, session);
+    if (signedIn && session) {
+      const context = resolveQueryContext(session.context);
+
+      // Enforce the max-bytes-billed guard before spending anything
+      if (options.maxBytesBilled) {
+        const estimate = await dryRunBigQueryQuery(q.sql, session, context);
+        if (estimate.totalBytesProcessed > options.maxBytesBilled) {
+          throw new BytesLimitExceededError(estimate, options.maxBytesBilled);
+        }
+      }
+
+      const result = await executeBigQueryQuery(q.sql, session, context, options);
 
       q.status = 'completed';
       q.updatedAt = new Date();
@@ -231,16 +725,16 @@ export async function executeQuery(
       return result;
     } else {
       // Fallback to mock implementation for development/unauthenticated users
-      console.log('Using mock implementation - user not authenticated or session missing');
+      logger.info('query', 'Using mock implementation - user signed out or session missing');
 
       // Simulate execution delay
-      await new Promise((res) => setTimeout(res, 100));
+      await sleep(100, options.signal);
 
       // For non-SELECT statements we return an empty result set but mark completed
       if (!isSelect(q.sql)) {
         q.status = 'completed';
         q.updatedAt = new Date();
-        return { jobId: `local-${q.id}`, rows: [], schema: [] };
+        return { jobId: `local-${q.id}`, rows: [], schema: [], totalRows: 0, pageToken: null };
       }
 
       // Very small SQL heuristics to produce mock rows
@@ -249,16 +743,33 @@ export async function executeQuery(
         const rows = Array.from({ length: 3 }, (_, i) => ({ n: i + 1 }));
         q.status = 'completed';
         q.updatedAt = new Date();
-        return { jobId: `local-${q.id}`, rows, schema: fakeSchemaFromRows(rows) };
+        return {
+          jobId: `local-${q.id}`,
+          rows,
+          schema: fakeSchemaFromRows(rows),
+          totalRows: rows.length,
+          pageToken: null,
+        };
       }
 
       // default mock: single row with raw_sql field
       const rows = [{ raw_sql: q.sql.trim(), ranAt: new Date().toISOString() }];
       q.status = 'completed';
       q.updatedAt = new Date();
-      return { jobId: `local-${q.id}`, rows, schema: fakeSchemaFromRows(rows) };
+      return {
+        jobId: `local-${q.id}`,
+        rows,
+        schema: fakeSchemaFromRows(rows),
+        totalRows: rows.length,
+        pageToken: null,
+      };
     }
   } catch (err: unknown) {
+    if (err instanceof QueryCancelledError) {
+      q.status = 'cancelled';
+      q.updatedAt = new Date();
+      throw err;
+    }
     const message =
       err && typeof err === 'object' && 'message' in err
         ? (err as { message?: unknown }).message
@@ -270,4 +781,4 @@ export async function executeQuery(
   }
 }
 
-export default { executeQuery };
+export default { executeQuery, estimateQuery, fetchResultsPage };
@@ -0,0 +1,172 @@
+import Query from '../models/Query';
+import type { QueryPayload } from '../models/Query';
+
+/**
+ * Saved-query library.
+ * - queries are stored as Query.toJSON() payloads
+ * - the storage backend sits behind an async SavedQueryStore so an IndexedDB store can
+ *   replace the localStorage one without changing callers
+ */
+
+export interface SavedQueryStore {
+  load(): Promise<QueryPayload[]>;
+  persist(payloads: QueryPayload[]): Promise<void>;
+}
+
+const STORAGE_KEY = 'smolquery.savedQueries';
+
+export const localStorageStore: SavedQueryStore = {
+  async load() {
+    try {
+      const raw = globalThis.localStorage.getItem(STORAGE_KEY);
+      if (!raw) return [];
+      const parsed = JSON.parse(raw);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  },
+  async persist(payloads) {
+    globalThis.localStorage.setItem(STORAGE_KEY, JSON.stringify(payloads));
+  },
+};
+
+let store: SavedQueryStore = localStorageStore;
+
+/**
+ * Swap the storage backend (e.g. for IndexedDB, or an in-memory store in tests)
+ */
+export function setSavedQueryStore(next: SavedQueryStore) {
+  store = next;
+}
+
+function newId(): string {
+  return `saved-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+async function loadAll(): Promise<Query[]> {
+  const queries: Query[] = [];
+  for (const payload of await store.load()) {
+    try {
+      queries.push(Query.fromJSON(payload));
+    } catch {
+      // skip entries that are not valid Query payloads
+    }
+  }
+  return queries;
+}
+
+async function persistAll(queries: Query[]) {
+  try {
+    await store.persist(queries.map((q) => q.toJSON()));
+  } catch (error) {
+    console.error('Saving queries failed:', error);
+    throw new Error(`Failed to save queries: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function requireQuery(queries: Query[], id: string): Query {
+  const query = queries.find((q) => q.id === id);
+  if (!query) throw new Error(`Saved query not found: ${id}`);
+  return query;
+}
+
+/**
+ * All saved queries, most recently updated first
+ */
+export async function listSavedQueries(): Promise<Query[]> {
+  const queries = await loadAll();
+  return queries.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+}
+
+/**
+ * Saved queries whose name or SQL contains every word of `term` (case-insensitive)
+ */
+export async function searchSavedQueries(term: string): Promise<Query[]> {
+  const words = term.toLowerCase().split(/\s+/).filter(Boolean);
+  const queries = await listSavedQueries();
+  if (words.length === 0) return queries;
+  return queries.filter((q) => {
+    const haystack = `${q.name ?? ''}\n${q.sql}`.toLowerCase();
+    return words.every((word) => haystack.includes(word));
+  });
+}
+
+export async function getSavedQuery(id: string): Promise<Query | null> {
+  const queries = await loadAll();
+  return queries.find((q) => q.id === id) ?? null;
+}
+
+/**
+ * Create a saved query from editor text
+ */
+export async function createSavedQuery(sql: string, name?: string): Promise<Query> {
+  const queries = await loadAll();
+  const query = new Query({ id: newId(), sql, name: name?.trim() || 'Untitled query' });
+  query.validate();
+  queries.push(query);
+  await persistAll(queries);
+  return query;
+}
+
+/**
+ * Insert or update a saved query; run state (status, lastError) is not kept
+ */
+export async function saveQuery(query: Query): Promise<Query> {
+  const queries = await loadAll();
+  const saved = query.clone({ status: 'draft', lastError: null, updatedAt: new Date().toISOString() });
+  saved.validate();
+  const index = queries.findIndex((q) => q.id === saved.id);
+  if (index >= 0) {
+    queries[index] = saved;
+  } else {
+    queries.push(saved);
+  }
+  await persistAll(queries);
+  return saved;
+}
+
+export async function renameSavedQuery(id: string, name: string): Promise<Query> {
+  const queries = await loadAll();
+  const query = requireQuery(queries, id);
+  query.name = name.trim() || query.name;
+  query.updatedAt = new Date();
+  await persistAll(queries);
+  return query;
+}
+
+/**
+ * Copy a saved query under a new id, named "<name> (copy)"
+ */
+export async function duplicateSavedQuery(id: string): Promise<Query> {
+  const queries = await loadAll();
+  const original = requireQuery(queries, id);
+  const now = new Date().toISOString();
+  const copy = original.clone({
+    id: newId(),
+    name: `${original.name ?? 'Untitled query'} (copy)`,
+    createdAt: now,
+    updatedAt: now,
+  });
+  queries.push(copy);
+  await persistAll(queries);
+  return copy;
+}
+
+export async function deleteSavedQuery(id: string): Promise<void> {
+  const queries = await loadAll();
+  await persistAll(queries.filter((q) => q.id !== id));
+}
+
+export const savedQueryService = {
+  listSavedQueries,
+  searchSavedQueries,
+  getSavedQuery,
+  createSavedQuery,
+  saveQuery,
+  renameSavedQuery,
+  duplicateSavedQuery,
+  deleteSavedQuery,
+};
+
+export default savedQueryService;
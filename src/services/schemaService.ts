@@ -0,0 +1,323 @@
+import type UserSession from '../models/UserSession';
+import type { BigQueryField, ResultField } from './bigqueryDecoder';
+import { bigQueryPath, callBigQuery, initializeBigQueryAPI } from './queryService';
+import { ReauthenticationRequiredError, subscribeToSession } from './authService';
+
+/**
+ * Schema browser service backed by the BigQuery API.
+ * - listProjects / listDatasets / listTables page through the list endpoints
+ * - getTable loads a table's fields lazily through tables.get
+ * - every response is cached per account so reopening the browser costs nothing; tokens
+ *   are refreshed in place, so the cache outlives them, and signing out drops it
+ */
+
+export interface SchemaProject {
+  id: string;
+  name?: string;
+}
+
+export interface SchemaDataset {
+  projectId: string;
+  datasetId: string;
+  location?: string;
+}
+
+export interface SchemaTable {
+  projectId: string;
+  datasetId: string;
+  tableId: string;
+  // TABLE, VIEW, MATERIALIZED_VIEW, EXTERNAL, SNAPSHOT
+  type?: string;
+}
+
+export interface SchemaField extends ResultField {
+  description?: string;
+  fields?: SchemaField[];
+}
+
+export interface TablePartitioning {
+  // DAY/HOUR/MONTH/YEAR for time partitioning, RANGE for integer-range partitioning
+  type: string;
+  // null means ingestion-time partitioning
+  field: string | null;
+  expirationMs?: number;
+}
+
+export interface TableDetails extends SchemaTable {
+  description?: string;
+  fields: SchemaField[];
+  partitioning: TablePartitioning | null;
+  clustering: string[];
+  numRows?: number;
+  numBytes?: number;
+}
+
+interface SchemaCache {
+  projects?: SchemaProject[];
+  datasets: Map<string, SchemaDataset[]>;
+  tables: Map<string, SchemaTable[]>;
+  details: Map<string, TableDetails>;
+}
+
+// Keyed by UserSession.accountId
+const caches = new Map<string, SchemaCache>();
+
+subscribeToSession((event) => {
+  if (event.type === 'signedOut') caches.delete(event.accountId);
+});
+
+function cacheFor(session: UserSession): SchemaCache {
+  const key = session.accountId;
+  let cache = caches.get(key);
+  if (!cache) {
+    cache = { datasets: new Map(), tables: new Map(), details: new Map() };
+    caches.set(key, cache);
+  }
+  return cache;
+}
+
+export function tableKey(table: Pick<SchemaTable, 'projectId' | 'datasetId' | 'tableId'>): string {
+  return `${table.projectId}.${table.datasetId}.${table.tableId}`;
+}
+
+function datasetKey(projectId: string, datasetId: string): string {
+  return `${projectId}.${datasetId}`;
+}
+
+function requireSession(session?: UserSession | null): UserSession {
+  if (!session?.hasCredentials()) {
+    throw new Error('User not authenticated');
+  }
+  return session;
+}
+
+function apiErrorMessage(error: unknown): string {
+  if (error && typeof error === 'object') {
+    const result = (error as { result?: { error?: { message?: string } } }).result;
+    if (result?.error?.message) return result.error.message;
+    if ('message' in error) return String((error as { message: unknown }).message);
+  }
+  return String(error);
+}
+
+/**
+ * Call a BigQuery list endpoint until there is no next page token
+ */
+async function listAll<T>(
+  call: (pageToken?: string) => Promise<{ result?: Record<string, unknown> }>,
+  itemsKey: string,
+  what: string
+): Promise<T[]> {
+  const items: T[] = [];
+  let pageToken: string | undefined;
+  try {
+    do {
+      const response = await call(pageToken);
+      const result = response.result ?? {};
+      items.push(...((result[itemsKey] as T[] | undefined) ?? []));
+      pageToken = result.nextPageToken as string | undefined;
+    } while (pageToken);
+  } catch (error) {
+    if (error instanceof ReauthenticationRequiredError) throw error;
+    console.error(`Listing ${what} failed:`, error);
+    throw new Error(`Failed to list ${what}: ${apiErrorMessage(error)}`);
+  }
+  return items;
+}
+
+function convertFields(fields: BigQueryField[] = []): SchemaField[] {
+  return fields.map((field) => {
+    const converted: SchemaField = {
+      name: field.name || 'unknown',
+      type: field.type || 'unknown',
+    };
+    if (field.mode) converted.mode = field.mode;
+    if (field.description) converted.description = field.description;
+    if (field.fields?.length) converted.fields = convertFields(field.fields);
+    return converted;
+  });
+}
+
+interface BigQueryTableResource {
+  tableReference?: { projectId?: string; datasetId?: string; tableId?: string };
+  type?: string;
+  description?: string;
+  schema?: { fields?: BigQueryField[] };
+  timePartitioning?: { type?: string; field?: string; expirationMs?: string };
+  rangePartitioning?: { field?: string };
+  clustering?: { fields?: string[] };
+  numRows?: string;
+  numBytes?: string;
+}
+
+function convertPartitioning(table: BigQueryTableResource): TablePartitioning | null {
+  if (table.timePartitioning) {
+    const partitioning: TablePartitioning = {
+      type: table.timePartitioning.type || 'DAY',
+      field: table.timePartitioning.field ?? null,
+    };
+    if (table.timePartitioning.expirationMs) {
+      partitioning.expirationMs = Number(table.timePartitioning.expirationMs);
+    }
+    return partitioning;
+  }
+  if (table.rangePartitioning) {
+    return { type: 'RANGE', field: table.rangePartitioning.field ?? null };
+  }
+  return null;
+}
+
+export async function listProjects(session?: UserSession | null): Promise<SchemaProject[]> {
+  const s = requireSession(session);
+  const cache = cacheFor(s);
+  if (cache.projects) return cache.projects;
+  await initializeBigQueryAPI();
+
+  const projects = await listAll<{ id?: string; projectReference?: { projectId?: string }; friendlyName?: string }>(
+    (pageToken) => callBigQuery(s, { path: 'projects', params: { pageToken } }),
+    'projects',
+    'projects'
+  );
+  cache.projects = projects.map((p) => ({
+    id: p.projectReference?.projectId ?? p.id ?? 'unknown',
+    name: p.friendlyName,
+  }));
+  return cache.projects;
+}
+
+export async function listDatasets(
+  session: UserSession | null | undefined,
+  projectId: string
+): Promise<SchemaDataset[]> {
+  const s = requireSession(session);
+  const cache = cacheFor(s);
+  const cached = cache.datasets.get(projectId);
+  if (cached) return cached;
+  await initializeBigQueryAPI();
+
+  const datasets = await listAll<{ datasetReference?: { datasetId?: string }; location?: string }>(
+    (pageToken) => callBigQuery(s, { path: bigQueryPath('projects', projectId, 'datasets'), params: { pageToken } }),
+    'datasets',
+    `datasets in ${projectId}`
+  );
+  const converted = datasets.map((d) => ({
+    projectId,
+    datasetId: d.datasetReference?.datasetId ?? 'unknown',
+    location: d.location,
+  }));
+  cache.datasets.set(projectId, converted);
+  return converted;
+}
+
+export async function listTables(
+  session: UserSession | null | undefined,
+  projectId: string,
+  datasetId: string
+): Promise<SchemaTable[]> {
+  const s = requireSession(session);
+  const cache = cacheFor(s);
+  const key = datasetKey(projectId, datasetId);
+  const cached = cache.tables.get(key);
+  if (cached) return cached;
+  await initializeBigQueryAPI();
+
+  const tables = await listAll<BigQueryTableResource>(
+    (pageToken) => callBigQuery(s, {
+      path: bigQueryPath('projects', projectId, 'datasets', datasetId, 'tables'),
+      params: { pageToken },
+    }),
+    'tables',
+    `tables in ${key}`
+  );
+  const converted = tables.map((t) => ({
+    projectId,
+    datasetId,
+    tableId: t.tableReference?.tableId ?? 'unknown',
+    type: t.type,
+  }));
+  cache.tables.set(key, converted);
+  return converted;
+}
+
+/**
+ * Load a table's fields (including nested RECORD fields), partitioning and clustering
+ */
+export async function getTable(
+  session: UserSession | null | undefined,
+  projectId: string,
+  datasetId: string,
+  tableId: string
+): Promise<TableDetails> {
+  const s = requireSession(session);
+  const cache = cacheFor(s);
+  const key = tableKey({ projectId, datasetId, tableId });
+  const cached = cache.details.get(key);
+  if (cached) return cached;
+  await initializeBigQueryAPI();
+
+  let table: BigQueryTableResource;
+  try {
+    const response = await callBigQuery<BigQueryTableResource>(s, {
+      path: bigQueryPath('projects', projectId, 'datasets', datasetId, 'tables', tableId),
+    });
+    table = response.result ?? {};
+  } catch (error) {
+    if (error instanceof ReauthenticationRequiredError) throw error;
+    console.error('Loading table failed:', error);
+    throw new Error(`Failed to load table ${key}: ${apiErrorMessage(error)}`);
+  }
+
+  const details: TableDetails = {
+    projectId,
+    datasetId,
+    tableId,
+    type: table.type,
+    description: table.description,
+    fields: convertFields(table.schema?.fields),
+    partitioning: convertPartitioning(table),
+    clustering: table.clustering?.fields ?? [],
+    numRows: table.numRows !== undefined ? Number(table.numRows) : undefined,
+    numBytes: table.numBytes !== undefined ? Number(table.numBytes) : undefined,
+  };
+  cache.details.set(key, details);
+  return details;
+}
+
+/**
+ * Synchronous view of what has been loaded so far for a session; used by the editor
+ * to offer names without triggering API calls.
+ */
+export function getCachedSchema(session?: UserSession | null): {
+  tables: SchemaTable[];
+  details: TableDetails[];
+} {
+  if (!session) return { tables: [], details: [] };
+  const cache = caches.get(session.accountId);
+  if (!cache) return { tables: [], details: [] };
+  return {
+    tables: Array.from(cache.tables.values()).flat(),
+    details: Array.from(cache.details.values()),
+  };
+}
+
+/**
+ * Drop cached schema data for one account, or for every account
+ */
+export function clearSchemaCache(session?: UserSession | null) {
+  if (session) {
+    caches.delete(session.accountId);
+  } else {
+    caches.clear();
+  }
+}
+
+export const schemaService = {
+  listProjects,
+  listDatasets,
+  listTables,
+  getTable,
+  getCachedSchema,
+  clearSchemaCache,
+};
+
+export default schemaService;
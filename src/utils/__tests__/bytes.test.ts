@@ -0,0 +1,17 @@
+import { describe, it, expect } from 'vitest';
+import { formatBytes, GIGABYTE } from '../bytes';
+
+describe('formatBytes', () => {
+  it('formats sizes with binary units', () => {
+    expect(formatBytes(0)).toBe('0 B');
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(1536)).toBe('1.5 KB');
+    expect(formatBytes(4.2 * GIGABYTE)).toBe('4.2 GB');
+    expect(formatBytes(250 * 1024 ** 4)).toBe('250 TB');
+  });
+
+  it('treats invalid sizes as zero', () => {
+    expect(formatBytes(-1)).toBe('0 B');
+    expect(formatBytes(Number.NaN)).toBe('0 B');
+  });
+});
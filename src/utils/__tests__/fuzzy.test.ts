@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { fuzzyMatch } from '../fuzzy';
+
+describe('fuzzyMatch', () => {
+  it('matches characters in order, ignoring case and spaces', () => {
+    expect(fuzzyMatch('exq', 'Execute Query')?.indices).toEqual([0, 1, 8]);
+    expect(fuzzyMatch('run q', 'Run Query')).not.toBeNull();
+    expect(fuzzyMatch('qx', 'Execute Query')).toBeNull();
+  });
+
+  it('matches everything with an empty query', () => {
+    expect(fuzzyMatch('', 'anything')).toEqual({ score: 0, indices: [] });
+  });
+
+  it('prefers word starts', () => {
+    expect(fuzzyMatch('sq', 'Toggle Saved Queries')?.indices).toEqual([7, 13]);
+    expect(fuzzyMatch('tr', 'toggleResults')?.indices).toEqual([0, 6]);
+  });
+
+  it('falls back to the leftmost match when word starts lead nowhere', () => {
+    expect(fuzzyMatch('abc', 'abc Bx')?.indices).toEqual([0, 1, 2]);
+  });
+
+  it('scores consecutive and word-start matches higher', () => {
+    const consecutive = fuzzyMatch('abc', 'xabcx')!.score;
+    const scattered = fuzzyMatch('abc', 'xaxbxcx')!.score;
+    expect(consecutive).toBeGreaterThan(scattered);
+    expect(fuzzyMatch('res', 'Toggle Results')!.score).toBeGreaterThan(fuzzyMatch('res', 'Cancel Queries')!.score);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { bindingFromEvent, formatBinding, normalizeBinding } from '../keybinding';
+
+const key = (init: KeyboardEventInit) => new KeyboardEvent('keydown', init);
+
+describe('keybinding', () => {
+  describe('normalizeBinding', () => {
+    it('orders modifiers and upper-cases keys', () => {
+      expect(normalizeBinding('shift+mod+e')).toBe('Mod+Shift+E');
+      expect(normalizeBinding('Alt + pagedown')).toBe('Alt+PageDown');
+      expect(normalizeBinding('esc')).toBe('Escape');
+      expect(normalizeBinding('Mod++')).toBe('Mod++');
+    });
+
+    it('maps Ctrl and Cmd to Mod on the matching platform', () => {
+      expect(normalizeBinding('Ctrl+E', false)).toBe('Mod+E');
+      expect(normalizeBinding('Cmd+E', false)).toBe('Meta+E');
+      expect(normalizeBinding('Cmd+E', true)).toBe('Mod+E');
+      expect(normalizeBinding('Ctrl+E', true)).toBe('Ctrl+E');
+      expect(normalizeBinding('Option+Shift+F', true)).toBe('Alt+Shift+F');
+    });
+
+    it('rejects invalid bindings', () => {
+      expect(normalizeBinding('')).toBeNull();
+      expect(normalizeBinding('Ctrl+Shift')).toBeNull();
+      expect(normalizeBinding('Hyper+E')).toBeNull();
+      expect(normalizeBinding('Alt+Alt+E')).toBeNull();
+    });
+  });
+
+  describe('bindingFromEvent', () => {
+    it('uses Ctrl as Mod outside macOS and Cmd on macOS', () => {
+      expect(bindingFromEvent(key({ key: 'e', ctrlKey: true }), false)).toBe('Mod+E');
+      expect(bindingFromEvent(key({ key: 'e', metaKey: true }), true)).toBe('Mod+E');
+      expect(bindingFromEvent(key({ key: 'e', ctrlKey: true }), true)).toBe('Ctrl+E');
+    });
+
+    it('prefers the physical key over the produced character', () => {
+      expect(bindingFromEvent(key({ key: '†', code: 'KeyT', altKey: true }), true)).toBe('Alt+T');
+      expect(bindingFromEvent(key({ key: '?', code: 'Slash', ctrlKey: true, shiftKey: true }), false)).toBe('Mod+Shift+/');
+      expect(bindingFromEvent(key({ key: '!', code: 'Digit1', shiftKey: true }), false)).toBe('Shift+1');
+    });
+
+    it('ignores modifier-only presses', () => {
+      expect(bindingFromEvent(key({ key: 'Control', ctrlKey: true }), false)).toBeNull();
+      expect(bindingFromEvent(key({ key: 'Shift', shiftKey: true }), false)).toBeNull();
+    });
+
+    it('matches normalized bindings', () => {
+      expect(bindingFromEvent(key({ key: 'PageDown', code: 'PageDown', altKey: true }), false)).toBe(
+        normalizeBinding('alt+pagedown', false)
+      );
+      expect(bindingFromEvent(key({ key: 'Escape' }), false)).toBe('Escape');
+    });
+  });
+
+  it('formats bindings with platform modifier names', () => {
+    expect(formatBinding('Mod+Shift+E', false)).toBe('Ctrl+Shift+E');
+    expect(formatBinding('Mod+Alt+E', true)).toBe('Cmd+Option+E');
+    expect(formatBinding('Mod++', false)).toBe('Ctrl++');
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { diffLines } from '../lineDiff';
+
+describe('diffLines', () => {
+  it('marks unchanged, removed and added lines in order', () => {
+    const before = 'SELECT\n  a\nFROM t\nWHERE x = 1';
+    const after = 'SELECT\n  a,\n  b\nFROM t\nWHERE x = 1';
+
+    expect(diffLines(before, after)).toEqual([
+      { type: 'same', text: 'SELECT' },
+      { type: 'removed', text: '  a' },
+      { type: 'added', text: '  a,' },
+      { type: 'added', text: '  b' },
+      { type: 'same', text: 'FROM t' },
+      { type: 'same', text: 'WHERE x = 1' },
+    ]);
+  });
+
+  it('handles identical and disjoint text', () => {
+    expect(diffLines('SELECT 1', 'SELECT 1')).toEqual([{ type: 'same', text: 'SELECT 1' }]);
+    expect(diffLines('a', 'b')).toEqual([
+      { type: 'removed', text: 'a' },
+      { type: 'added', text: 'b' },
+    ]);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeType,
+  flattenColumns,
+  formatCell,
+  getColumnValue,
+  isNumericType,
+  NULL_DISPLAY,
+} from '../resultFormat';
+
+describe('resultFormat', () => {
+  it('recognizes numeric BigQuery and mock types', () => {
+    expect(isNumericType('INT64')).toBe(true);
+    expect(isNumericType('numeric')).toBe(true);
+    expect(isNumericType('number')).toBe(true);
+    expect(isNumericType('STRING')).toBe(false);
+    expect(isNumericType(undefined)).toBe(false);
+  });
+
+  it('formats NULL and undefined distinctly', () => {
+    expect(formatCell(null, 'STRING')).toBe(NULL_DISPLAY);
+    expect(formatCell(undefined, 'INT64')).toBe(NULL_DISPLAY);
+  });
+
+  it('localizes TIMESTAMP values and keeps unparseable ones', () => {
+    const iso = '2024-05-01T12:00:00.000Z';
+    expect(formatCell(iso, 'TIMESTAMP')).toBe(new Date(iso).toLocaleString());
+    expect(formatCell('not a date', 'TIMESTAMP')).toBe('not a date');
+  });
+
+  it('JSON-encodes nested values', () => {
+    expect(formatCell({ a: 1 }, 'RECORD')).toBe('{"a":1}');
+    expect(formatCell([1, 2], 'INT64')).toBe('[1,2]');
+  });
+
+  it('stringifies scalars', () => {
+    expect(formatCell(42, 'INT64')).toBe('42');
+    expect(formatCell(false, 'BOOL')).toBe('false');
+  });
+
+  it('keeps 64-bit integers exact when encoding nested values', () => {
+    expect(formatCell(9223372036854775807n, 'INT64')).toBe('9223372036854775807');
+    expect(formatCell({ big: 9223372036854775807n }, 'RECORD')).toBe('{"big":"9223372036854775807"}');
+  });
+
+  describe('nested columns', () => {
+    const schema = [
+      { name: 'id', type: 'INT64' },
+      {
+        name: 'address',
+        type: 'RECORD',
+        fields: [
+          { name: 'city', type: 'STRING' },
+          { name: 'geo', type: 'RECORD', fields: [{ name: 'lat', type: 'FLOAT64' }] },
+        ],
+      },
+      { name: 'tags', type: 'STRING', mode: 'REPEATED' },
+      { name: 'items', type: 'RECORD', mode: 'REPEATED', fields: [{ name: 'sku', type: 'STRING' }] },
+    ];
+
+    it('expands non-repeated records into dotted columns', () => {
+      expect(flattenColumns(schema).map((c) => [c.key, c.type, c.repeated])).toEqual([
+        ['id', 'INT64', false],
+        ['address.city', 'STRING', false],
+        ['address.geo.lat', 'FLOAT64', false],
+        ['tags', 'STRING', true],
+        ['items', 'RECORD', true],
+      ]);
+    });
+
+    it('reads nested values by path', () => {
+      const row = { address: { city: 'Oslo', geo: null } };
+      expect(getColumnValue(row, ['address', 'city'])).toBe('Oslo');
+      expect(getColumnValue(row, ['address', 'geo', 'lat'])).toBeNull();
+    });
+
+    it('describes nested types in GoogleSQL syntax', () => {
+      expect(describeType(schema[1])).toBe('STRUCT<city STRING, geo STRUCT<lat FLOAT64>>');
+      expect(describeType(schema[3])).toBe('ARRAY<STRUCT<sku STRING>>');
+      expect(describeType(schema[2])).toBe('ARRAY<STRING>');
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { flattenColumns } from '../resultFormat';
+import {
+  compareValues,
+  describeFilter,
+  filterRows,
+  matchesFilter,
+  profileColumn,
+  sortRows,
+} from '../resultTransform';
+
+const [id, name, price, active, day, tags] = flattenColumns([
+  { name: 'id', type: 'INT64' },
+  { name: 'name', type: 'STRING' },
+  { name: 'price', type: 'NUMERIC' },
+  { name: 'active', type: 'BOOL' },
+  { name: 'day', type: 'DATE' },
+  { name: 'tags', type: 'STRING', mode: 'REPEATED' },
+]);
+const columns = [id, name, price, active, day, tags];
+
+const rows = [
+  { id: 3, name: 'carrot', price: '1.50', active: true, day: '2024-01-03', tags: ['veg'] },
+  { id: 9007199254740993n, name: 'Apple', price: '10', active: false, day: '2024-01-01', tags: [] },
+  { id: 1, name: null, price: null, active: null, day: null, tags: ['a', 'b'] },
+  { id: 2, name: 'banana', price: '2', active: true, day: '2024-01-02', tags: ['fruit'] },
+];
+
+const values = <T extends Record<string, unknown>>(list: T[], key: string) => list.map((row) => row[key]);
+
+describe('resultTransform', () => {
+  it('orders NULL first and numbers by value', () => {
+    expect(compareValues(null, 0, id)).toBeLessThan(0);
+    expect(compareValues(9007199254740993n, 9007199254740992, id)).toBeGreaterThan(0);
+    expect(compareValues('10', '9.5', price)).toBeGreaterThan(0);
+    expect(compareValues(NaN, -Infinity, id)).toBeLessThan(0);
+    expect(compareValues(false, true, active)).toBeLessThan(0);
+  });
+
+  it('sorts rows stably in both directions', () => {
+    expect(values(sortRows(rows, id, 'asc'), 'id')).toEqual([1, 2, 3, 9007199254740993n]);
+    expect(values(sortRows(rows, price, 'desc'), 'price')).toEqual(['10', '2', '1.50', null]);
+    // strings compare by code point, so capitals sort first
+    expect(values(sortRows(rows, name, 'asc'), 'name')).toEqual([null, 'Apple', 'banana', 'carrot']);
+    expect(values(sortRows(rows, active, 'asc'), 'id')).toEqual([1, 9007199254740993n, 3, 2]);
+  });
+
+  it('matches quick filters', () => {
+    expect(matchesFilter('Banana', { kind: 'contains', text: 'NAN' }, name)).toBe(true);
+    expect(matchesFilter(null, { kind: 'contains', text: '' }, name)).toBe(false);
+    expect(matchesFilter('2.0', { kind: 'equals', text: '2' }, price)).toBe(true);
+    expect(matchesFilter(2, { kind: 'equals', text: '' }, id)).toBe(false);
+    expect(matchesFilter(true, { kind: 'equals', text: 'TRUE' }, active)).toBe(true);
+    expect(matchesFilter(['a', 'b'], { kind: 'contains', text: '"b"' }, tags)).toBe(true);
+    expect(matchesFilter(null, { kind: 'null' }, name)).toBe(true);
+    expect(matchesFilter('x', { kind: 'notNull' }, name)).toBe(true);
+  });
+
+  it('filters by inclusive ranges with open bounds', () => {
+    const range = (min: string, max: string) => ({ kind: 'range' as const, min, max });
+    expect(values(filterRows(rows, columns, { id: range('2', '3') }), 'id')).toEqual([3, 2]);
+    expect(values(filterRows(rows, columns, { day: range('2024-01-02', '') }), 'day')).toEqual(['2024-01-03', '2024-01-02']);
+    expect(values(filterRows(rows, columns, { price: range('', '2') }), 'price')).toEqual(['1.50', '2']);
+  });
+
+  it('combines filters on several columns and ignores unknown ones', () => {
+    const filtered = filterRows(rows, columns, {
+      active: { kind: 'equals', text: 'true' },
+      name: { kind: 'contains', text: 'an' },
+      missing: { kind: 'null' },
+    });
+    expect(values(filtered, 'name')).toEqual(['banana']);
+    expect(filterRows(rows, columns, {})).toBe(rows);
+  });
+
+  it('describes filters', () => {
+    expect(describeFilter({ kind: 'contains', text: 'ab' })).toBe('contains "ab"');
+    expect(describeFilter({ kind: 'range', min: '1', max: ' ' })).toBe('≥ 1');
+    expect(describeFilter({ kind: 'range', min: '1', max: '5' })).toBe('≥ 1 and ≤ 5');
+    expect(describeFilter({ kind: 'notNull' })).toBe('is not NULL');
+  });
+
+  it('profiles numeric columns with an equal-width histogram', () => {
+    const data = Array.from({ length: 100 }, (_, i) => ({ n: i % 10 === 0 ? null : i }));
+    const [n] = flattenColumns([{ name: 'n', type: 'INT64' }]);
+    const profile = profileColumn(data, n);
+
+    expect(profile).toMatchObject({ count: 100, nullCount: 10, nullRatio: 0.1, distinctCount: 90, min: 1, max: 99 });
+    expect(profile.histogram).toHaveLength(10);
+    expect(profile.histogram[0]).toEqual({ label: '1 – 10.8', count: 9 });
+    expect(profile.histogram.reduce((sum, bin) => sum + bin.count, 0)).toBe(90);
+  });
+
+  it('profiles dates by day and text by most frequent values', () => {
+    const dayProfile = profileColumn(rows, day);
+    expect(dayProfile.min).toBe('2024-01-01');
+    expect(dayProfile.max).toBe('2024-01-03');
+    // two days in ten bins, so the bounds show times
+    expect(dayProfile.histogram[0]).toEqual({ label: '2024-01-01 00:00 – 2024-01-01 04:48', count: 1 });
+    expect(dayProfile.histogram[9].count).toBe(1);
+
+    const words = ['a', 'b', 'a', 'c', 'd', 'e', 'f', 'a', 'b'].map((w) => ({ name: w }));
+    const textProfile = profileColumn(words, name);
+    expect(textProfile.distinctCount).toBe(6);
+    expect(textProfile.histogram).toEqual([
+      { label: 'a', count: 3 },
+      { label: 'b', count: 2 },
+      { label: 'c', count: 1 },
+      { label: 'd', count: 1 },
+      { label: 'e', count: 1 },
+      { label: 'Other', count: 1 },
+    ]);
+  });
+
+  it('profiles an empty column', () => {
+    expect(profileColumn([], id)).toEqual({
+      count: 0,
+      nullCount: 0,
+      nullRatio: 0,
+      distinctCount: 0,
+      min: null,
+      max: null,
+      histogram: [],
+    });
+  });
+});
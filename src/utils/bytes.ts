@@ -0,0 +1,16 @@
+/**
+ * Byte-size helpers for dry-run estimates and the max-bytes-billed guard.
+ * Sizes use binary (1024) multiples with the short labels the BigQuery console shows.
+ */
+
+const UNITS = ['B', 'KB', 'MB', 'GB', 'TB', 'PB'];
+
+export const GIGABYTE = 1024 ** 3;
+
+export function formatBytes(bytes: number): string {
+  if (!Number.isFinite(bytes) || bytes <= 0) return '0 B';
+  const exponent = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), UNITS.length - 1);
+  const value = bytes / 1024 ** exponent;
+  const digits = exponent === 0 || value >= 100 ? 0 : 1;
+  return `${value.toFixed(digits)} ${UNITS[exponent]}`;
+}
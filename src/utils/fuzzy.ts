@@ -0,0 +1,64 @@
+/**
+ * Fuzzy matching for the command palette.
+ * The query's characters must appear in order in the text (case-insensitive); matches
+ * score higher when they are consecutive, start a word or start the text.
+ */
+
+export interface FuzzyMatch {
+  score: number;
+  // positions in the text of the matched characters, for highlighting
+  indices: number[];
+}
+
+const WORD_SEPARATOR = /[\s\-_.:/]/;
+
+function isWordStart(text: string, index: number): boolean {
+  if (index === 0) return true;
+  const previous = text[index - 1];
+  // camelCase humps count as word starts too
+  const hump = previous === previous.toLowerCase() && text[index] !== text[index].toLowerCase();
+  return WORD_SEPARATOR.test(previous) || hump;
+}
+
+function findIndices(needle: string, text: string, preferWordStarts: boolean): number[] | null {
+  const haystack = text.toLowerCase();
+  const indices: number[] = [];
+  let from = 0;
+  for (const char of needle) {
+    let index = haystack.indexOf(char, from);
+    if (index === -1) return null;
+    if (preferWordStarts) {
+      for (let i = index; i !== -1; i = haystack.indexOf(char, i + 1)) {
+        if (isWordStart(text, i)) {
+          index = i;
+          break;
+        }
+      }
+    }
+    indices.push(index);
+    from = index + 1;
+  }
+  return indices;
+}
+
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const needle = query.replace(/\s+/g, '').toLowerCase();
+  if (!needle) return { score: 0, indices: [] };
+
+  // Jumping to word starts ('sq' -> "Saved Queries") can skip past the only place a later
+  // character appears, so fall back to the leftmost match
+  const indices = findIndices(needle, text, true) ?? findIndices(needle, text, false);
+  if (!indices) return null;
+
+  let score = 0;
+  indices.forEach((index, i) => {
+    const previous = i > 0 ? indices[i - 1] : -1;
+    score += 1;
+    if (i > 0 && index === previous + 1) score += 5;
+    if (isWordStart(text, index)) score += 10;
+    if (index === 0) score += 5;
+    // Gaps cost a little, so tighter matches win
+    score -= Math.min(index - previous - 1, 10) * 0.1;
+  });
+  return { score, indices };
+}
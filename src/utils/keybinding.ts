@@ -0,0 +1,136 @@
+/**
+ * Keybinding strings such as 'Mod+Shift+E'.
+ * 'Mod' is the primary modifier of the platform: Cmd on macOS, Ctrl elsewhere. Canonical
+ * bindings list modifiers in MODIFIER_ORDER followed by a single key, so they can be
+ * compared as strings and stored independently of the platform.
+ */
+
+export const MODIFIER_ORDER = ['Mod', 'Ctrl', 'Alt', 'Shift', 'Meta'] as const;
+
+type Modifier = (typeof MODIFIER_ORDER)[number];
+
+// KeyboardEvent.code of punctuation keys; codes are layout-position based, so they
+// do not change with Shift or Alt/Option the way KeyboardEvent.key does
+const CODE_KEYS: Record<string, string> = {
+  Backquote: '`',
+  Minus: '-',
+  Equal: '=',
+  BracketLeft: '[',
+  BracketRight: ']',
+  Backslash: '\\',
+  Semicolon: ';',
+  Quote: "'",
+  Comma: ',',
+  Period: '.',
+  Slash: '/',
+  Space: 'Space',
+};
+
+const NAMED_KEYS = [
+  'Enter', 'Escape', 'Tab', 'Backspace', 'Delete', 'Insert', 'Home', 'End', 'PageUp', 'PageDown',
+  'ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'Space',
+  'F1', 'F2', 'F3', 'F4', 'F5', 'F6', 'F7', 'F8', 'F9', 'F10', 'F11', 'F12',
+];
+
+const KEY_ALIASES: Record<string, string> = {
+  ...Object.fromEntries(NAMED_KEYS.map((key) => [key.toLowerCase(), key])),
+  ' ': 'Space',
+  esc: 'Escape',
+  return: 'Enter',
+  del: 'Delete',
+  up: 'ArrowUp',
+  down: 'ArrowDown',
+  left: 'ArrowLeft',
+  right: 'ArrowRight',
+  pgup: 'PageUp',
+  pgdn: 'PageDown',
+};
+
+const MODIFIER_KEYS = new Set(['Control', 'Shift', 'Alt', 'Meta', 'AltGraph', 'CapsLock', 'OS']);
+
+export function isMacPlatform(): boolean {
+  return typeof navigator !== 'undefined' && /Mac|iPod|iPhone|iPad/.test(navigator.platform);
+}
+
+function normalizeKey(key: string): string {
+  if (key.length === 1) return key.toUpperCase();
+  return KEY_ALIASES[key.toLowerCase()] ?? key;
+}
+
+function modifierFromName(name: string, mac: boolean): Modifier | null {
+  switch (name.toLowerCase()) {
+    case 'mod':
+      return 'Mod';
+    case 'ctrl':
+    case 'control':
+      return mac ? 'Ctrl' : 'Mod';
+    case 'cmd':
+    case 'command':
+    case 'meta':
+    case 'super':
+    case 'win':
+      return mac ? 'Mod' : 'Meta';
+    case 'alt':
+    case 'option':
+    case 'opt':
+      return 'Alt';
+    case 'shift':
+      return 'Shift';
+    default:
+      return null;
+  }
+}
+
+function joinBinding(modifiers: Set<Modifier>, key: string): string {
+  return [...MODIFIER_ORDER.filter((m) => modifiers.has(m)), key].join('+');
+}
+
+/**
+ * Canonical form of a binding written by hand ('ctrl+shift+e', 'Cmd+E', 'Mod+/'),
+ * or null when it is not a valid binding
+ */
+export function normalizeBinding(binding: string, mac = isMacPlatform()): string | null {
+  const trimmed = binding.trim();
+  if (!trimmed) return null;
+  // A trailing '++' binds the '+' key itself
+  const parts = trimmed.endsWith('++') ? [...trimmed.slice(0, -2).split('+'), '+'] : trimmed.split('+');
+  const key = parts.pop()?.trim();
+  if (!key || modifierFromName(key, mac)) return null;
+
+  const modifiers = new Set<Modifier>();
+  for (const part of parts) {
+    const modifier = modifierFromName(part.trim(), mac);
+    if (!modifier || modifiers.has(modifier)) return null;
+    modifiers.add(modifier);
+  }
+  return joinBinding(modifiers, normalizeKey(key));
+}
+
+/**
+ * Canonical binding of a key press, or null while only modifiers are held
+ */
+export function bindingFromEvent(e: KeyboardEvent, mac = isMacPlatform()): string | null {
+  if (!e.key || MODIFIER_KEYS.has(e.key)) return null;
+
+  const modifiers = new Set<Modifier>();
+  if (e.ctrlKey) modifiers.add(mac ? 'Ctrl' : 'Mod');
+  if (e.metaKey) modifiers.add(mac ? 'Mod' : 'Meta');
+  if (e.altKey) modifiers.add('Alt');
+  if (e.shiftKey) modifiers.add('Shift');
+
+  const code = e.code ?? '';
+  const letterOrDigit = /^(?:Key|Digit)(.)$/.exec(code);
+  const key = letterOrDigit ? letterOrDigit[1] : (CODE_KEYS[code] ?? normalizeKey(e.key));
+  return joinBinding(modifiers, key);
+}
+
+/**
+ * Binding as shown to the user, with the platform's modifier names
+ */
+export function formatBinding(binding: string, mac = isMacPlatform()): string {
+  const names: Record<string, string> = mac
+    ? { Mod: 'Cmd', Alt: 'Option' }
+    : { Mod: 'Ctrl' };
+  const parts = binding.endsWith('++') ? [...binding.slice(0, -2).split('+'), '+'] : binding.split('+');
+  return parts.map((part) => names[part] ?? part).join('+');
+}
@@ -0,0 +1,109 @@
+import type { ResultField } from '../services/bigqueryDecoder';
+
+/**
+ * Display helpers for query result cells.
+ * Formatting is driven by the BigQuery column type reported in QueryResult.schema.
+ */
+
+const NUMERIC_TYPES = new Set([
+  'INTEGER',
+  'INT64',
+  'FLOAT',
+  'FLOAT64',
+  'NUMERIC',
+  'BIGNUMERIC',
+  'DECIMAL',
+  'BIGDECIMAL',
+  // mock schemas are derived from `typeof`
+  'NUMBER',
+  'BIGINT',
+]);
+
+export const NULL_DISPLAY = 'NULL';
+
+export function isNumericType(type?: string | null): boolean {
+  return !!type && NUMERIC_TYPES.has(type.toUpperCase());
+}
+
+export function isNullValue(value: unknown): boolean {
+  return value === null || value === undefined;
+}
+
+/**
+ * JSON.stringify that keeps 64-bit integers (bigint) as exact numbers-as-strings
+ */
+export function stringifyValue(value: unknown): string {
+  return JSON.stringify(value, (_key, v) => (typeof v === 'bigint' ? v.toString() : v));
+}
+
+/**
+ * A leaf column as displayed in the results table.
+ * Non-repeated RECORD fields are expanded into one column per nested field ("address.city");
+ * REPEATED fields stay a single column.
+ */
+export interface DisplayColumn {
+  key: string;
+  path: string[];
+  type: string;
+  repeated: boolean;
+  field: ResultField;
+}
+
+export function flattenColumns(schema: ResultField[], prefix: string[] = []): DisplayColumn[] {
+  return schema.flatMap((field) => {
+    const path = [...prefix, field.name];
+    const repeated = field.mode?.toUpperCase() === 'REPEATED';
+    const isRecord = ['RECORD', 'STRUCT'].includes(field.type.toUpperCase());
+    if (isRecord && !repeated && field.fields?.length) {
+      return flattenColumns(field.fields, path);
+    }
+    return [{ key: path.join('.'), path, type: field.type, repeated, field }];
+  });
+}
+
+/**
+ * Read a (possibly nested) column value from a decoded row
+ */
+export function getColumnValue(row: Record<string, unknown>, path: string[]): unknown {
+  let value: unknown = row;
+  for (const segment of path) {
+    if (value === null || value === undefined || typeof value !== 'object') return null;
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value;
+}
+
+/**
+ * GoogleSQL-style type label, e.g. ARRAY<STRUCT<id INT64, tags ARRAY<STRING>>>
+ */
+export function describeType(field: Pick<ResultField, 'type' | 'mode' | 'fields'>): string {
+  let base = field.type;
+  if (['RECORD', 'STRUCT'].includes(field.type.toUpperCase()) && field.fields?.length) {
+    base = `STRUCT<${field.fields.map((f) => `${f.name} ${describeType(f)}`).join(', ')}>`;
+  }
+  return field.mode?.toUpperCase() === 'REPEATED' ? `ARRAY<${base}>` : base;
+}
+
+/**
+ * Render a single cell value as display text.
+ * - NULL/undefined become NULL_DISPLAY (callers style it separately)
+ * - TIMESTAMP values are shown in the user's locale
+ * - objects/arrays (RECORD/REPEATED) are JSON-encoded
+ */
+export function formatCell(value: unknown, type?: string | null): string {
+  if (isNullValue(value)) return NULL_DISPLAY;
+
+  switch ((type || '').toUpperCase()) {
+    case 'TIMESTAMP': {
+      const date = value instanceof Date ? value : new Date(String(value));
+      return Number.isNaN(date.getTime()) ? String(value) : date.toLocaleString();
+    }
+    default:
+      break;
+  }
+
+  if (typeof value === 'object') {
+    return stringifyValue(value);
+  }
+  return String(value);
+}
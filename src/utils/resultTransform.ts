@@ -0,0 +1,253 @@
+import { getColumnValue, isNullValue, isNumericType, stringifyValue } from './resultFormat';
+import type { DisplayColumn } from './resultFormat';
+
+/**
+ * Client-side sort, filter and profiling of loaded result rows.
+ * Ordering follows BigQuery's: NULL sorts before every value (so first ascending and last
+ * descending), then NaN before other numbers; strings compare by code point. Numbers are
+ * compared by value, exactly for integers beyond double precision (bigint and decimal strings).
+ */
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface ColumnSort {
+  key: string;
+  direction: SortDirection;
+}
+
+/**
+ * Quick filter on one column. Text inputs are kept as typed; an empty range bound is open.
+ */
+export type ColumnFilter =
+  | { kind: 'contains'; text: string }
+  | { kind: 'equals'; text: string }
+  | { kind: 'range'; min: string; max: string }
+  | { kind: 'null' }
+  | { kind: 'notNull' };
+
+export type ColumnFilterKind = ColumnFilter['kind'];
+
+export interface HistogramBin {
+  label: string;
+  count: number;
+}
+
+export interface ColumnProfile {
+  count: number;
+  nullCount: number;
+  nullRatio: number;
+  distinctCount: number;
+  min: unknown;
+  max: unknown;
+  // equal-width bins for numeric and date/time columns, most frequent values otherwise
+  histogram: HistogramBin[];
+}
+
+const HISTOGRAM_BINS = 10;
+const TOP_VALUES = 5;
+const TEMPORAL_TYPES = new Set(['DATE', 'DATETIME', 'TIMESTAMP']);
+const BOOLEAN_TYPES = new Set(['BOOL', 'BOOLEAN']);
+const INTEGER_TEXT = /^-?\d+$/;
+
+type ValueKind = 'number' | 'boolean' | 'temporal' | 'text';
+
+function valueKind(column: DisplayColumn): ValueKind {
+  if (column.repeated) return 'text';
+  const type = column.type.toUpperCase();
+  if (isNumericType(type)) return 'number';
+  if (BOOLEAN_TYPES.has(type)) return 'boolean';
+  if (TEMPORAL_TYPES.has(type)) return 'temporal';
+  return 'text';
+}
+
+// Text of a non-NULL value: JSON for RECORD/REPEATED values
+function valueText(value: unknown): string {
+  return typeof value === 'object' ? stringifyValue(value) : String(value);
+}
+
+function toBigInt(value: unknown): bigint | null {
+  if (typeof value === 'bigint') return value;
+  if (typeof value === 'number') return Number.isInteger(value) ? BigInt(value) : null;
+  const text = String(value).trim();
+  return INTEGER_TEXT.test(text) ? BigInt(text) : null;
+}
+
+function compareNumbers(a: unknown, b: unknown): number {
+  const bigA = toBigInt(a);
+  const bigB = toBigInt(b);
+  if (bigA !== null && bigB !== null) return bigA < bigB ? -1 : bigA > bigB ? 1 : 0;
+  const x = Number(a);
+  const y = Number(b);
+  if (Number.isNaN(x) || Number.isNaN(y)) return Number(!Number.isNaN(x)) - Number(!Number.isNaN(y));
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+function compareText(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Order of two cell values of a column; NULL is smallest
+ */
+export function compareValues(a: unknown, b: unknown, column: DisplayColumn): number {
+  const nullA = isNullValue(a);
+  const nullB = isNullValue(b);
+  if (nullA || nullB) return Number(!nullA) - Number(!nullB);
+  switch (valueKind(column)) {
+    case 'number':
+      return compareNumbers(a, b);
+    case 'boolean':
+      return Number(a === true || a === 'true') - Number(b === true || b === 'true');
+    default:
+      // ISO dates and timestamps order correctly as text
+      return compareText(valueText(a), valueText(b));
+  }
+}
+
+/**
+ * Rows ordered by one column; stable, so equal values keep their order
+ */
+export function sortRows<T extends Record<string, unknown>>(rows: T[], column: DisplayColumn, direction: SortDirection): T[] {
+  const sign = direction === 'asc' ? 1 : -1;
+  return rows
+    .map((row, index) => ({ row, index, value: getColumnValue(row, column.path) }))
+    .sort((a, b) => sign * compareValues(a.value, b.value, column) || a.index - b.index)
+    .map((entry) => entry.row);
+}
+
+export function matchesFilter(value: unknown, filter: ColumnFilter, column: DisplayColumn): boolean {
+  switch (filter.kind) {
+    case 'null':
+      return isNullValue(value);
+    case 'notNull':
+      return !isNullValue(value);
+    case 'contains':
+      return !isNullValue(value) && valueText(value).toLowerCase().includes(filter.text.toLowerCase());
+    case 'equals':
+      if (isNullValue(value)) return false;
+      if (valueKind(column) === 'number') return filter.text.trim() !== '' && compareNumbers(value, filter.text) === 0;
+      if (valueKind(column) === 'boolean') return valueText(value) === filter.text.trim().toLowerCase();
+      return valueText(value) === filter.text;
+    case 'range': {
+      if (isNullValue(value)) return false;
+      const min = filter.min.trim();
+      const max = filter.max.trim();
+      return (!min || compareValues(value, min, column) >= 0) && (!max || compareValues(value, max, column) <= 0);
+    }
+  }
+}
+
+/**
+ * Rows matching every filter (keyed by column key); filters on unknown columns are ignored
+ */
+export function filterRows<T extends Record<string, unknown>>(
+  rows: T[],
+  columns: DisplayColumn[],
+  filters: Record<string, ColumnFilter>
+): T[] {
+  const active = columns.flatMap((column) => (filters[column.key] ? [{ column, filter: filters[column.key] }] : []));
+  if (!active.length) return rows;
+  return rows.filter((row) =>
+    active.every(({ column, filter }) => matchesFilter(getColumnValue(row, column.path), filter, column))
+  );
+}
+
+/**
+ * Short description of a filter, e.g. `contains "abc"` or `≥ 1 and ≤ 5`
+ */
+export function describeFilter(filter: ColumnFilter): string {
+  switch (filter.kind) {
+    case 'null':
+      return 'is NULL';
+    case 'notNull':
+      return 'is not NULL';
+    case 'contains':
+      return `contains "${filter.text}"`;
+    case 'equals':
+      return `= "${filter.text}"`;
+    case 'range': {
+      const bounds = [filter.min.trim() && `≥ ${filter.min.trim()}`, filter.max.trim() && `≤ ${filter.max.trim()}`];
+      return bounds.filter(Boolean).join(' and ') || 'any value';
+    }
+  }
+}
+
+// Milliseconds since the epoch of a DATE, DATETIME or TIMESTAMP value, read as UTC
+function temporalMillis(value: unknown): number {
+  const text = valueText(value);
+  if (/Z$|[+-]\d\d:\d\d$/.test(text)) return Date.parse(text);
+  return Date.parse(`${text.length === 10 ? `${text}T00:00:00` : text}Z`);
+}
+
+function formatBound(value: number, kind: ValueKind, step: number): string {
+  if (kind === 'temporal') {
+    const iso = new Date(value).toISOString();
+    // show times only when the bins are shorter than a day
+    return step < 86400000 ? iso.slice(0, 16).replace('T', ' ') : iso.slice(0, 10);
+  }
+  return String(Number(value.toPrecision(4)));
+}
+
+function rangeHistogram(values: number[], kind: ValueKind): HistogramBin[] {
+  const finite = values.filter(Number.isFinite);
+  if (!finite.length) return [];
+  let lo = Infinity;
+  let hi = -Infinity;
+  for (const v of finite) {
+    if (v < lo) lo = v;
+    if (v > hi) hi = v;
+  }
+  if (lo === hi) return [{ label: formatBound(lo, kind, 0), count: finite.length }];
+
+  const step = (hi - lo) / HISTOGRAM_BINS;
+  const counts = new Array<number>(HISTOGRAM_BINS).fill(0);
+  for (const v of finite) counts[Math.min(Math.floor((v - lo) / step), HISTOGRAM_BINS - 1)]++;
+  return counts.map((count, i) => ({
+    label: `${formatBound(lo + i * step, kind, step)} – ${formatBound(lo + (i + 1) * step, kind, step)}`,
+    count,
+  }));
+}
+
+function topValuesHistogram(frequencies: Map<string, number>): HistogramBin[] {
+  const sorted = [...frequencies].sort((a, b) => b[1] - a[1]);
+  const bins = sorted.slice(0, TOP_VALUES).map(([label, count]) => ({ label, count }));
+  const other = sorted.slice(TOP_VALUES).reduce((sum, [, count]) => sum + count, 0);
+  return other ? [...bins, { label: 'Other', count: other }] : bins;
+}
+
+/**
+ * Statistics of one column over the given rows
+ */
+export function profileColumn(rows: Record<string, unknown>[], column: DisplayColumn): ColumnProfile {
+  const kind = valueKind(column);
+  const frequencies = new Map<string, number>();
+  const numbers: number[] = [];
+  let nullCount = 0;
+  let min: unknown = null;
+  let max: unknown = null;
+
+  for (const row of rows) {
+    const value = getColumnValue(row, column.path);
+    if (isNullValue(value)) {
+      nullCount++;
+      continue;
+    }
+    const text = valueText(value);
+    frequencies.set(text, (frequencies.get(text) ?? 0) + 1);
+    if (min === null || compareValues(value, min, column) < 0) min = value;
+    if (max === null || compareValues(value, max, column) > 0) max = value;
+    if (kind === 'number') numbers.push(Number(value));
+    else if (kind === 'temporal') numbers.push(temporalMillis(value));
+  }
+
+  const count = rows.length;
+  return {
+    count,
+    nullCount,
+    nullRatio: count ? nullCount / count : 0,
+    distinctCount: frequencies.size,
+    min,
+    max,
+    histogram: kind === 'number' || kind === 'temporal' ? rangeHistogram(numbers, kind) : topValuesHistogram(frequencies),
+  };
+}
@@ -4,15 +4,31 @@ export const editor = {
     getValue: () => '',
     setValue: () => { },
     dispose: () => { },
+    getModel: () => ({}),
     onDidChangeModelContent: () => { },
-    addCommand: () => { }
+    addCommand: () => { },
+    getAction: () => ({ run: () => { } })
   })
 };
 
 export const KeyMod = {
-  CtrlCmd: 1
+  CtrlCmd: 1,
+  Shift: 2
 };
 
 export const KeyCode = {
-  Enter: 1
+  Enter: 1,
+  KeyF: 4
+};
+
+export const languages = {
+  CompletionItemKind: {
+    Function: 1,
+    Field: 3,
+    Struct: 6,
+    Keyword: 17,
+    TypeParameter: 24
+  },
+  registerCompletionItemProvider: () => ({ dispose: () => { } }),
+  registerDocumentFormattingEditProvider: () => ({ dispose: () => { } })
 };
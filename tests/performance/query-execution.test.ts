@@ -6,12 +6,8 @@ import { executeQuery } from '../../src/services/queryService';
 // Mock gapi globally for performance tests
 const mockGapi = {
   client: {
-    bigquery: {
-      jobs: {
-        query: vi.fn()
-      }
-    },
-    load: vi.fn()
+    // every BigQuery call goes through gapi.client.request
+    request: vi.fn()
   },
   load: vi.fn(),
   auth: {},
@@ -30,7 +26,6 @@ describe('Query Performance Tests', () => {
         config.callback();
       }
     });
-    mockGapi.client.load = vi.fn().mockResolvedValue(undefined);
   });
 
   describe('Query Execution Performance', () => {
@@ -132,11 +127,12 @@ describe('Query Performance Tests', () => {
       const authenticatedTimes: number[] = [];
       const session = new UserSession({
         accessToken: 'test-token',
+        projectId: 'perf-project',
         expiresAt: new Date(Date.now() + 3600000).toISOString()
       });
 
       // Mock BigQuery response
-      mockGapi.client.bigquery.jobs.query.mockResolvedValue({
+      mockGapi.client.request.mockResolvedValue({
         result: {
           jobReference: { jobId: 'perf-test-job' },
           schema: { fields: [{ name: 'id', type: 'INTEGER' }] },
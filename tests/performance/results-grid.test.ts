@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { createApp, nextTick } from 'vue';
+import type { Component } from 'vue';
+import ResultsGrid from '../../src/components/ResultsGrid.vue';
+import ResultsPanel from '../../src/components/ResultsPanel.vue';
+import { flattenColumns } from '../../src/utils/resultFormat';
+
+const NUM_ROWS = 100000;
+const NUM_COLUMNS = 30;
+const ROW_HEIGHT = 28;
+
+const schema = Array.from({ length: NUM_COLUMNS }, (_, i) => ({
+  name: `col_${i}`,
+  type: i % 3 === 0 ? 'INT64' : 'STRING'
+}));
+
+function makeRows(n: number) {
+  return Array.from({ length: n }, (_, r) =>
+    Object.fromEntries(schema.map((field, c) => [field.name, c % 3 === 0 ? r * c : `value ${r}-${c}`]))
+  );
+}
+
+// Mounted with createApp rather than test-utils' mount, which walks every row of the props
+function render(component: Component, props: Record<string, unknown>) {
+  const el = document.createElement('div');
+  const app = createApp(component, props);
+  app.mount(el);
+  return {
+    el,
+    app,
+    rows: () => Array.from(el.querySelectorAll('[data-test="result-row"]')),
+    cells: () => el.querySelectorAll('[data-test="result-cell"]').length
+  };
+}
+
+async function scrollTo(viewport: HTMLElement, top: number, left = 0) {
+  viewport.scrollTop = top;
+  viewport.scrollLeft = left;
+  viewport.dispatchEvent(new Event('scroll'));
+  await nextTick();
+}
+
+// Budgets are for jsdom on a CI machine, which is several times slower than a browser
+describe('Results Grid Performance Tests', () => {
+  const rows = makeRows(NUM_ROWS);
+  const columns = flattenColumns(schema);
+
+  // Warm up the component so the first timed render does not pay for JIT compilation
+  render(ResultsGrid, { columns, rows: rows.slice(0, 100) }).app.unmount();
+
+  it('renders 100k rows within budget', () => {
+    const startTime = performance.now();
+    const grid = render(ResultsGrid, { columns, rows });
+    const renderTime = performance.now() - startTime;
+
+    const renderedRows = grid.rows().length;
+    const renderedCells = grid.cells();
+
+    expect(renderedRows).toBeLessThan(50); // only the viewport and overscan
+    expect(renderedCells).toBeLessThan(50 * 15);
+    expect(renderTime).toBeLessThan(400);
+
+    console.log(`Grid render performance:
+      Rows: ${NUM_ROWS}, columns: ${NUM_COLUMNS}
+      Rendered rows: ${renderedRows}, cells: ${renderedCells}
+      Render time: ${renderTime.toFixed(2)}ms`);
+    grid.app.unmount();
+  });
+
+  it('scrolls through 100k rows within budget', async () => {
+    const grid = render(ResultsGrid, { columns, rows });
+    const viewport = grid.el.querySelector('[data-test="results-table"]') as HTMLElement;
+
+    // Wheel-sized steps reuse most rendered rows
+    const numSteps = 100;
+    let startTime = performance.now();
+    for (let i = 1; i <= numSteps; i++) {
+      await scrollTo(viewport, i * 100);
+    }
+    const avgStepTime = (performance.now() - startTime) / numSteps;
+
+    // Jumps (scrollbar drags) replace every rendered row and column
+    const jumpTimes: number[] = [];
+    for (let i = 1; i <= 20; i++) {
+      startTime = performance.now();
+      await scrollTo(viewport, Math.floor((NUM_ROWS / 20) * i - 1) * ROW_HEIGHT, (i % 5) * 800);
+      jumpTimes.push(performance.now() - startTime);
+    }
+    const avgJumpTime = jumpTimes.reduce((a, b) => a + b, 0) / jumpTimes.length;
+    const maxJumpTime = Math.max(...jumpTimes);
+
+    const rowIndices = grid.rows().map((row) => row.getAttribute('aria-rowindex'));
+    expect(rowIndices).toContain(String(NUM_ROWS + 1)); // the last row is reachable
+    expect(grid.rows().length).toBeLessThan(50);
+    expect(avgStepTime).toBeLessThan(50);
+    expect(avgJumpTime).toBeLessThan(100);
+    expect(maxJumpTime).toBeLessThan(300);
+
+    console.log(`Grid scroll performance:
+      Wheel steps: ${numSteps}, average: ${avgStepTime.toFixed(2)}ms
+      Jumps: ${jumpTimes.length}, average: ${avgJumpTime.toFixed(2)}ms, max: ${maxJumpTime.toFixed(2)}ms`);
+    grid.app.unmount();
+  });
+
+  it('keyboard navigation stays responsive at the end of 100k rows', async () => {
+    const selections: unknown[] = [];
+    const grid = render(ResultsGrid, {
+      columns,
+      rows,
+      'onUpdate:selection': (selection: unknown) => selections.push(selection)
+    });
+    const viewport = grid.el.querySelector('[data-test="results-table"]') as HTMLElement;
+    const press = async (init: KeyboardEventInit) => {
+      viewport.dispatchEvent(new KeyboardEvent('keydown', { bubbles: true, ...init }));
+      await nextTick();
+    };
+
+    const startTime = performance.now();
+    await press({ key: 'End', ctrlKey: true });
+    for (let i = 0; i < 20; i++) {
+      await press({ key: 'ArrowUp', shiftKey: true });
+    }
+    const navigationTime = performance.now() - startTime;
+
+    expect(selections[selections.length - 1]).toMatchObject({ top: NUM_ROWS - 21, bottom: NUM_ROWS - 1 });
+    expect(navigationTime).toBeLessThan(500);
+    grid.app.unmount();
+  });
+
+  it('shows 100k loaded rows in the results panel within budget', () => {
+    const startTime = performance.now();
+    const panel = render(ResultsPanel, { results: rows, schema, totalRows: NUM_ROWS });
+    const renderTime = performance.now() - startTime;
+
+    expect(panel.rows().length).toBeLessThan(50);
+    expect(renderTime).toBeLessThan(400);
+    panel.app.unmount();
+  });
+});